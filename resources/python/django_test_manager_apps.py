@@ -0,0 +1,30 @@
+"""
+Installed apps helper bundled with the Django Test Manager VS Code extension.
+
+Run through ``manage.py shell`` so settings are configured exactly as for
+``manage.py test``::
+
+    python manage.py shell -c "import django_test_manager_apps; django_test_manager_apps.main()"
+
+Prints a single line starting with ``DJANGO_TEST_MANAGER_APPS:`` followed by a
+JSON list of the installed apps::
+
+    [{"label": "billing", "name": "src.apps.billing", "path": "/abs/src/apps/billing"}]
+
+The marker keeps the result apart from anything the project prints while its
+settings and app configs are loaded.
+"""
+
+import json
+
+MARKER = 'DJANGO_TEST_MANAGER_APPS:'
+
+
+def main():
+    from django.apps import apps
+
+    result = [
+        {'label': config.label, 'name': config.name, 'path': config.path}
+        for config in apps.get_app_configs()
+    ]
+    print(MARKER + json.dumps(result), flush=True)
@@ -0,0 +1,58 @@
+"""
+Result channel shared by the test runners bundled with the Django Test Manager
+VS Code extension.
+
+The extension listens on a localhost port and passes it in
+``DJANGO_TEST_MANAGER_RESULT_PORT``; tests run through an execution wrapper
+(e.g. in a container) connect to ``DJANGO_TEST_MANAGER_RESULT_HOST`` instead.
+The first line sent is the run's token from ``DJANGO_TEST_MANAGER_RESULT_TOKEN``,
+without which the extension drops the connection.
+Events are sent as one JSON object per line. When the variable is missing or the connection fails, sending is a no-op.
+"""
+
+import json
+import os
+import socket
+import time
+
+HOST_ENV = "DJANGO_TEST_MANAGER_RESULT_HOST"
+PORT_ENV = "DJANGO_TEST_MANAGER_RESULT_PORT"
+TOKEN_ENV = "DJANGO_TEST_MANAGER_RESULT_TOKEN"
+
+
+class EventChannel:
+    """Line-delimited JSON writer connected to the extension."""
+
+    def __init__(self):
+        self._sock = None
+        port = os.environ.get(PORT_ENV)
+        if not port:
+            return
+        host = os.environ.get(HOST_ENV) or "127.0.0.1"
+        try:
+            self._sock = socket.create_connection((host, int(port)), timeout=5)
+            self._sock.sendall((os.environ.get(TOKEN_ENV, "") + "\n").encode("utf-8"))
+        except (OSError, ValueError):
+            self.close()
+
+    @property
+    def connected(self):
+        return self._sock is not None
+
+    def send(self, event, **payload):
+        if self._sock is None:
+            return
+        payload["event"] = event
+        payload["time"] = time.time()
+        data = (json.dumps(payload, default=str) + "\n").encode("utf-8")
+        try:
+            self._sock.sendall(data)
+        except OSError:
+            self._sock = None
+
+    def close(self):
+        if self._sock is not None:
+            try:
+                self._sock.close()
+            finally:
+                self._sock = None
@@ -0,0 +1,339 @@
+"""
+Static test discovery helper bundled with the Django Test Manager VS Code extension.
+
+Reads a JSON request from stdin::
+
+    {"files": [{"path": "/abs/app/tests.py", "source": "..."}]}
+
+and writes the classes and methods defined in each file to stdout::
+
+    {"results": {"/abs/app/tests.py": {"classes": [...], "imports": {...}}}}
+
+Files are parsed with ``ast`` only; nothing is imported or executed, so no
+Django settings or project dependencies are needed. Only classes defined at
+module level are reported (nested classes are not collected by unittest),
+including classes defined inside ``if``/``try``/``with`` blocks. When a name is
+defined twice the last definition wins, as it does at import time. Files with
+syntax errors are reported with an ``error`` so the extension can fall back to
+its regex parser.
+
+``imports`` maps each name bound by a module-level import to the dotted name it
+refers to, so the extension can resolve base classes defined in other modules.
+Relative imports keep their leading dots (``from .base import X`` gives
+``{"X": ".base.X"}``).
+
+For pytest, module-level ``functions`` are reported too, and functions decorated
+with ``@pytest.mark.parametrize`` get the ``cases`` ids pytest would generate
+(``test_add[1-2]``), as long as the parameters are literals.
+
+Classes, methods and functions decorated with Django's ``@tag`` get the literal
+tag names in ``tags``.
+
+Methods whose real tests are generated at import time, by
+``@parameterized.expand`` or ddt's ``@data``/``@idata``/``@file_data``, get
+``"generator": "parameterized"`` or ``"ddt"``. The generated names depend on the
+data, so they are left to the extension to learn from test runs.
+
+Docstrings containing ``>>>`` examples are listed in ``doctests`` under the name
+``doctest`` gives them relative to the module (``""`` for the module docstring,
+``Money.total`` for a method), with the line of the docstring. Modules a
+``load_tests`` hook passes to ``doctest.DocTestSuite`` are listed, as written,
+in ``doctest_suites``.
+"""
+
+import ast
+import itertools
+import json
+import sys
+
+
+def _dotted_name(node):
+    """Return the dotted name of a base class expression, if it has one."""
+    if isinstance(node, ast.Name):
+        return node.id
+    if isinstance(node, ast.Attribute):
+        value = _dotted_name(node.value)
+        return "{}.{}".format(value, node.attr) if value else node.attr
+    if isinstance(node, ast.Subscript):
+        # Generic[T] style bases
+        return _dotted_name(node.value)
+    return None
+
+
+def _iter_block(body):
+    """Yield statements of a block, descending into conditional blocks."""
+    for node in body:
+        if isinstance(node, ast.If):
+            yield from _iter_block(node.body)
+            yield from _iter_block(node.orelse)
+        elif isinstance(node, ast.Try) or type(node).__name__ == "TryStar":
+            yield from _iter_block(node.body)
+            for handler in node.handlers:
+                yield from _iter_block(handler.body)
+            yield from _iter_block(node.orelse)
+            yield from _iter_block(node.finalbody)
+        elif isinstance(node, (ast.With, ast.AsyncWith)):
+            yield from _iter_block(node.body)
+        else:
+            yield node
+
+
+_LITERAL = object()
+
+
+def _literal(node):
+    try:
+        return ast.literal_eval(node)
+    except (ValueError, TypeError, SyntaxError, MemoryError, RecursionError):
+        return _LITERAL
+
+
+def _value_id(value, argname, index):
+    """Id of a single parameter value, following pytest's rules."""
+    if isinstance(value, str):
+        return value.encode("unicode_escape").decode("ascii")
+    if isinstance(value, bytes):
+        return value.decode("ascii", "backslashreplace")
+    if value is None or isinstance(value, (bool, int, float, complex)):
+        return str(value)
+    return "{}{}".format(argname, index)
+
+
+def _parametrize_ids(decorator):
+    """Ids generated by one ``parametrize`` decorator, or None if unknown."""
+    if len(decorator.args) < 2:
+        return None
+    argnames = _literal(decorator.args[0])
+    if isinstance(argnames, str):
+        argnames = [name.strip() for name in argnames.split(",") if name.strip()]
+    if not isinstance(argnames, (list, tuple)) or not argnames:
+        return None
+    if not isinstance(decorator.args[1], (ast.List, ast.Tuple)):
+        return None
+
+    explicit_ids = None
+    for keyword in decorator.keywords:
+        if keyword.arg == "ids":
+            explicit_ids = _literal(keyword.value)
+            if not isinstance(explicit_ids, (list, tuple)):
+                return None
+
+    ids = []
+    for index, element in enumerate(decorator.args[1].elts):
+        param_id = None
+        if isinstance(element, ast.Call) and (_dotted_name(element.func) or "").endswith("param"):
+            for keyword in element.keywords:
+                if keyword.arg == "id":
+                    param_id = _literal(keyword.value)
+            values = element.args
+        elif len(argnames) == 1:
+            values = [element]
+        elif isinstance(element, (ast.List, ast.Tuple)):
+            values = element.elts
+        else:
+            return None
+
+        if explicit_ids is not None and index < len(explicit_ids) and explicit_ids[index] is not None:
+            param_id = explicit_ids[index]
+        if isinstance(param_id, str):
+            ids.append(param_id)
+            continue
+        ids.append("-".join(
+            _value_id(_literal(value), argname, index)
+            for argname, value in zip(argnames, values)
+        ))
+
+    # pytest makes duplicate ids unique with a counter
+    duplicates = {i for i in ids if ids.count(i) > 1}
+    counters = dict.fromkeys(duplicates, 0)
+    for position, param_id in enumerate(ids):
+        if param_id in duplicates:
+            ids[position] = "{}{}".format(param_id, counters[param_id])
+            counters[param_id] += 1
+    return ids
+
+
+def _parametrize_cases(node):
+    """Ids of all cases of a parametrized function, or None."""
+    decorators = [
+        d for d in node.decorator_list
+        if isinstance(d, ast.Call) and (_dotted_name(d.func) or "").endswith("mark.parametrize")
+    ]
+    if not decorators:
+        return None
+    # The decorator closest to the function comes first in the id
+    per_decorator = [_parametrize_ids(d) for d in reversed(decorators)]
+    if any(ids is None for ids in per_decorator):
+        return None
+    return ["-".join(combination) for combination in itertools.product(*per_decorator)]
+
+
+def _tags(node):
+    """Names given to Django's ``@tag`` decorators, in order."""
+    tags = []
+    for decorator in node.decorator_list:
+        if isinstance(decorator, ast.Call) and (_dotted_name(decorator.func) or "").split(".")[-1] == "tag":
+            for arg in decorator.args:
+                value = _literal(arg)
+                if isinstance(value, str) and value not in tags:
+                    tags.append(value)
+    return tags
+
+
+def _generator(node):
+    """Library generating tests from a decorated method, or None."""
+    for decorator in node.decorator_list:
+        if not isinstance(decorator, ast.Call):
+            continue
+        parts = (_dotted_name(decorator.func) or "").split(".")
+        if parts[-1] == "expand" and (len(parts) == 1 or parts[-2] == "parameterized"):
+            return "parameterized"
+        if parts[-1] in ("data", "idata", "file_data") and (len(parts) == 1 or parts[-2] == "ddt"):
+            return "ddt"
+    return None
+
+
+def _describe_function(node):
+    description = {
+        "name": node.name,
+        "line": node.lineno,
+        "async": isinstance(node, ast.AsyncFunctionDef),
+    }
+    cases = _parametrize_cases(node)
+    if cases is not None:
+        description["cases"] = cases
+    tags = _tags(node)
+    if tags:
+        description["tags"] = tags
+    generator = _generator(node)
+    if generator:
+        description["generator"] = generator
+    return description
+
+
+def _describe_class(node):
+    methods = {}
+    for child in _iter_block(node.body):
+        if isinstance(child, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            methods.pop(child.name, None)
+            methods[child.name] = _describe_function(child)
+    description = {
+        "name": node.name,
+        "line": node.lineno,
+        "bases": [name for name in map(_dotted_name, node.bases) if name],
+        "methods": list(methods.values()),
+    }
+    tags = _tags(node)
+    if tags:
+        description["tags"] = tags
+    return description
+
+
+def _describe_imports(node, star_imports):
+    imports = {}
+    if isinstance(node, ast.Import):
+        for alias in node.names:
+            if alias.asname:
+                imports[alias.asname] = alias.name
+            else:
+                top = alias.name.split(".")[0]
+                imports[top] = top
+    elif isinstance(node, ast.ImportFrom):
+        prefix = "." * node.level + (node.module or "")
+        for alias in node.names:
+            if alias.name == "*":
+                star_imports.append(prefix)
+                continue
+            separator = "." if node.module else ""
+            imports[alias.asname or alias.name] = prefix + separator + alias.name
+    return imports
+
+
+def _has_examples(node):
+    docstring = ast.get_docstring(node, clean=False)
+    return bool(docstring) and ">>>" in docstring
+
+
+def _doctests(tree):
+    """Docstrings with examples, named the way ``doctest.DocTestFinder`` does."""
+    found = []
+    if _has_examples(tree):
+        found.append({"name": "", "line": tree.body[0].lineno})
+
+    def visit(body, prefix):
+        for node in _iter_block(body):
+            if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+                name = prefix + node.name
+                if _has_examples(node):
+                    found.append({"name": name, "line": node.body[0].lineno})
+                # DocTestFinder looks into classes, not into function bodies
+                if isinstance(node, ast.ClassDef):
+                    visit(node.body, name + ".")
+
+    visit(tree.body, "")
+    return found
+
+
+def _doctest_suites(tree):
+    """Modules passed to ``DocTestSuite`` by a module-level ``load_tests``."""
+    modules = []
+    for node in _iter_block(tree.body):
+        if not isinstance(node, ast.FunctionDef) or node.name != "load_tests":
+            continue
+        for call in ast.walk(node):
+            if not isinstance(call, ast.Call) or (_dotted_name(call.func) or "").split(".")[-1] != "DocTestSuite":
+                continue
+            args = call.args[:1] or [keyword.value for keyword in call.keywords if keyword.arg == "module"]
+            for arg in args:
+                value = _literal(arg)
+                name = value if isinstance(value, str) else _dotted_name(arg)
+                if name and name not in modules:
+                    modules.append(name)
+    return modules
+
+
+def parse_source(source, filename):
+    tree = ast.parse(source, filename)
+    classes = {}
+    functions = {}
+    imports = {}
+    star_imports = []
+    for node in _iter_block(tree.body):
+        if isinstance(node, ast.ClassDef):
+            classes.pop(node.name, None)
+            classes[node.name] = _describe_class(node)
+        elif isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            functions.pop(node.name, None)
+            functions[node.name] = _describe_function(node)
+        else:
+            imports.update(_describe_imports(node, star_imports))
+    result = {
+        "classes": list(classes.values()),
+        "functions": list(functions.values()),
+        "imports": imports,
+    }
+    if star_imports:
+        result["star_imports"] = star_imports
+    doctests = _doctests(tree)
+    if doctests:
+        result["doctests"] = doctests
+    suites = _doctest_suites(tree)
+    if suites:
+        result["doctest_suites"] = suites
+    return result
+
+
+def main():
+    request = json.load(sys.stdin)
+    results = {}
+    for entry in request.get("files", []):
+        path = entry["path"]
+        try:
+            results[path] = parse_source(entry["source"], path)
+        except (SyntaxError, ValueError) as exc:
+            results[path] = {"error": str(exc)}
+    json.dump({"results": results}, sys.stdout)
+
+
+if __name__ == "__main__":
+    main()
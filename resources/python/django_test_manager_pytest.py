@@ -0,0 +1,143 @@
+"""
+pytest plugin bundled with the Django Test Manager VS Code extension.
+
+The extension runs ``pytest -p django_test_manager_pytest`` with this directory
+on ``PYTHONPATH``. Every test start and outcome is reported over the same result
+channel as ``manage.py test`` runs, using node ids relative to the working
+directory (``app/tests/test_views.py::ViewTests::test_get``). Console output is
+left untouched, and without a listening extension the plugin does nothing.
+
+Setup and teardown errors are reported as ``error`` outcomes of the test,
+expected failures (``xfail``) as passed and strict unexpected passes as failed,
+matching how unittest results are mapped. A failing subtest fails its test.
+Modules that fail to import are reported as errors of their file.
+"""
+
+import os
+import traceback
+import unittest
+
+import _pytest
+import pluggy
+import pytest
+
+from django_test_manager_channel import EventChannel
+
+# Maximum amount of captured stdout/stderr sent back per test.
+MAX_CAPTURED_OUTPUT = 64 * 1024
+
+# Leading frames of pytest and unittest are left out of reported tracebacks
+_INTERNAL_DIRS = tuple(
+    os.path.dirname(module.__file__) + os.sep for module in (_pytest, pluggy, unittest)
+)
+
+
+class DjangoTestManagerPlugin:
+    def __init__(self, config):
+        self._channel = EventChannel()
+        self._rootpath = str(config.rootpath)
+        self._native_tracebacks = {}
+        self._subtest_failures = {}
+
+    def _test_id(self, nodeid):
+        """Node id relative to the working directory instead of pytest's rootdir."""
+        path, separator, rest = nodeid.partition("::")
+        if not path:
+            return nodeid
+        relative = os.path.relpath(os.path.join(self._rootpath, path), os.getcwd())
+        return relative.replace(os.sep, "/") + separator + rest
+
+    def pytest_collection_finish(self, session):
+        self._channel.send("startTestRun", count=len(session.items))
+
+    def pytest_collectreport(self, report):
+        if report.failed:
+            self._channel.send(
+                "outcome",
+                test=self._test_id(report.nodeid),
+                fixture="import",
+                outcome="error",
+                traceback=report.longreprtext,
+                message=_crash_message(report),
+            )
+
+    def pytest_runtest_logstart(self, nodeid, location):
+        self._channel.send("startTest", test=self._test_id(nodeid))
+
+    @pytest.hookimpl(hookwrapper=True)
+    def pytest_runtest_makereport(self, item, call):
+        outcome = yield
+        report = outcome.get_result()
+        if report.failed and call.excinfo is not None:
+            # Plain Python tracebacks let the extension link frames and diffs
+            try:
+                tb = call.excinfo.tb
+                while tb is not None and tb.tb_frame.f_code.co_filename.startswith(_INTERNAL_DIRS):
+                    tb = tb.tb_next
+                formatted = traceback.format_exception(
+                    call.excinfo.type, call.excinfo.value, tb or call.excinfo.tb
+                )
+                self._native_tracebacks[(report.nodeid, report.when)] = "".join(formatted)
+            except Exception:
+                pass
+
+    def pytest_runtest_logreport(self, report):
+        native = self._native_tracebacks.pop((report.nodeid, report.when), None)
+        if type(report).__name__ == "SubtestReport":
+            # A failing subtest fails its test, reported with the test's own outcome
+            if report.failed and report.nodeid not in self._subtest_failures:
+                self._subtest_failures[report.nodeid] = (report, native)
+            return
+        subtest_failure = self._subtest_failures.pop(report.nodeid, None) if report.when == "call" else None
+        if subtest_failure is not None and report.passed:
+            report, native = subtest_failure
+
+        payload = {"test": self._test_id(report.nodeid)}
+        wasxfail = hasattr(report, "wasxfail")
+
+        if report.when == "call":
+            if report.passed:
+                payload["outcome"] = "failed" if wasxfail and report.wasxfail.startswith("[XPASS(strict)]") else "passed"
+            elif report.skipped:
+                # An expected failure is a success
+                payload["outcome"] = "passed" if wasxfail else "skipped"
+                payload["message"] = (report.wasxfail or None) if wasxfail else _skip_reason(report)
+            else:
+                payload["outcome"] = "failed"
+        elif report.failed:
+            payload["outcome"] = "error"
+            payload["fixture"] = report.when
+        elif report.skipped and report.when == "setup":
+            payload["outcome"] = "skipped"
+            payload["message"] = _skip_reason(report)
+        else:
+            return
+
+        if report.failed:
+            payload["traceback"] = native or report.longreprtext
+            payload["message"] = _crash_message(report)
+        payload["duration"] = report.duration
+        payload["output"] = (report.capstdout + report.capstderr)[:MAX_CAPTURED_OUTPUT]
+        self._channel.send("outcome", **payload)
+
+    def pytest_sessionfinish(self, session):
+        self._channel.send("stopTestRun")
+        self._channel.close()
+
+
+def _crash_message(report):
+    crash = getattr(report.longrepr, "reprcrash", None)
+    if crash is not None:
+        return crash.message.split("\n")[0]
+    lines = report.longreprtext.strip().splitlines()
+    return lines[-1] if lines else None
+
+
+def _skip_reason(report):
+    if isinstance(report.longrepr, tuple) and len(report.longrepr) == 3:
+        return report.longrepr[2].replace("Skipped: ", "", 1)
+    return None
+
+
+def pytest_configure(config):
+    config.pluginmanager.register(DjangoTestManagerPlugin(config), "django_test_manager_reporter")
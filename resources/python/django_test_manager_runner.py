@@ -0,0 +1,428 @@
+"""
+Test runner bundled with the Django Test Manager VS Code extension.
+
+The extension passes ``--testrunner django_test_manager_runner.DjangoTestManagerRunner``
+and puts this directory on ``PYTHONPATH``. The runner wraps the project's own
+``TEST_RUNNER`` and adds a result class that reports every test start, outcome
+and stop as one JSON object per line over a socket opened by the extension.
+Every ``self.subTest(...)`` block of a test is reported as a ``subTest`` event
+with unittest's description of its parameters.
+Console output is left untouched, so the terminal looks exactly like a normal
+``manage.py test -v 2`` run.
+
+If the extension is not listening (or the connection fails) the runner behaves
+exactly like the wrapped runner and the extension falls back to parsing the
+verbose console output. A ``TEST_RUNNER`` that is not a ``DiscoverRunner``
+subclass cannot be wrapped; it runs unchanged and never connects.
+
+When the extension splits a run into shards, each process gets a database
+suffix in ``DJANGO_TEST_MANAGER_DB_SUFFIX`` and creates its own test databases.
+
+With ``--parallel``, Django's workers send their results back to the main
+process, which replays them on the result class, so every outcome is reported
+for the right test. The workers also send each test's duration, and replace
+exceptions that cannot be pickled with their formatted traceback instead of
+aborting the run.
+
+``DjangoTestManagerCollectRunner`` builds the suite the same way but runs
+nothing: it reports every test id Django would run (with its source location
+when one can be found) and exits without creating test databases.
+"""
+
+import inspect
+import io
+import os
+import sys
+import time
+import traceback
+
+from django.conf import settings
+from django.test.runner import DiscoverRunner, ParallelTestSuite, RemoteTestResult, RemoteTestRunner
+from django.test.utils import get_runner
+
+from django_test_manager_channel import EventChannel
+
+# Maximum amount of captured stdout/stderr sent back per test.
+MAX_CAPTURED_OUTPUT = 64 * 1024
+
+# Set by the extension for each process of a sharded run.
+SHARD_DB_SUFFIX_ENV = "DJANGO_TEST_MANAGER_DB_SUFFIX"
+
+
+def _get_project_runner():
+    """Return the project's configured runner, unless it is this one."""
+    base = get_runner(settings)
+    if base.__module__ == __name__:
+        return DiscoverRunner
+    return base
+
+
+def _get_base_runner():
+    """
+    Return the runner the runners of this module build on: the project's own
+    when it subclasses ``DiscoverRunner``, which the reporter hooks into, and
+    ``DiscoverRunner`` otherwise.
+    """
+    base = _get_project_runner()
+    return base if issubclass(base, DiscoverRunner) else DiscoverRunner
+
+
+class _Tee(io.TextIOBase):
+    """Write to the original stream while keeping a copy of the output."""
+
+    def __init__(self, stream):
+        self._stream = stream
+        self.captured = io.StringIO()
+
+    def write(self, data):
+        if self.captured.tell() < MAX_CAPTURED_OUTPUT:
+            self.captured.write(data)
+        return self._stream.write(data)
+
+    def flush(self):
+        self._stream.flush()
+
+    def isatty(self):
+        return False
+
+    def __getattr__(self, name):
+        return getattr(self._stream, name)
+
+
+def describe_test(test):
+    """
+    Return ``(test_id, fixture)`` for a test.
+
+    Failures in ``setUpClass``/``setUpModule`` are reported by unittest through
+    an ``_ErrorHolder`` whose description looks like
+    ``setUpClass (app.tests.MyTests)``; those are mapped back to the class or
+    module they belong to. Modules that fail to import are reported through a
+    ``_FailedTest`` named after the module.
+    """
+    test_id = test.id()
+    if type(test).__name__ == "_FailedTest":
+        return test._testMethodName, "import"
+    if type(test).__name__ == "_ErrorHolder":
+        description = getattr(test, "description", test_id)
+        if " (" in description and description.endswith(")"):
+            fixture, _, target = description[:-1].partition(" (")
+            return target, fixture
+    return test_id, None
+
+
+def describe_subtest(subtest):
+    """Return unittest's description of a subtest, e.g. ``[message] (i=1)``."""
+    describe = getattr(subtest, "_subDescription", None)
+    if describe is not None:
+        return describe()
+    # str(subtest) is "test_x (app.tests.MyTests.test_x) (i=1)"
+    return str(subtest)[len(str(subtest.test_case)):].strip()
+
+
+def make_result_class(base, channel):
+    class DjangoTestManagerResult(base):
+        def startTest(self, test):
+            self._dtm_start = time.time()
+            self._dtm_remote_duration = None
+            self._dtm_outcome_sent = False
+            self._dtm_subtest_error = None
+            self._dtm_stdout = _Tee(sys.stdout)
+            self._dtm_stderr = _Tee(sys.stderr)
+            sys.stdout, sys.stderr = self._dtm_stdout, self._dtm_stderr
+            test_id, fixture = describe_test(test)
+            channel.send("startTest", test=test_id, fixture=fixture)
+            super().startTest(test)
+
+        def stopTest(self, test):
+            super().stopTest(test)
+            # A failing subTest never reaches addSuccess/addFailure for the
+            # test itself, so report the first subtest failure as its outcome.
+            if not getattr(self, "_dtm_outcome_sent", True) and self._dtm_subtest_error:
+                outcome, err = self._dtm_subtest_error
+                self._dtm_outcome(test, outcome, err=err)
+            self._dtm_restore_streams()
+            test_id, _ = describe_test(test)
+            channel.send("stopTest", test=test_id)
+
+        def _dtm_restore_streams(self):
+            if isinstance(sys.stdout, _Tee):
+                sys.stdout = self._dtm_stdout._stream
+            if isinstance(sys.stderr, _Tee):
+                sys.stderr = self._dtm_stderr._stream
+
+        def _dtm_captured(self):
+            parts = []
+            for tee in (getattr(self, "_dtm_stdout", None), getattr(self, "_dtm_stderr", None)):
+                if tee is not None:
+                    parts.append(tee.captured.getvalue())
+            return "".join(parts)
+
+        def _dtm_subtest(self, test, subtest, outcome, err=None, reason=None):
+            test_id, _ = describe_test(test)
+            payload = {"test": test_id, "subtest": describe_subtest(subtest), "outcome": outcome}
+            if err is not None:
+                payload["traceback"] = self._exc_info_to_string(err, test)
+                payload["message"] = traceback.format_exception_only(err[0], err[1])[-1].strip()
+            if reason is not None:
+                payload["message"] = str(reason)
+            channel.send("subTest", **payload)
+
+        def _dtm_outcome(self, test, outcome, err=None, reason=None):
+            test_id, fixture = describe_test(test)
+            # Class/module fixtures are reported outside startTest/stopTest,
+            # so timing and captured output would belong to another test.
+            start = None if fixture else getattr(self, "_dtm_start", None)
+            remote_duration = getattr(self, "_dtm_remote_duration", None)
+            payload = {
+                "test": test_id,
+                "fixture": fixture,
+                "outcome": outcome,
+                "duration": time.time() - start if start else None,
+                "output": "" if fixture else self._dtm_captured(),
+            }
+            # Replayed from a parallel worker: timing and output happened there
+            if remote_duration is not None:
+                payload["duration"] = remote_duration
+                payload["output"] = ""
+            if err is not None and isinstance(err[1], UnpicklableTestError):
+                payload["traceback"] = err[1].traceback
+                payload["message"] = err[1].message
+            elif err is not None:
+                payload["traceback"] = self._exc_info_to_string(err, test)
+                payload["message"] = traceback.format_exception_only(err[0], err[1])[-1].strip()
+            if reason is not None:
+                payload["message"] = str(reason)
+            self._dtm_outcome_sent = True
+            channel.send("outcome", **payload)
+
+        def _dtm_duration(self, test, duration):
+            """Duration of a test measured in a parallel worker."""
+            self._dtm_remote_duration = duration
+
+        def addSuccess(self, test):
+            super().addSuccess(test)
+            self._dtm_outcome(test, "passed")
+
+        def addFailure(self, test, err):
+            super().addFailure(test, err)
+            self._dtm_outcome(test, "failed", err=err)
+
+        def addError(self, test, err):
+            super().addError(test, err)
+            self._dtm_outcome(test, "error", err=err)
+
+        def addSubTest(self, test, subtest, err):
+            super().addSubTest(test, subtest, err)
+            if err is None:
+                self._dtm_subtest(test, subtest, "passed")
+                return
+            outcome = "failed" if issubclass(err[0], test.failureException) else "error"
+            self._dtm_subtest(test, subtest, outcome, err=err)
+            if getattr(self, "_dtm_subtest_error", None) is None:
+                self._dtm_subtest_error = (outcome, err)
+
+        def addSkip(self, test, reason):
+            super().addSkip(test, reason)
+            # skipTest() inside a subTest block skips only that subtest
+            if type(test).__name__ == "_SubTest":
+                self._dtm_subtest(test.test_case, test, "skipped", reason=reason)
+                return
+            self._dtm_outcome(test, "skipped", reason=reason)
+
+        def addExpectedFailure(self, test, err):
+            super().addExpectedFailure(test, err)
+            self._dtm_outcome(test, "passed", err=err)
+
+        def addUnexpectedSuccess(self, test):
+            super().addUnexpectedSuccess(test)
+            self._dtm_outcome(test, "failed", reason="Unexpected success")
+
+    return DjangoTestManagerResult
+
+
+class UnpicklableTestError(Exception):
+    """
+    Stands in for an exception a parallel worker cannot pickle, carrying its
+    formatted traceback to the main process.
+    """
+
+    def __init__(self, formatted, message):
+        super().__init__(formatted)
+        self.traceback = formatted
+        self.message = message
+
+    def __reduce__(self):
+        return (UnpicklableTestError, (self.traceback, self.message))
+
+
+class DjangoTestManagerRemoteResult(RemoteTestResult):
+    """
+    Result of a parallel worker. Sends each test's duration along with its
+    outcome, and the traceback of exceptions that cannot be pickled (which
+    makes Django's worker abort the whole run) as an UnpicklableTestError.
+    """
+
+    def startTest(self, test):
+        self._dtm_start = time.time()
+        super().startTest(test)
+
+    def _dtm_send_duration(self):
+        start = getattr(self, "_dtm_start", None)
+        if start is not None:
+            self.events.append(("_dtm_duration", self.test_index, time.time() - start))
+            self._dtm_start = None
+
+    def _dtm_picklable(self, err):
+        try:
+            self._confirm_picklable(err)
+            return err
+        except Exception as exc:
+            formatted = "".join(traceback.format_exception(*err))
+            formatted += "\n(The parallel test runner could not pickle this exception: %r)" % exc
+            message = traceback.format_exception_only(err[0], err[1])[-1].strip()
+            return (UnpicklableTestError, UnpicklableTestError(formatted, message), None)
+
+    def addSuccess(self, test):
+        self._dtm_send_duration()
+        super().addSuccess(test)
+
+    def addFailure(self, test, err):
+        self._dtm_send_duration()
+        super().addFailure(test, self._dtm_picklable(err))
+
+    def addError(self, test, err):
+        self._dtm_send_duration()
+        super().addError(test, self._dtm_picklable(err))
+
+    def addSubTest(self, test, subtest, err):
+        super().addSubTest(test, subtest, None if err is None else self._dtm_picklable(err))
+
+    def addSkip(self, test, reason):
+        self._dtm_send_duration()
+        super().addSkip(test, reason)
+
+    def addExpectedFailure(self, test, err):
+        self._dtm_send_duration()
+        super().addExpectedFailure(test, self._dtm_picklable(err))
+
+    def addUnexpectedSuccess(self, test):
+        self._dtm_send_duration()
+        super().addUnexpectedSuccess(test)
+
+
+class DjangoTestManagerRemoteRunner(RemoteTestRunner):
+    resultclass = DjangoTestManagerRemoteResult
+
+
+class DjangoTestManagerParallelSuite(ParallelTestSuite):
+    """Django's parallel suite with workers reporting through DjangoTestManagerRemoteResult."""
+
+    runner_class = DjangoTestManagerRemoteRunner
+
+
+def use_shard_databases(suffix):
+    """
+    Give every test database of this process a name of its own, e.g.
+    ``test_shop_shard2``, so the shards of a run do not share databases.
+    In-memory SQLite databases are private to the process already.
+    """
+    from django.db import connections
+
+    for alias in connections:
+        connection = connections[alias]
+        name = connection.creation._get_test_db_name()
+        is_in_memory = getattr(connection.creation, "is_in_memory_db", None)
+        if is_in_memory is not None and is_in_memory(name):
+            continue
+        connection.settings_dict.setdefault("TEST", {})["NAME"] = "%s_%s" % (name, suffix)
+
+
+class DjangoTestManagerRunner(_get_base_runner()):
+    """The project's test runner with structured result reporting added."""
+
+    def __init__(self, *args, **kwargs):
+        super().__init__(*args, **kwargs)
+        self._dtm_channel = EventChannel()
+        # Only this runner's result class understands the workers' extra events;
+        # a project's own parallel suite is left alone
+        if self._dtm_channel.connected and getattr(self, "parallel_test_suite", None) is ParallelTestSuite:
+            self.parallel_test_suite = DjangoTestManagerParallelSuite
+
+    def setup_databases(self, **kwargs):
+        suffix = os.environ.get(SHARD_DB_SUFFIX_ENV)
+        if suffix:
+            use_shard_databases(suffix)
+        return super().setup_databases(**kwargs)
+
+    def get_test_runner_kwargs(self):
+        kwargs = super().get_test_runner_kwargs()
+        if self._dtm_channel.connected:
+            base = kwargs.get("resultclass") or self.test_runner.resultclass
+            kwargs["resultclass"] = make_result_class(base, self._dtm_channel)
+        return kwargs
+
+    def run_suite(self, suite, **kwargs):
+        self._dtm_channel.send("startTestRun", count=suite.countTestCases())
+        try:
+            result = super().run_suite(suite, **kwargs)
+        finally:
+            self._dtm_channel.send("stopTestRun")
+        return result
+
+    def run_tests(self, *args, **kwargs):
+        try:
+            return super().run_tests(*args, **kwargs)
+        finally:
+            self._dtm_channel.close()
+
+
+if not issubclass(_get_project_runner(), DiscoverRunner):
+    # Run other runners unchanged, without the reporter; the extension then
+    # parses their console output
+    DjangoTestManagerRunner = _get_project_runner()
+
+
+def iter_tests(suite):
+    """Yield the individual tests of a (nested) suite."""
+    for test in suite:
+        if hasattr(test, "__iter__"):
+            yield from iter_tests(test)
+        else:
+            yield test
+
+
+def locate_test(test):
+    """Return ``(file, line)`` of a test method, or ``(None, None)``."""
+    method = getattr(test, getattr(test, "_testMethodName", ""), None)
+    if method is None:
+        return None, None
+    try:
+        func = inspect.unwrap(method)
+        return inspect.getsourcefile(func), inspect.getsourcelines(func)[1]
+    except (TypeError, OSError):
+        return None, None
+
+
+class DjangoTestManagerCollectRunner(_get_base_runner()):
+    """
+    Build the suite with the project's runner and report it without running it.
+    Runners that are not ``DiscoverRunner`` subclasses have no ``build_suite``,
+    so their tests are collected the way ``DiscoverRunner`` finds them.
+    """
+
+    def run_tests(self, test_labels, *args, **kwargs):
+        channel = EventChannel()
+        try:
+            suite = self.build_suite(test_labels)
+            tests = list(iter_tests(suite))
+            channel.send("startTestRun", count=len(tests))
+            for test in tests:
+                test_id, fixture = describe_test(test)
+                file, line = (None, None) if fixture else locate_test(test)
+                channel.send("collectTest", test=test_id, fixture=fixture, file=file, line=line)
+                if not channel.connected:
+                    print(test_id)
+            channel.send("stopTestRun")
+        finally:
+            channel.close()
+        return 0
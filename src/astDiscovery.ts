@@ -0,0 +1,180 @@
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { TestGenerator } from './classHierarchy';
+import { getPythonHelpersPath } from './resultChannel';
+import { getPythonInterpreter } from './testUtils';
+
+/**
+ * A method as reported by the discovery helper (1-based line)
+ */
+export interface AstMethod {
+    name: string;
+    line: number;
+    async: boolean;
+    /** Ids of @pytest.mark.parametrize cases, when the parameters are literals */
+    cases?: string[];
+    /** Names given to Django's @tag decorator */
+    tags?: string[];
+    /** Set when parameterized or ddt generates the real tests from this method */
+    generator?: TestGenerator;
+}
+
+/**
+ * A module-level class as reported by the discovery helper (1-based line)
+ */
+export interface AstClass {
+    name: string;
+    line: number;
+    bases: string[];
+    methods: AstMethod[];
+    /** Names given to Django's @tag decorator */
+    tags?: string[];
+}
+
+/**
+ * A docstring with doctest examples as reported by the discovery helper (1-based line)
+ */
+export interface AstDoctest {
+    /** Name relative to the module, e.g. "Money.total"; empty for the module docstring */
+    name: string;
+    line: number;
+}
+
+/**
+ * Classes and module-level imports of a file as reported by the discovery helper
+ */
+export interface AstModule {
+    classes: AstClass[];
+    functions: AstMethod[];
+    /** Local name -> imported dotted name (relative imports keep their leading dots) */
+    imports: { [alias: string]: string };
+    /** Modules imported with `from module import *` (relative ones keep their leading dots) */
+    star_imports?: string[];
+    doctests?: AstDoctest[];
+    /** Modules the file's load_tests hook passes to doctest.DocTestSuite, as written */
+    doctest_suites?: string[];
+}
+
+interface AstFileResult extends Partial<AstModule> {
+    error?: string;
+}
+
+const DISCOVERY_SCRIPT = 'django_test_manager_discover.py';
+const DISCOVERY_TIMEOUT_MS = 30000;
+
+/**
+ * Parses test files with Python's `ast` module through the bundled helper.
+ *
+ * Files are sent in batches to a single helper process; results are cached by
+ * file content hash so unchanged files are never sent twice. Files missing
+ * from the result (no usable interpreter, syntax errors) should be parsed with
+ * the regex parser instead.
+ */
+export class AstDiscoveryBackend {
+    private cache = new Map<string, { hash: string; module: AstModule }>();
+    private unavailableInterpreter: string | null = null;
+
+    constructor(private workspaceRoot: string) { }
+
+    /**
+     * Parse several files at once.
+     * Returns results per file path; files that could not be parsed are omitted.
+     */
+    public async parseFiles(files: { path: string; source: string }[]): Promise<Map<string, AstModule>> {
+        const results = new Map<string, AstModule>();
+        const pending: { path: string; source: string; hash: string }[] = [];
+
+        for (const file of files) {
+            const hash = crypto.createHash('sha1').update(file.source).digest('hex');
+            const cached = this.cache.get(file.path);
+            if (cached && cached.hash === hash) {
+                results.set(file.path, cached.module);
+            } else {
+                pending.push({ ...file, hash });
+            }
+        }
+
+        if (pending.length === 0) {
+            return results;
+        }
+
+        const output = await this.runHelper(pending.map(file => ({ path: file.path, source: file.source })));
+        if (!output) {
+            return results;
+        }
+
+        for (const file of pending) {
+            const result = output[file.path];
+            if (result?.classes) {
+                const module: AstModule = {
+                    classes: result.classes,
+                    functions: result.functions || [],
+                    imports: result.imports || {},
+                    star_imports: result.star_imports,
+                    doctests: result.doctests,
+                    doctest_suites: result.doctest_suites
+                };
+                this.cache.set(file.path, { hash: file.hash, module });
+                results.set(file.path, module);
+            } else if (result?.error) {
+                console.warn(`AST discovery failed for ${file.path}: ${result.error}`);
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Forget cached results for a file
+     */
+    public invalidate(filePath: string): void {
+        this.cache.delete(filePath);
+    }
+
+    private async runHelper(files: { path: string; source: string }[]): Promise<{ [path: string]: AstFileResult } | undefined> {
+        const helpersPath = getPythonHelpersPath();
+        if (!helpersPath) {
+            return undefined;
+        }
+
+        const pythonPath = getPythonInterpreter(this.workspaceRoot);
+        if (this.unavailableInterpreter === pythonPath) {
+            return undefined;
+        }
+
+        return new Promise((resolve) => {
+            const child = cp.spawn(pythonPath, [path.join(helpersPath, DISCOVERY_SCRIPT)], {
+                cwd: this.workspaceRoot,
+                timeout: DISCOVERY_TIMEOUT_MS
+            });
+
+            let stdout = '';
+            let stderr = '';
+            child.stdout.on('data', (data: Buffer) => stdout += data.toString());
+            child.stderr.on('data', (data: Buffer) => stderr += data.toString());
+
+            child.on('error', (err) => {
+                console.warn(`AST discovery unavailable (${pythonPath}): ${err.message}`);
+                this.unavailableInterpreter = pythonPath;
+                resolve(undefined);
+            });
+
+            child.on('close', (code) => {
+                if (code !== 0) {
+                    console.warn(`AST discovery helper exited with code ${code}: ${stderr}`);
+                    resolve(undefined);
+                    return;
+                }
+                try {
+                    resolve(JSON.parse(stdout).results);
+                } catch (e) {
+                    console.warn('Invalid AST discovery output:', e);
+                    resolve(undefined);
+                }
+            });
+
+            child.stdin.on('error', () => { /* reported through 'error'/'close' */ });
+            child.stdin.end(JSON.stringify({ files }));
+        });
+    }
+}
@@ -0,0 +1,345 @@
+import * as vscode from 'vscode';
+import { isTestClass } from './testUtils';
+
+/**
+ * A test method defined directly in a class body
+ */
+export interface MethodInfo {
+    name: string;
+    range: vscode.Range;
+    /** pytest parametrize case ids, e.g. ["1-2", "3-4"] */
+    cases?: string[];
+    /** Names given to Django's @tag decorator */
+    tags?: string[];
+    /** Library generating the real test methods from this one at import time */
+    generator?: TestGenerator;
+}
+
+/**
+ * Decorator libraries that replace a method with generated test methods,
+ * e.g. `test_price` with `test_price_0_zero` and `test_price_1_one`
+ */
+export type TestGenerator = 'parameterized' | 'ddt';
+
+/**
+ * A method of a class that does not run as the test it looks like
+ */
+export interface MethodProblem {
+    /**
+     * `misnamed`: named like a test but without the test method prefix, e.g. tests_foo;
+     * `redefined`: replaced by a later method of the same name in the class body
+     */
+    kind: 'misnamed' | 'redefined';
+    className: string;
+    name: string;
+    /** Range of the method name in its def line */
+    range: vscode.Range;
+    /** Name the quick fix renames the method to */
+    rename: string;
+    /** Line of the later definition replacing a redefined method */
+    redefinedAt?: number;
+}
+
+/**
+ * A module-level class with its base class expressions as written in source
+ */
+export interface ClassInfo {
+    name: string;
+    range: vscode.Range;
+    bases: string[];
+    methods: MethodInfo[];
+    /** Names given to Django's @tag decorator */
+    tags?: string[];
+}
+
+/**
+ * A docstring with doctest examples
+ */
+export interface DoctestInfo {
+    /** Name doctest gives it relative to the module, e.g. "Money.total"; empty for the module docstring */
+    name: string;
+    range: vscode.Range;
+}
+
+/**
+ * Classes and imports of one Python module
+ */
+export interface ModuleInfo {
+    /** Importable dotted module name, e.g. app.tests.base */
+    module: string;
+    isPackage: boolean;
+    uri: vscode.Uri;
+    classes: ClassInfo[];
+    /** Module-level test functions (collected by pytest only) */
+    functions: MethodInfo[];
+    /** Local name -> imported dotted name; relative imports keep their leading dots */
+    imports: { [alias: string]: string };
+    /** Modules imported with `from module import *`, as written */
+    starImports?: string[];
+    doctests?: DoctestInfo[];
+    /** Modules passed to doctest.DocTestSuite by the module's load_tests hook, as written */
+    doctestSuites?: string[];
+    /** Methods that look like tests but do not run as written */
+    methodProblems?: MethodProblem[];
+}
+
+/**
+ * A class resolved within the index
+ */
+export interface IndexedClass {
+    info: ClassInfo;
+    module: ModuleInfo;
+}
+
+/**
+ * A test method of a class, possibly inherited from a base class or mixin
+ */
+export interface ResolvedMethod {
+    method: MethodInfo;
+    owner: IndexedClass;
+}
+
+/**
+ * Project-wide index of Python classes used to resolve test class inheritance
+ * across files, e.g. `class OrderTests(BaseApiCase)` where `BaseApiCase`
+ * subclasses `APITestCase` in another module.
+ */
+export class ClassHierarchyIndex {
+    private modules = new Map<string, ModuleInfo>();
+    private byQualifiedName = new Map<string, IndexedClass>();
+    private byName = new Map<string, IndexedClass[]>();
+    private modulesByName = new Map<string, ModuleInfo>();
+    private testClassCache = new Map<string, boolean>();
+    private dirty = false;
+
+    /**
+     * Add or replace the classes of a module (keyed by file path)
+     */
+    public setModule(info: ModuleInfo): void {
+        this.modules.set(info.uri.fsPath, info);
+        this.dirty = true;
+    }
+
+    public removeModule(fsPath: string): void {
+        if (this.modules.delete(fsPath)) {
+            this.dirty = true;
+        }
+    }
+
+    public clear(): void {
+        this.modules.clear();
+        this.dirty = true;
+    }
+
+    public getModule(fsPath: string): ModuleInfo | undefined {
+        return this.modules.get(fsPath);
+    }
+
+    public getModulePaths(): string[] {
+        return Array.from(this.modules.keys());
+    }
+
+    /**
+     * Dotted names of the modules the base classes of a module may come from:
+     * the modules they are imported from, star-imported modules and, for a
+     * package, the modules it re-exports names from
+     */
+    public getBaseModules(module: ModuleInfo): string[] {
+        const names = new Set<string>();
+        for (const starImport of module.starImports || []) {
+            names.add(this.resolveRelative(module, starImport));
+        }
+        if (module.isPackage) {
+            for (const imported of Object.values(module.imports)) {
+                // The name is a class of a module or a submodule
+                const target = this.resolveRelative(module, imported);
+                names.add(target);
+                names.add(target.substring(0, target.lastIndexOf('.')));
+            }
+        }
+        for (const cls of module.classes) {
+            for (const base of cls.bases) {
+                const [first, ...rest] = base.split('.');
+                const imported = module.imports[first];
+                if (!imported) continue;
+                const target = [this.resolveRelative(module, imported), ...rest].join('.');
+                const targetModule = target.substring(0, target.lastIndexOf('.'));
+                if (targetModule) {
+                    names.add(targetModule);
+                }
+            }
+        }
+        return Array.from(names);
+    }
+
+    public getModuleByName(name: string): ModuleInfo | undefined {
+        this.ensureIndexed();
+        return this.modulesByName.get(name);
+    }
+
+    /**
+     * Dotted names of the modules whose doctests the load_tests hook of a module adds
+     */
+    public getDoctestModules(module: ModuleInfo): string[] {
+        return (module.doctestSuites || []).map(name => {
+            const [first, ...rest] = name.split('.');
+            const imported = module.imports[first];
+            return imported ? [this.resolveRelative(module, imported), ...rest].join('.') : name;
+        });
+    }
+
+    /**
+     * Whether a class is a test class, directly or through any of its bases
+     */
+    public isTestClass(cls: IndexedClass): boolean {
+        this.ensureIndexed();
+        return this.checkTestClass(cls, new Set());
+    }
+
+    /**
+     * Test methods of a class including inherited ones, in MRO-like order
+     * (own methods first, then bases depth-first from left to right)
+     */
+    public getTestMethods(cls: IndexedClass): ResolvedMethod[] {
+        this.ensureIndexed();
+        const methods: ResolvedMethod[] = [];
+        const seenNames = new Set<string>();
+        const visited = new Set<string>();
+
+        const collect = (current: IndexedClass) => {
+            const key = this.qualifiedName(current);
+            if (visited.has(key)) return;
+            visited.add(key);
+
+            for (const method of current.info.methods) {
+                if (!seenNames.has(method.name)) {
+                    seenNames.add(method.name);
+                    methods.push({ method, owner: current });
+                }
+            }
+            for (const base of current.info.bases) {
+                const resolved = this.resolveBase(current.module, base);
+                if (resolved) {
+                    collect(resolved);
+                }
+            }
+        };
+
+        collect(cls);
+        return methods;
+    }
+
+    /**
+     * Django tags of a class: its own and those inherited from its bases,
+     * since @tag stores them in a class attribute
+     */
+    public getClassTags(cls: IndexedClass): string[] {
+        this.ensureIndexed();
+        const tags = new Set<string>();
+        const visited = new Set<string>();
+
+        const collect = (current: IndexedClass) => {
+            const key = this.qualifiedName(current);
+            if (visited.has(key)) return;
+            visited.add(key);
+
+            current.info.tags?.forEach(tag => tags.add(tag));
+            for (const base of current.info.bases) {
+                const resolved = this.resolveBase(current.module, base);
+                if (resolved) {
+                    collect(resolved);
+                }
+            }
+        };
+
+        collect(cls);
+        return Array.from(tags);
+    }
+
+    /**
+     * Resolve a base class expression used in a module to an indexed class
+     */
+    public resolveBase(module: ModuleInfo, base: string): IndexedClass | undefined {
+        this.ensureIndexed();
+        const [first, ...rest] = base.split('.');
+        const imported = module.imports[first];
+        const target = imported
+            ? [this.resolveRelative(module, imported), ...rest].join('.')
+            : (rest.length === 0 ? `${module.module}.${base}` : base);
+
+        const found = this.byQualifiedName.get(target);
+        if (found) return found;
+
+        // Classes imported from outside the project (django.test, rest_framework...)
+        const targetModule = target.substring(0, target.lastIndexOf('.'));
+        if (imported && !this.modulesByName.has(targetModule) && !this.modulesByName.has(target)) {
+            return undefined;
+        }
+
+        // Star imports, re-exports and path mismatches: fall back to a unique class name
+        const candidates = this.byName.get(target.substring(target.lastIndexOf('.') + 1));
+        return candidates && candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    private checkTestClass(cls: IndexedClass, visiting: Set<string>): boolean {
+        const key = this.qualifiedName(cls);
+        const cached = this.testClassCache.get(key);
+        if (cached !== undefined) return cached;
+        if (visiting.has(key)) return false;
+        visiting.add(key);
+
+        let result = isTestClass(cls.info.name, cls.info.bases);
+        if (!result) {
+            for (const base of cls.info.bases) {
+                const resolved = this.resolveBase(cls.module, base);
+                if (resolved && this.checkTestClass(resolved, visiting)) {
+                    result = true;
+                    break;
+                }
+            }
+        }
+
+        visiting.delete(key);
+        this.testClassCache.set(key, result);
+        return result;
+    }
+
+    private resolveRelative(module: ModuleInfo, name: string): string {
+        const match = /^(\.+)(.*)$/.exec(name);
+        if (!match) return name;
+
+        const packageParts = module.module.split('.');
+        // A module's package is its parent; a package is its own
+        let drop = match[1].length - (module.isPackage ? 1 : 0);
+        while (drop-- > 0) packageParts.pop();
+        return match[2] ? [...packageParts, match[2]].join('.') : packageParts.join('.');
+    }
+
+    private qualifiedName(cls: IndexedClass): string {
+        return `${cls.module.module}.${cls.info.name}`;
+    }
+
+    private ensureIndexed(): void {
+        if (!this.dirty) return;
+        this.dirty = false;
+
+        this.byQualifiedName.clear();
+        this.byName.clear();
+        this.modulesByName.clear();
+        this.testClassCache.clear();
+
+        for (const module of this.modules.values()) {
+            this.modulesByName.set(module.module, module);
+            for (const info of module.classes) {
+                const indexed = { info, module };
+                this.byQualifiedName.set(`${module.module}.${info.name}`, indexed);
+                const sameName = this.byName.get(info.name);
+                if (sameName) {
+                    sameName.push(indexed);
+                } else {
+                    this.byName.set(info.name, [indexed]);
+                }
+            }
+        }
+    }
+}
@@ -1,14 +1,31 @@
 import * as vscode from 'vscode';
+import { getActiveProfile, getConfiguration, getConfigurationTarget, getProjectLabel, getTestProfiles, TestProfileOptions, TestProfileSetting } from './testUtils';
+
+/**
+ * A test profile as edited in the panel, every field as typed
+ */
+interface ProfileFields {
+    name: string;
+    arguments: string;
+    settingsModule: string;
+    pythonPath: string;
+    envFile: string;
+    environmentVariables: string;
+    preRunCommands: string;
+}
 
 export class ConfigurationPanel {
     public static currentPanel: ConfigurationPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
+    // Project whose settings are shown
+    private _workspaceRoot: string;
     private _disposables: vscode.Disposable[] = [];
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, workspaceRoot: string) {
         this._panel = panel;
         this._extensionUri = extensionUri;
+        this._workspaceRoot = workspaceRoot;
 
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
@@ -28,19 +45,26 @@ export class ConfigurationPanel {
         );
     }
 
-    public static createOrShow(extensionUri: vscode.Uri) {
+    public static createOrShow(extensionUri: vscode.Uri, workspaceRoot: string) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
 
-        if (ConfigurationPanel.currentPanel) {
-            ConfigurationPanel.currentPanel._panel.reveal(column);
+        const currentPanel = ConfigurationPanel.currentPanel;
+        if (currentPanel) {
+            // The panel shows one project at a time
+            if (currentPanel._workspaceRoot !== workspaceRoot) {
+                currentPanel._workspaceRoot = workspaceRoot;
+                currentPanel._panel.title = ConfigurationPanel._getTitle(workspaceRoot);
+                currentPanel._panel.webview.html = currentPanel._getHtmlForWebview(currentPanel._panel.webview);
+            }
+            currentPanel._panel.reveal(column);
             return;
         }
 
         const panel = vscode.window.createWebviewPanel(
             'djangoTestManagerConfig',
-            'Django Test Configuration',
+            ConfigurationPanel._getTitle(workspaceRoot),
             column || vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -48,7 +72,12 @@ export class ConfigurationPanel {
             }
         );
 
-        ConfigurationPanel.currentPanel = new ConfigurationPanel(panel, extensionUri);
+        ConfigurationPanel.currentPanel = new ConfigurationPanel(panel, extensionUri, workspaceRoot);
+    }
+
+    private static _getTitle(workspaceRoot: string): string {
+        const label = getProjectLabel(workspaceRoot);
+        return label ? `Django Test Configuration (${label})` : 'Django Test Configuration';
     }
 
     public dispose() {
@@ -65,30 +94,67 @@ export class ConfigurationPanel {
     }
 
     private async _saveSettings(settings: any) {
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
-        await config.update('pythonPath', settings.pythonPath, vscode.ConfigurationTarget.Workspace);
-        await config.update('managePyPath', settings.managePyPath, vscode.ConfigurationTarget.Workspace);
-        await config.update('testCommandTemplate', settings.testCommandTemplate, vscode.ConfigurationTarget.Workspace);
-        await config.update('testFilePattern', settings.testFilePattern, vscode.ConfigurationTarget.Workspace);
-        await config.update('testMethodPattern', settings.testMethodPattern, vscode.ConfigurationTarget.Workspace);
+        // Written where the project's commands write, so the runner sees the same values
+        const config = getConfiguration(this._workspaceRoot);
+        const target = getConfigurationTarget();
+        await config.update('pythonPath', settings.pythonPath, target);
+        await config.update('managePyPath', settings.managePyPath, target);
+        await config.update('testCommandTemplate', settings.testCommandTemplate, target);
+        await config.update('testFilePattern', settings.testFilePattern, target);
+        await config.update('testMethodPattern', settings.testMethodPattern, target);
 
         // Handle array splitting for arguments
         const args = settings.testArguments.split(' ').filter((a: string) => a.length > 0);
-        await config.update('testArguments', args, vscode.ConfigurationTarget.Workspace);
+        await config.update('testArguments', args, target);
 
-        // Handle env vars parsing (key=value\nkey2=value2)
+        await config.update('environmentVariables', this._parseEnvironmentVariables(settings.environmentVariables), target);
+
+        const profiles: { [name: string]: TestProfileSetting } = {};
+        for (const fields of settings.profiles as ProfileFields[]) {
+            profiles[fields.name] = this._toProfileSetting(fields);
+        }
+        await config.update('testProfiles', profiles, target);
+        if (settings.activeProfile !== getActiveProfile(this._workspaceRoot).name) {
+            // As with Select Profile, the new profile's settings module applies
+            await config.update('activeSettingsModule', undefined, target);
+        }
+        await config.update('activeProfile', settings.activeProfile, target);
+    }
+
+    /**
+     * Parse `KEY=value` lines
+     */
+    private _parseEnvironmentVariables(text: string): { [key: string]: string } {
         const envVars: { [key: string]: string } = {};
-        settings.environmentVariables.split('\n').forEach((line: string) => {
+        text.split('\n').forEach((line: string) => {
             const [key, ...valParts] = line.split('=');
             if (key && valParts.length > 0) {
                 envVars[key.trim()] = valParts.join('=').trim();
             }
         });
-        await config.update('environmentVariables', envVars, vscode.ConfigurationTarget.Workspace);
+        return envVars;
+    }
+
+    /**
+     * The setting of an edited profile, leaving out empty fields; a profile
+     * of just arguments keeps the short list form
+     */
+    private _toProfileSetting(fields: ProfileFields): TestProfileSetting {
+        const args = fields.arguments.split(' ').filter(a => a.length > 0);
+        const environmentVariables = this._parseEnvironmentVariables(fields.environmentVariables);
+        const preRunCommands = fields.preRunCommands.split('\n').map(c => c.trim()).filter(c => c.length > 0);
+        const profile: TestProfileOptions = {};
+        if (args.length > 0) profile.arguments = args;
+        if (fields.settingsModule.trim()) profile.settingsModule = fields.settingsModule.trim();
+        if (Object.keys(environmentVariables).length > 0) profile.environmentVariables = environmentVariables;
+        if (fields.envFile.trim()) profile.envFile = fields.envFile.trim();
+        if (fields.pythonPath.trim()) profile.pythonPath = fields.pythonPath.trim();
+        if (preRunCommands.length > 0) profile.preRunCommands = preRunCommands;
+        return Object.keys(profile).every(key => key === 'arguments') ? args : profile;
     }
 
     private _getHtmlForWebview(webview: vscode.Webview) {
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this._workspaceRoot);
 
         const pythonPath = config.get<string>('pythonPath') || 'python3';
         const managePyPath = config.get<string>('managePyPath') || 'manage.py';
@@ -102,6 +168,22 @@ export class ConfigurationPanel {
             .map(([k, v]) => `${k}=${v}`)
             .join('\n');
 
+        const profiles: ProfileFields[] = getTestProfiles(this._workspaceRoot).map(profile => ({
+            name: profile.name,
+            arguments: profile.arguments.join(' '),
+            settingsModule: profile.settingsModule || '',
+            pythonPath: profile.pythonPath || '',
+            envFile: profile.envFile || '',
+            environmentVariables: Object.entries(profile.environmentVariables || {})
+                .map(([k, v]) => `${k}=${v}`)
+                .join('\n'),
+            preRunCommands: (profile.preRunCommands || []).join('\n')
+        }));
+        const activeProfile = getActiveProfile(this._workspaceRoot).name;
+        if (!profiles.some(profile => profile.name === activeProfile)) {
+            profiles.unshift({ name: activeProfile, arguments: '', settingsModule: '', pythonPath: '', envFile: '', environmentVariables: '', preRunCommands: '' });
+        }
+
         const iconUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'icon.svg'));
 
         return `<!DOCTYPE html>
@@ -180,7 +262,7 @@ export class ConfigurationPanel {
                     font-weight: 500;
                 }
 
-                input[type="text"], textarea {
+                input[type="text"], textarea, select {
                     width: 100%;
                     padding: 8px 10px;
                     background-color: var(--vscode-input-background);
@@ -193,7 +275,7 @@ export class ConfigurationPanel {
                     transition: border-color 0.1s ease;
                 }
 
-                input[type="text"]:focus, textarea:focus {
+                input[type="text"]:focus, textarea:focus, select:focus {
                     outline: none;
                     border-color: var(--focus-border);
                 }
@@ -225,6 +307,21 @@ export class ConfigurationPanel {
                 button:hover {
                     background-color: var(--vscode-button-hoverBackground);
                 }
+
+                button.secondary {
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    white-space: nowrap;
+                }
+
+                button.secondary:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                .inline {
+                    display: flex;
+                    gap: 8px;
+                }
                 
                 code {
                     font-family: var(--vscode-editor-font-family);
@@ -295,6 +392,61 @@ export class ConfigurationPanel {
                     </div>
                 </div>
 
+                <div class="section">
+                    <div class="section-title">Test Profiles</div>
+                    <div class="form-group">
+                        <label for="profileSelect">Profile</label>
+                        <div class="inline">
+                            <select id="profileSelect"></select>
+                            <button id="removeProfileBtn" class="secondary">Remove</button>
+                        </div>
+                        <div class="help-text">The selected profile is the active one once saved.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <div class="inline">
+                            <input type="text" id="newProfileName" placeholder="New profile name">
+                            <button id="addProfileBtn" class="secondary">Add Profile</button>
+                        </div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profileArguments">Arguments</label>
+                        <input type="text" id="profileArguments" placeholder="e.g. --keepdb --parallel">
+                        <div class="help-text">Passed to the test command before the additional arguments.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profileSettingsModule">Settings Module</label>
+                        <input type="text" id="profileSettingsModule" placeholder="e.g. config.settings.test">
+                        <div class="help-text"><code>DJANGO_SETTINGS_MODULE</code> of the runs.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profilePythonPath">Python Path</label>
+                        <input type="text" id="profilePythonPath" placeholder="e.g. .venv-py312/bin/python">
+                        <div class="help-text">Interpreter used instead of the one above.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profileEnvFile">Env File</label>
+                        <input type="text" id="profileEnvFile" placeholder="e.g. .env.test">
+                        <div class="help-text">Read after the project's <code>.env</code> file.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profileEnvironmentVariables">Environment Variables</label>
+                        <textarea id="profileEnvironmentVariables" rows="3" placeholder="KEY=VALUE"></textarea>
+                        <div class="help-text">One variable per line, set over the variables above.</div>
+                    </div>
+
+                    <div class="form-group">
+                        <label for="profilePreRunCommands">Pre-run Commands</label>
+                        <textarea id="profilePreRunCommands" rows="3" placeholder="docker compose up -d db"></textarea>
+                        <div class="help-text">One shell command per line, run before the tests. Tests are not run when one fails.</div>
+                    </div>
+                </div>
+
                 <div class="actions">
                     <button id="saveBtn">Save Changes</button>
                 </div>
@@ -302,8 +454,65 @@ export class ConfigurationPanel {
 
             <script>
                 const vscode = acquireVsCodeApi();
-                
+
+                const profiles = ${JSON.stringify(profiles).replace(/</g, '\\u003c')};
+                const profileFields = {
+                    arguments: 'profileArguments',
+                    settingsModule: 'profileSettingsModule',
+                    pythonPath: 'profilePythonPath',
+                    envFile: 'profileEnvFile',
+                    environmentVariables: 'profileEnvironmentVariables',
+                    preRunCommands: 'profilePreRunCommands'
+                };
+                const profileSelect = document.getElementById('profileSelect');
+                let currentProfile;
+
+                function storeProfile() {
+                    if (!currentProfile) return;
+                    for (const [field, id] of Object.entries(profileFields)) {
+                        currentProfile[field] = document.getElementById(id).value;
+                    }
+                }
+
+                function showProfile(name) {
+                    storeProfile();
+                    profileSelect.innerHTML = '';
+                    for (const profile of profiles) {
+                        profileSelect.add(new Option(profile.name, profile.name, false, profile.name === name));
+                    }
+                    currentProfile = profiles.find(profile => profile.name === name);
+                    for (const [field, id] of Object.entries(profileFields)) {
+                        document.getElementById(id).value = currentProfile ? currentProfile[field] : '';
+                        document.getElementById(id).disabled = !currentProfile;
+                    }
+                    document.getElementById('removeProfileBtn').disabled = !currentProfile;
+                }
+
+                profileSelect.addEventListener('change', () => showProfile(profileSelect.value));
+
+                document.getElementById('addProfileBtn').addEventListener('click', () => {
+                    const input = document.getElementById('newProfileName');
+                    const name = input.value.trim();
+                    if (!name) return;
+                    if (!profiles.some(profile => profile.name === name)) {
+                        profiles.push({ name, arguments: '', settingsModule: '', pythonPath: '', envFile: '', environmentVariables: '', preRunCommands: '' });
+                    }
+                    input.value = '';
+                    showProfile(name);
+                });
+
+                document.getElementById('removeProfileBtn').addEventListener('click', () => {
+                    const index = profiles.indexOf(currentProfile);
+                    if (index < 0) return;
+                    profiles.splice(index, 1);
+                    currentProfile = undefined;
+                    showProfile(profiles.length > 0 ? profiles[Math.max(0, index - 1)].name : undefined);
+                });
+
+                showProfile(${JSON.stringify(activeProfile).replace(/</g, '\\u003c')});
+
                 document.getElementById('saveBtn').addEventListener('click', () => {
+                    storeProfile();
                     const settings = {
                         pythonPath: document.getElementById('pythonPath').value,
                         managePyPath: document.getElementById('managePyPath').value,
@@ -311,7 +520,9 @@ export class ConfigurationPanel {
                         testArguments: document.getElementById('testArguments').value,
                         testFilePattern: document.getElementById('testFilePattern').value,
                         testMethodPattern: document.getElementById('testMethodPattern').value,
-                        environmentVariables: document.getElementById('environmentVariables').value
+                        environmentVariables: document.getElementById('environmentVariables').value,
+                        profiles: profiles,
+                        activeProfile: currentProfile ? currentProfile.name : 'Default'
                     };
                     
                     vscode.postMessage({
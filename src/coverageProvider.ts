@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getConfiguration } from './testUtils';
+import { toLocalPath } from './executionWrapper';
 
 export class CoverageProvider {
     private coveredDecorationType: vscode.TextEditorDecorationType;
@@ -78,7 +80,10 @@ export class CoverageProvider {
             if (endIndex === -1) continue;
 
             const classBlock = xml.substring(startIndex, endIndex);
-            const absolutePath = path.join(this.workspaceRoot, filename);
+            // Absolute paths are those of a wrapped command (see executionWrapper)
+            const absolutePath = path.isAbsolute(filename)
+                ? toLocalPath(this.workspaceRoot, filename)
+                : path.join(this.workspaceRoot, filename);
 
             const fileCoverage = new Map<number, boolean>();
 
@@ -94,7 +99,7 @@ export class CoverageProvider {
     }
 
     public updateDecorations(editor: vscode.TextEditor) {
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this.workspaceRoot);
         const enabled = config.get<boolean>('enableCoverage') || false;
 
         if (!enabled) {
@@ -159,4 +164,9 @@ export class CoverageProvider {
             editor.setDecorations(this.uncoveredDecorationType, []);
         });
     }
+
+    public dispose() {
+        this.coveredDecorationType.dispose();
+        this.uncoveredDecorationType.dispose();
+    }
 }
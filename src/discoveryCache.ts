@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ClassInfo, MethodInfo, MethodProblem, ModuleInfo, TestGenerator } from './classHierarchy';
+
+/**
+ * Bumped whenever the stored format or the parsers' output changes
+ */
+const CACHE_FORMAT = 6;
+const CACHE_FILE = 'discovery-cache.json';
+const SAVE_DELAY_MS = 2000;
+
+type StoredRange = [number, number, number, number];
+
+interface StoredMethod {
+    name: string;
+    range: StoredRange;
+    cases?: string[];
+    tags?: string[];
+    generator?: TestGenerator;
+}
+
+interface StoredClass {
+    name: string;
+    range: StoredRange;
+    bases: string[];
+    methods: StoredMethod[];
+    tags?: string[];
+}
+
+interface StoredModule {
+    module: string;
+    isPackage: boolean;
+    classes: StoredClass[];
+    functions: StoredMethod[];
+    imports: { [alias: string]: string };
+    starImports?: string[];
+    doctests?: { name: string; range: StoredRange }[];
+    doctestSuites?: string[];
+    methodProblems?: StoredMethodProblem[];
+}
+
+type StoredMethodProblem = Omit<MethodProblem, 'range'> & { range: StoredRange };
+
+/**
+ * A parsed file as stored in the cache
+ */
+export interface CacheEntry {
+    mtime: number;
+    size: number;
+    /** sha1 of the file content */
+    hash: string;
+    module: StoredModule;
+}
+
+interface CacheFile {
+    format: number;
+    /** Settings the parsed results depend on (method prefix, discovery backend) */
+    key: string;
+    /** Files that matched the test file pattern */
+    testFiles: string[];
+    entries: { [fsPath: string]: CacheEntry };
+    /** Test ids seen at runtime for each parameterized/ddt decorated method */
+    generated?: { [testId: string]: string[] };
+}
+
+export function hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Parsed modules persisted in the extension's workspace storage, so discovery
+ * only reparses files whose mtime, size and content hash changed since the
+ * last session.
+ */
+export class DiscoveryCache implements vscode.Disposable {
+    private entries = new Map<string, CacheEntry>();
+    private testFiles: string[] = [];
+    private generated = new Map<string, string[]>();
+    private key = '';
+    private saveTimer: NodeJS.Timeout | undefined;
+
+    constructor(private storageUri: vscode.Uri | undefined) { }
+
+    /**
+     * Whether caching is enabled in configuration and storage is available
+     */
+    public get isEnabled(): boolean {
+        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        return !!this.storageUri && (config.get<boolean>('discoveryCache') ?? true);
+    }
+
+    /**
+     * Read the cache from disk. Entries stored for other settings are dropped.
+     * Returns true if any entries were loaded.
+     */
+    public async load(key: string): Promise<boolean> {
+        this.key = key;
+        this.entries.clear();
+        this.testFiles = [];
+        this.generated.clear();
+        if (!this.isEnabled) {
+            return false;
+        }
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri!, CACHE_FILE));
+            const stored = JSON.parse(data.toString()) as CacheFile;
+            if (stored.format === CACHE_FORMAT && stored.key === key) {
+                this.entries = new Map(Object.entries(stored.entries));
+                this.testFiles = stored.testFiles;
+                this.generated = new Map(Object.entries(stored.generated || {}));
+            }
+        } catch {
+            // No cache yet or unreadable: start empty
+        }
+        return this.entries.size > 0;
+    }
+
+    /**
+     * Forget all entries if the settings the parsed results depend on changed
+     */
+    public setKey(key: string): void {
+        if (key !== this.key) {
+            this.key = key;
+            this.entries.clear();
+            this.testFiles = [];
+            this.generated.clear();
+            this.scheduleSave();
+        }
+    }
+
+    public getEntries(): ReadonlyMap<string, CacheEntry> {
+        return this.entries;
+    }
+
+    public getTestFiles(): readonly string[] {
+        return this.testFiles;
+    }
+
+    public setTestFiles(fsPaths: string[]): void {
+        this.testFiles = fsPaths;
+        this.scheduleSave();
+    }
+
+    public getGenerated(): ReadonlyMap<string, string[]> {
+        return this.generated;
+    }
+
+    /**
+     * Remember the names generated from a decorated method, by its test id
+     */
+    public setGenerated(testId: string, names: string[]): void {
+        this.generated.set(testId, names);
+        this.scheduleSave();
+    }
+
+    public get(fsPath: string): CacheEntry | undefined {
+        return this.entries.get(fsPath);
+    }
+
+    public set(fsPath: string, stat: { mtime: number; size: number }, hash: string, module: ModuleInfo): void {
+        this.entries.set(fsPath, { mtime: stat.mtime, size: stat.size, hash, module: toStored(module) });
+        this.scheduleSave();
+    }
+
+    /**
+     * Record a new mtime for a file whose content did not change
+     */
+    public touch(fsPath: string, stat: { mtime: number; size: number }): void {
+        const entry = this.entries.get(fsPath);
+        if (entry) {
+            entry.mtime = stat.mtime;
+            entry.size = stat.size;
+            this.scheduleSave();
+        }
+    }
+
+    public delete(fsPath: string): void {
+        if (this.entries.delete(fsPath)) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Drop entries of files that no longer exist
+     */
+    public retain(fsPaths: Set<string>): void {
+        for (const fsPath of Array.from(this.entries.keys())) {
+            if (!fsPaths.has(fsPath)) {
+                this.delete(fsPath);
+            }
+        }
+    }
+
+    /**
+     * Restore a module for the class hierarchy index
+     */
+    public toModuleInfo(fsPath: string, entry: CacheEntry): ModuleInfo {
+        const stored = entry.module;
+        return {
+            module: stored.module,
+            isPackage: stored.isPackage,
+            uri: vscode.Uri.file(fsPath),
+            classes: stored.classes.map(cls => ({
+                name: cls.name,
+                range: toRange(cls.range),
+                bases: cls.bases,
+                methods: cls.methods.map(fromStoredMethod),
+                tags: cls.tags
+            })),
+            functions: stored.functions.map(fromStoredMethod),
+            imports: stored.imports,
+            starImports: stored.starImports,
+            doctests: stored.doctests?.map(doctest => ({ name: doctest.name, range: toRange(doctest.range) })),
+            doctestSuites: stored.doctestSuites,
+            methodProblems: stored.methodProblems?.map(problem => ({ ...problem, range: toRange(problem.range) }))
+        };
+    }
+
+    private scheduleSave(): void {
+        if (!this.isEnabled || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save().catch(e => console.error('Could not save discovery cache:', e));
+        }, SAVE_DELAY_MS);
+    }
+
+    public async save(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+        const data: CacheFile = {
+            format: CACHE_FORMAT,
+            key: this.key,
+            testFiles: this.testFiles,
+            entries: Object.fromEntries(this.entries),
+            generated: Object.fromEntries(this.generated)
+        };
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.storageUri, CACHE_FILE), Buffer.from(JSON.stringify(data)));
+    }
+
+    public dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.save().catch(e => console.error('Could not save discovery cache:', e));
+        }
+    }
+}
+
+function toStored(module: ModuleInfo): StoredModule {
+    return {
+        module: module.module,
+        isPackage: module.isPackage,
+        classes: module.classes.map((cls: ClassInfo) => ({
+            name: cls.name,
+            range: fromRange(cls.range),
+            bases: cls.bases,
+            methods: cls.methods.map(toStoredMethod),
+            tags: cls.tags
+        })),
+        functions: module.functions.map(toStoredMethod),
+        imports: module.imports,
+        starImports: module.starImports,
+        doctests: module.doctests?.map(doctest => ({ name: doctest.name, range: fromRange(doctest.range) })),
+        doctestSuites: module.doctestSuites,
+        methodProblems: module.methodProblems?.map(problem => ({ ...problem, range: fromRange(problem.range) }))
+    };
+}
+
+function toStoredMethod(method: MethodInfo): StoredMethod {
+    return { name: method.name, range: fromRange(method.range), cases: method.cases, tags: method.tags, generator: method.generator };
+}
+
+function fromStoredMethod(method: StoredMethod): MethodInfo {
+    return { name: method.name, range: toRange(method.range), cases: method.cases, tags: method.tags, generator: method.generator };
+}
+
+function fromRange(range: vscode.Range): StoredRange {
+    return [range.start.line, range.start.character, range.end.line, range.end.character];
+}
+
+function toRange(range: StoredRange): vscode.Range {
+    return new vscode.Range(range[0], range[1], range[2], range[3]);
+}
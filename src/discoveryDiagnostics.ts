@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestDiscovery } from './testDiscovery';
+import { DiscoveryProblem } from './discoveryProblems';
+
+const DIAGNOSTIC_SOURCE = 'Django Test Manager';
+
+/**
+ * Shows the tests the test runner would skip in the Problems panel, with quick
+ * fixes that rename the file or method or create the missing __init__.py files
+ */
+export class DiscoveryDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private collection: vscode.DiagnosticCollection;
+    private problems: DiscoveryProblem[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private workspaceRoot: string, discovery: TestDiscovery) {
+        this.collection = vscode.languages.createDiagnosticCollection('djangoTestManager');
+        this.disposables.push(
+            this.collection,
+            discovery.onDidChangeProblems(problems => this.update(problems))
+        );
+        this.update(discovery.getProblems());
+    }
+
+    private update(problems: DiscoveryProblem[]): void {
+        this.problems = problems;
+        const diagnostics = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const problem of problems) {
+            const diagnostic = new vscode.Diagnostic(problem.range, problem.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = problem.kind;
+
+            const key = problem.uri.toString();
+            if (!diagnostics.has(key)) {
+                diagnostics.set(key, { uri: problem.uri, diagnostics: [] });
+            }
+            diagnostics.get(key)!.diagnostics.push(diagnostic);
+        }
+
+        this.collection.clear();
+        for (const file of diagnostics.values()) {
+            this.collection.set(file.uri, file.diagnostics);
+        }
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+
+            const problem = this.problems.find(p =>
+                p.uri.toString() === document.uri.toString()
+                && p.kind === diagnostic.code
+                && p.message === diagnostic.message
+            );
+            const action = problem && this.createFix(problem, diagnostic);
+            if (action) {
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+
+    private createFix(problem: DiscoveryProblem, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+        const edit = new vscode.WorkspaceEdit();
+        let title: string;
+        switch (problem.kind) {
+            case 'misnamed':
+            case 'redefined':
+                edit.replace(problem.uri, diagnostic.range, problem.rename!);
+                title = `Rename method to ${problem.rename}`;
+                break;
+            case 'filePattern':
+                // No name both matches a custom pattern and keeps the file recognisable
+                if (!problem.rename) return undefined;
+                edit.renameFile(problem.uri, vscode.Uri.file(path.join(path.dirname(problem.uri.fsPath), problem.rename)));
+                title = `Rename file to ${problem.rename}`;
+                break;
+            case 'missingInit': {
+                const directories = problem.directories || [];
+                for (const dir of directories) {
+                    edit.createFile(vscode.Uri.file(path.join(dir, '__init__.py')), { ignoreIfExists: true });
+                }
+                title = directories.length === 1
+                    ? `Create ${path.relative(this.workspaceRoot, directories[0]).replace(/\\/g, '/')}/__init__.py`
+                    : `Create the ${directories.length} missing __init__.py files`;
+                break;
+            }
+        }
+
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = edit;
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MethodProblem } from './classHierarchy';
+
+/**
+ * Something that makes the test runner skip tests (or run tests discovery
+ * does not list), with what its quick fix needs
+ */
+export interface DiscoveryProblem {
+    /**
+     * `filePattern`: a test file Django's runner does not match;
+     * `missingInit`: a test file in a directory that is not a package;
+     * `misnamed` and `redefined`: see MethodProblem
+     */
+    kind: 'filePattern' | 'missingInit' | MethodProblem['kind'];
+    uri: vscode.Uri;
+    range: vscode.Range;
+    message: string;
+    /** New file or method name the quick fix renames to */
+    rename?: string;
+    /** Directories the quick fix creates an __init__.py in */
+    directories?: string[];
+}
+
+// Typos of the test method prefix, e.g. tests_foo, Test_foo or tset_foo
+const NEAR_MISS_REGEX = /^(?:tests?|tset|tets|tst)_/i;
+const CLASS_REGEX = /^class\s+(\w+)/;
+const DEF_REGEX = /^\s+(?:async\s+)?def\s+(\w+)/;
+// Property accessors and overloads define a name again on purpose
+const REDEFINING_DECORATOR_REGEX = /^@(?:\w+\.(?:setter|getter|deleter)|(?:typing\.)?overload)\b/;
+
+interface Definition {
+    name: string;
+    line: number;
+    range: vscode.Range;
+    decorators: string[];
+}
+
+/**
+ * Methods of the module-level classes of a file that look like tests but do
+ * not run as written: test methods missing the prefix (tests_foo, Test_foo)
+ * and test methods a later method of the same name replaces.
+ * Works on the source, so both discovery backends report the same problems.
+ */
+export function findMethodProblems(content: string, methodPrefix: string): MethodProblem[] {
+    if (!content.includes('class ')) {
+        return [];
+    }
+
+    const problems: MethodProblem[] = [];
+    const lines = content.split('\n');
+    let className: string | null = null;
+    let bodyIndent: number | null = null;
+    let definitions: Definition[] = [];
+    let decorators: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trimStart();
+        if (trimmed.length === 0 || trimmed[0] === '#') continue;
+
+        const indent = line.length - trimmed.length;
+        if (indent === 0) {
+            if (className) {
+                problems.push(...checkClass(className, definitions, methodPrefix));
+            }
+            const classMatch = CLASS_REGEX.exec(line);
+            className = classMatch ? classMatch[1] : null;
+            bodyIndent = null;
+            definitions = [];
+            decorators = [];
+            // Base classes may span several lines
+            let depth = countParens(line);
+            while (className && depth > 0 && i + 1 < lines.length) {
+                depth += countParens(lines[++i]);
+            }
+            continue;
+        }
+        if (!className) continue;
+
+        // Only the methods of the class body, not nested functions or classes
+        bodyIndent ??= indent;
+        if (indent !== bodyIndent) continue;
+
+        if (trimmed[0] === '@') {
+            decorators.push(trimmed);
+            continue;
+        }
+        const defMatch = DEF_REGEX.exec(line);
+        if (defMatch) {
+            const name = defMatch[1];
+            const start = line.indexOf(name, line.indexOf('def') + 3);
+            definitions.push({ name, line: i, range: new vscode.Range(i, start, i, start + name.length), decorators });
+        }
+        decorators = [];
+    }
+    if (className) {
+        problems.push(...checkClass(className, definitions, methodPrefix));
+    }
+    return problems;
+}
+
+function checkClass(className: string, definitions: Definition[], methodPrefix: string): MethodProblem[] {
+    const problems: MethodProblem[] = [];
+    const names = new Set(definitions.map(definition => definition.name));
+    const uniqueName = (name: string): string => {
+        let suffix = 2;
+        while (names.has(`${name}_${suffix}`)) suffix++;
+        names.add(`${name}_${suffix}`);
+        return `${name}_${suffix}`;
+    };
+
+    definitions.forEach((definition, index) => {
+        const { name, range } = definition;
+        if (NEAR_MISS_REGEX.test(name) && !name.startsWith(methodPrefix)) {
+            const rename = methodPrefix + name.replace(NEAR_MISS_REGEX, '');
+            problems.push({ kind: 'misnamed', className, name, range, rename: names.has(rename) ? uniqueName(rename) : rename });
+        }
+
+        const later = definitions.slice(index + 1).find(other => other.name === name);
+        if (later && name.startsWith(methodPrefix) && !later.decorators.some(decorator => REDEFINING_DECORATOR_REGEX.test(decorator))) {
+            problems.push({ kind: 'redefined', className, name, range, rename: uniqueName(name), redefinedAt: later.line });
+        }
+    });
+    return problems;
+}
+
+function countParens(line: string): number {
+    let depth = 0;
+    for (const char of line) {
+        if (char === '(') depth++;
+        else if (char === ')') depth--;
+    }
+    return depth;
+}
+
+/**
+ * Describe a method problem for the Problems panel and the test tree
+ */
+export function describeMethodProblem(problem: MethodProblem, methodPrefix: string): string {
+    if (problem.kind === 'redefined') {
+        return `${problem.className}.${problem.name} is defined again on line ${problem.redefinedAt! + 1}, which replaces this definition: it never runs`;
+    }
+    // unittest and pytest run any method starting with "test"
+    return problem.name.startsWith('test')
+        ? `${problem.className}.${problem.name} does not start with '${methodPrefix}' and is not listed as a test`
+        : `${problem.className}.${problem.name} never runs: test methods must start with 'test'`;
+}
+
+/**
+ * File name pattern of the test modules Django's runner discovers, from the
+ * `-p`/`--pattern` test argument or Django's default
+ */
+export function getDjangoTestPattern(args: string[]): string {
+    for (let i = 0; i < args.length; i++) {
+        if ((args[i] === '-p' || args[i] === '--pattern') && i + 1 < args.length) {
+            return args[i + 1];
+        }
+        if (args[i].startsWith('--pattern=')) {
+            return args[i].slice('--pattern='.length);
+        }
+    }
+    return 'test*.py';
+}
+
+/**
+ * Whether a file name matches a shell-style pattern, as unittest's discovery
+ * matches test modules
+ */
+export function matchesTestPattern(fileName: string, pattern: string): boolean {
+    const regex = pattern
+        .replace(/[.+^${}()|\\]/g, '\\$&')
+        .replace(/\[!/g, '[^')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`).test(fileName);
+}
+
+/**
+ * Name for a test file Django's runner does not match, e.g. test_checks.py
+ * for checks_test.py
+ */
+export function suggestTestFileName(fileName: string, pattern: string): string | undefined {
+    const base = path.basename(fileName, '.py').replace(/_?tests?$/i, '') || 'module';
+    const rename = `test_${base}.py`;
+    return matchesTestPattern(rename, pattern) ? rename : undefined;
+}
+
+/**
+ * Directories between the project root and a test file that are not packages.
+ * unittest's discovery only descends into packages, so Django's runner skips
+ * the tests below them. `packages` remembers directories across files.
+ */
+export function findMissingPackages(workspaceRoot: string, fsPath: string, packages: Map<string, boolean>): string[] {
+    const missing: string[] = [];
+    for (let dir = path.dirname(fsPath); dir.startsWith(workspaceRoot) && dir !== workspaceRoot; dir = path.dirname(dir)) {
+        let isPackage = packages.get(dir);
+        if (isPackage === undefined) {
+            isPackage = fs.existsSync(path.join(dir, '__init__.py'));
+            packages.set(dir, isPackage);
+        }
+        if (!isPackage) {
+            missing.unshift(dir);
+        }
+    }
+    return missing;
+}
@@ -0,0 +1,184 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPythonHelpersPath } from './resultChannel';
+import { getConfiguration, getMergedEnvironmentVariables, getPythonInterpreter, resolvePath } from './testUtils';
+import { toLocalPath, wrapCommand } from './executionWrapper';
+
+/**
+ * An installed Django app
+ */
+export interface DjangoApp {
+    /** App label, e.g. billing */
+    label: string;
+    /** Dotted module name, e.g. src.apps.billing */
+    name: string;
+    /** Absolute directory of the app package */
+    path: string;
+}
+
+const APPS_HELPER_MODULE = 'django_test_manager_apps';
+const APPS_MARKER = 'DJANGO_TEST_MANAGER_APPS:';
+const APPS_TIMEOUT_MS = 30000;
+
+/**
+ * Reads the project's INSTALLED_APPS. Django is asked through `manage.py shell`
+ * so app configs, labels and paths are exact; when the project cannot be
+ * loaded (missing dependencies, no interpreter) the settings module is parsed
+ * statically instead.
+ */
+export class DjangoAppResolver {
+    constructor(private workspaceRoot: string) { }
+
+    /**
+     * Installed apps located inside the workspace
+     */
+    public async getApps(): Promise<DjangoApp[]> {
+        const apps = await this.introspect() ?? await this.parseSettings();
+        // django.contrib and third-party apps own no test files of the project
+        return apps.filter(app => {
+            const relativePath = path.relative(this.workspaceRoot, app.path);
+            return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+        });
+    }
+
+    private async introspect(): Promise<DjangoApp[] | undefined> {
+        const helpersPath = getPythonHelpersPath();
+        if (!helpersPath) {
+            return undefined;
+        }
+
+        const env = await getMergedEnvironmentVariables(this.workspaceRoot);
+        env.PYTHONPATH = env.PYTHONPATH ? `${helpersPath}${path.delimiter}${env.PYTHONPATH}` : helpersPath;
+        const code = `import ${APPS_HELPER_MODULE}; ${APPS_HELPER_MODULE}.main()`;
+        const command = wrapCommand(this.workspaceRoot, {
+            cmd: getPythonInterpreter(this.workspaceRoot),
+            args: [this.getManagePyPath(), 'shell', '-c', code],
+            env
+        });
+
+        return new Promise((resolve) => {
+            const child = cp.spawn(command.cmd, command.args, {
+                cwd: this.workspaceRoot,
+                env: command.env,
+                timeout: APPS_TIMEOUT_MS
+            });
+
+            let stdout = '';
+            let stderr = '';
+            child.stdout.on('data', (data: Buffer) => stdout += data.toString());
+            child.stderr.on('data', (data: Buffer) => stderr += data.toString());
+
+            child.on('error', (err) => {
+                console.warn(`Could not ask Django for INSTALLED_APPS: ${err.message}`);
+                resolve(undefined);
+            });
+
+            child.on('close', (exitCode) => {
+                const line = stdout.split(/\r?\n/).find(l => l.startsWith(APPS_MARKER));
+                if (!line) {
+                    console.warn(`Could not ask Django for INSTALLED_APPS (exit code ${exitCode}): ${stderr}`);
+                    resolve(undefined);
+                    return;
+                }
+                try {
+                    const apps = JSON.parse(line.substring(APPS_MARKER.length)) as DjangoApp[];
+                    resolve(apps.map(app => ({ ...app, path: toLocalPath(this.workspaceRoot, app.path) })));
+                } catch (e) {
+                    console.warn('Invalid INSTALLED_APPS output:', e);
+                    resolve(undefined);
+                }
+            });
+        });
+    }
+
+    /**
+     * Read INSTALLED_APPS from the settings module named by DJANGO_SETTINGS_MODULE
+     * (environment or manage.py), following `from ... import *` of split settings
+     */
+    private async parseSettings(): Promise<DjangoApp[]> {
+        const managePyPath = this.getManagePyPath();
+        const roots = [path.dirname(managePyPath), this.workspaceRoot];
+
+        const env = await getMergedEnvironmentVariables(this.workspaceRoot);
+        let settingsModule: string | undefined = env.DJANGO_SETTINGS_MODULE;
+        if (!settingsModule) {
+            try {
+                const managePy = fs.readFileSync(managePyPath, 'utf8');
+                settingsModule = /DJANGO_SETTINGS_MODULE['"]\s*,\s*['"]([\w.]+)['"]/.exec(managePy)?.[1];
+            } catch {
+                // No manage.py
+            }
+        }
+        if (!settingsModule) {
+            return [];
+        }
+
+        const names: string[] = [];
+        const visited = new Set<string>();
+        const readModule = (moduleName: string) => {
+            const found = this.findModule(moduleName, roots);
+            if (!found) return;
+            const isPackage = !found.endsWith('.py');
+            const file = isPackage ? path.join(found, '__init__.py') : found;
+            if (visited.has(file)) return;
+            visited.add(file);
+
+            let content: string;
+            try {
+                content = fs.readFileSync(file, 'utf8');
+            } catch {
+                return;
+            }
+
+            const starImport = /^from\s+(\.*)([\w.]*)\s+import\s+\*/gm;
+            for (let match = starImport.exec(content); match; match = starImport.exec(content)) {
+                const packageParts = moduleName.split('.');
+                // A module's package is its parent; a package is its own
+                packageParts.splice(packageParts.length - match[1].length + (isPackage ? 1 : 0));
+                readModule(match[1] ? [...packageParts, match[2]].filter(Boolean).join('.') : match[2]);
+            }
+
+            const assignment = /^INSTALLED_APPS\s*\+?=\s*[[(]([\s\S]*?)[\])]/gm;
+            for (let match = assignment.exec(content); match; match = assignment.exec(content)) {
+                const entry = /['"]([\w.]+)['"]/g;
+                for (let name = entry.exec(match[1]); name; name = entry.exec(match[1])) {
+                    names.push(name[1]);
+                }
+            }
+        };
+        readModule(settingsModule);
+
+        const apps: DjangoApp[] = [];
+        for (const entry of names) {
+            // AppConfig paths (billing.apps.BillingConfig) point inside the app package
+            const parts = entry.split('.');
+            while (parts.length > 0) {
+                const dir = this.findModule(parts.join('.'), roots);
+                if (dir && !dir.endsWith('.py')) {
+                    apps.push({ label: parts[parts.length - 1], name: parts.join('.'), path: dir });
+                    break;
+                }
+                parts.pop();
+            }
+        }
+        return apps;
+    }
+
+    /**
+     * Package directory or module file of a dotted name below one of the roots
+     */
+    private findModule(name: string, roots: string[]): string | undefined {
+        for (const root of roots) {
+            const modulePath = path.join(root, ...name.split('.'));
+            if (fs.existsSync(`${modulePath}.py`)) return `${modulePath}.py`;
+            if (fs.existsSync(path.join(modulePath, '__init__.py')) || fs.existsSync(path.join(modulePath, 'apps.py'))) return modulePath;
+        }
+        return undefined;
+    }
+
+    private getManagePyPath(): string {
+        const config = getConfiguration(this.workspaceRoot);
+        return resolvePath(config.get<string>('managePyPath') || 'manage.py', this.workspaceRoot, 'manage.py');
+    }
+}
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EXCLUDE_PATTERN } from './testDiscovery';
+import { resolveProjectRoot } from './testUtils';
+
+/**
+ * Directories of a workspace folder holding a manage.py, outermost first
+ */
+export async function findDjangoProjects(folder: vscode.WorkspaceFolder): Promise<string[]> {
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/manage.py'), EXCLUDE_PATTERN);
+    return files.map(file => path.dirname(file.fsPath)).sort();
+}
+
+/**
+ * Project roots of a workspace folder. A folder with several manage.py files
+ * is a repository of several Django projects, each discovered and run on its
+ * own; an explicit `projectRoot` or `managePyPath` means a single project.
+ */
+export async function resolveProjectRoots(folder: vscode.WorkspaceFolder): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('djangoTestManager', folder.uri);
+    const configured = config.get<string>('projectRoot') || config.get<string>('managePyPath', 'manage.py') !== 'manage.py';
+    if (configured || !config.get<boolean>('detectProjects', true)) {
+        return [resolveProjectRoot(folder)];
+    }
+
+    const projects = await findDjangoProjects(folder);
+    if (projects.length < 2) {
+        return [resolveProjectRoot(folder)];
+    }
+
+    const excluded = new Set(config.get<string[]>('excludedProjects', [])
+        .map(project => path.resolve(folder.uri.fsPath, project)));
+    return projects.filter(project => !excluded.has(project));
+}
@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import { runPreRunCommands } from './preRunCommands';
+
+/**
+ * A command run in the test terminal
+ */
+export interface TerminalCommand {
+    cmd: string;
+    args: string[];
+    env: NodeJS.ProcessEnv;
+}
 
 export class DjangoTerminal implements vscode.Pseudoterminal {
     private writeEmitter = new vscode.EventEmitter<string>();
@@ -7,7 +17,7 @@ export class DjangoTerminal implements vscode.Pseudoterminal {
     private closeEmitter = new vscode.EventEmitter<number>();
     onDidClose: vscode.Event<number> = this.closeEmitter.event;
 
-    private process: cp.ChildProcess | undefined;
+    private processes = new Set<cp.ChildProcess>();
 
     constructor() { }
 
@@ -16,14 +26,14 @@ export class DjangoTerminal implements vscode.Pseudoterminal {
     }
 
     close(): void {
-        if (this.process) {
-            this.process.kill();
-        }
+        this.processes.forEach(p => p.kill());
     }
 
     handleInput(data: string): void {
-        if (this.process && this.process.stdin) {
-            this.process.stdin.write(data);
+        // Input goes to the first process, e.g. to answer a prompt
+        const process = this.processes.values().next().value;
+        if (process && process.stdin) {
+            process.stdin.write(data);
         }
     }
 
@@ -35,59 +45,128 @@ export class DjangoTerminal implements vscode.Pseudoterminal {
         onData: (data: string) => void,
         onExit: (code: number) => void
     ) {
-        if (this.process) {
-            this.process.kill();
+        this.runCommands([{ cmd, args, env }], cwd, onData, onExit);
+    }
+
+    /**
+     * Run several commands side by side (the shards of a test run). Output of
+     * each is passed on line by line, prefixed with its shard in the terminal;
+     * `onExit` gets the first non-zero exit code once all have exited.
+     * Pre-run commands of the test profile run first on this machine, shown
+     * but not parsed; when one fails the tests are not started.
+     */
+    public async runCommands(
+        commands: TerminalCommand[],
+        cwd: string,
+        onData: (data: string) => void,
+        onExit: (code: number) => void,
+        preRun?: { commands: string[]; env: NodeJS.ProcessEnv }
+    ) {
+        if (this.processes.size > 0) {
+            this.processes.forEach(p => p.kill());
+            this.processes.clear();
             this.writeEmitter.fire('\r\n--- Restarting Test Run ---\r\n');
         } else {
             this.writeEmitter.fire('\r\n--- Starting Test Run ---\r\n');
         }
 
-        // Display the full command for user visibility
-        const fullCmd = `${cmd} ${args.join(' ')}`;
-        this.writeEmitter.fire(`Running: ${fullCmd}\r\n\r\n`);
-
-        this.process = cp.spawn(cmd, args, {
-            cwd: cwd,
-            env: env,
-            shell: false
-        });
+        if (preRun && preRun.commands.length > 0) {
+            const code = await runPreRunCommands(preRun.commands, cwd, preRun.env, (text) => this.writeEmitter.fire(text), (child) => {
+                this.processes.add(child);
+                child.on('close', () => this.processes.delete(child));
+            });
+            if (code !== 0) {
+                onExit(code);
+                return;
+            }
+        }
 
-        const filterOutput = (data: string): string => {
-            return data
-                .replace(/^.* \.\.\. ok\r?\n/gm, '.')
-                .replace(/^.* \.\.\. skipped.*\r?\n/gm, 's');
+        const sharded = commands.length > 1;
+        let running = commands.length;
+        let exitCode = 0;
+        const finish = (code: number) => {
+            exitCode = exitCode || code;
+            if (--running === 0) {
+                onExit(exitCode);
+            }
         };
 
-        this.process.stdout?.on('data', (data) => {
-            const str = data.toString();
-            // Send to parser (raw)
-            onData(str);
-            // Send to terminal (filtered)
-            this.writeEmitter.fire(filterOutput(str).replace(/\n/g, '\r\n'));
-        });
+        commands.forEach(({ cmd, args, env }, index) => {
+            const prefix = sharded ? `[${index + 1}/${commands.length}] ` : '';
 
-        this.process.stderr?.on('data', (data) => {
-            const str = data.toString();
-            onData(str);
-            this.writeEmitter.fire(filterOutput(str).replace(/\n/g, '\r\n'));
-        });
+            // Display the full command for user visibility
+            const fullCmd = `${cmd} ${args.join(' ')}`;
+            this.writeEmitter.fire(`${prefix}Running: ${fullCmd}\r\n${sharded ? '' : '\r\n'}`);
 
-        this.process.on('exit', (code) => {
-            this.writeEmitter.fire(`\r\nProcess exited with code ${code}\r\n`);
-            this.process = undefined;
-            onExit(code || 0);
-        });
+            const child = cp.spawn(cmd, args, {
+                cwd: cwd,
+                env: env,
+                shell: false
+            });
+            this.processes.add(child);
+
+            const filterOutput = (data: string): string => {
+                return data
+                    .replace(/^.* \.\.\. ok\r?\n/gm, '.')
+                    .replace(/^.* \.\.\. skipped.*\r?\n/gm, 's');
+            };
 
-        this.process.on('error', (err) => {
-            this.writeEmitter.fire(`\r\nError: ${err.message}\r\n`);
-            this.process = undefined;
-            onExit(1);
+            const write = (str: string) => {
+                // Send to parser (raw)
+                onData(str);
+                // Send to terminal (filtered)
+                const filtered = filterOutput(str);
+                this.writeEmitter.fire(sharded
+                    ? filtered.replace(/([^\n]*)\n/g, (_, line: string) => line ? `${prefix}${line}\r\n` : '\r\n')
+                    : filtered.replace(/\n/g, '\r\n'));
+            };
+
+            // Shards only pass on complete lines, so their output does not interleave
+            // mid-line; stdout and stderr each keep their own partial line
+            const pending = { stdout: '', stderr: '' };
+            const handleData = (stream: keyof typeof pending) => (data: Buffer) => {
+                let str = data.toString();
+                if (sharded) {
+                    str = pending[stream] + str;
+                    const lastNewline = str.lastIndexOf('\n');
+                    pending[stream] = str.substring(lastNewline + 1);
+                    str = str.substring(0, lastNewline + 1);
+                    if (!str) return;
+                }
+                write(str);
+            };
+            child.stdout?.on('data', handleData('stdout'));
+            child.stderr?.on('data', handleData('stderr'));
+
+            let exited = false;
+            // 'close' comes after the output streams are drained, unlike 'exit'
+            child.on('close', (code) => {
+                for (const stream of ['stdout', 'stderr'] as const) {
+                    if (pending[stream]) {
+                        write(pending[stream] + '\n');
+                        pending[stream] = '';
+                    }
+                }
+                this.writeEmitter.fire(`\r\n${prefix}Process exited with code ${code}\r\n`);
+                this.processes.delete(child);
+                if (!exited) {
+                    exited = true;
+                    finish(code || 0);
+                }
+            });
+
+            child.on('error', (err) => {
+                this.writeEmitter.fire(`\r\n${prefix}Error: ${err.message}\r\n`);
+                this.processes.delete(child);
+                if (!exited) {
+                    exited = true;
+                    finish(1);
+                }
+            });
         });
     }
 
     public sendSignal(signal: NodeJS.Signals = 'SIGINT') {
-        if (this.process) {
-            this.process.kill(signal);
-        }
+        this.processes.forEach(p => p.kill(signal));
     }
 }
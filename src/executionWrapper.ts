@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { getPythonHelpersPath } from './resultChannel';
+import { getConfiguration, resolvePath } from './testUtils';
+
+/**
+ * A directory of the workspace and where the wrapped command sees it, e.g.
+ * the project folder mounted at `/app` in a container
+ */
+export interface PathMapping {
+    localRoot: string;
+    remoteRoot: string;
+}
+
+/**
+ * Command that runs Python somewhere else, such as
+ * `docker compose exec -T web`, configured with `executionWrapper`
+ */
+export interface ExecutionWrapper {
+    /** Prefix of every Python command; `${cwd}` and `${env}` are replaced */
+    command: string[];
+    pathMappings: PathMapping[];
+    /** Flag put before each `NAME=value` pair of `${env}`, e.g. `-e` */
+    envFlag?: string;
+    /** Host name the wrapped command reaches this machine by */
+    resultHost?: string;
+}
+
+/**
+ * A process to start: executable, arguments and environment
+ */
+export interface WrappedCommand {
+    cmd: string;
+    args: string[];
+    env: { [key: string]: string };
+}
+
+const DEFAULT_RESULT_HOST = 'host.docker.internal';
+
+/**
+ * Where the bundled helpers are copied for wrapped commands, inside the
+ * project so the project's mapping makes them visible
+ */
+const STAGED_HELPERS_DIR = path.join('.vscode', 'django-test-manager');
+
+/**
+ * The project's execution wrapper, if one is configured
+ */
+export function getExecutionWrapper(workspaceRoot: string): ExecutionWrapper | undefined {
+    const wrapper = getConfiguration(workspaceRoot).get<Partial<ExecutionWrapper>>('executionWrapper');
+    if (!wrapper || !Array.isArray(wrapper.command) || wrapper.command.length === 0) {
+        return undefined;
+    }
+    return {
+        command: wrapper.command,
+        pathMappings: (wrapper.pathMappings || []).map(mapping => ({
+            localRoot: resolvePath(mapping.localRoot, workspaceRoot),
+            remoteRoot: mapping.remoteRoot.replace(/\/+$/, '') || '/'
+        })),
+        envFlag: wrapper.envFlag,
+        resultHost: wrapper.resultHost
+    };
+}
+
+/**
+ * Address the result channel listens on: wrapped commands connect from
+ * outside the loopback interface unless they run on this machine
+ */
+export function getResultListenHost(workspaceRoot: string): string {
+    const wrapper = getExecutionWrapper(workspaceRoot);
+    return wrapper && !isLoopback(getResultHost(wrapper)) ? '0.0.0.0' : '127.0.0.1';
+}
+
+function getResultHost(wrapper: ExecutionWrapper): string {
+    return wrapper.resultHost || DEFAULT_RESULT_HOST;
+}
+
+function isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+function isUnder(file: string, root: string, separator: string): boolean {
+    return file === root || file.startsWith(root.endsWith(separator) ? root : root + separator);
+}
+
+/**
+ * Path of a workspace file as the wrapped command sees it; paths outside
+ * every mapping are returned unchanged
+ */
+export function toRemotePath(wrapper: ExecutionWrapper, localPath: string): string {
+    // The most specific mapping wins
+    const mapping = [...wrapper.pathMappings]
+        .sort((a, b) => b.localRoot.length - a.localRoot.length)
+        .find(m => isUnder(localPath, m.localRoot, path.sep));
+    if (!mapping) {
+        return localPath;
+    }
+    const relative = path.relative(mapping.localRoot, localPath).split(path.sep).join('/');
+    return relative ? path.posix.join(mapping.remoteRoot, relative) : mapping.remoteRoot;
+}
+
+/**
+ * Workspace path of a file reported by the wrapped command (traceback
+ * frames, coverage data); paths outside every mapping are returned unchanged
+ */
+export function toLocalPath(workspaceRoot: string, remotePath: string): string {
+    const wrapper = getExecutionWrapper(workspaceRoot);
+    if (!wrapper) {
+        return remotePath;
+    }
+    const mapping = [...wrapper.pathMappings]
+        .sort((a, b) => b.remoteRoot.length - a.remoteRoot.length)
+        .find(m => isUnder(remotePath, m.remoteRoot, '/'));
+    if (!mapping) {
+        return remotePath;
+    }
+    const relative = path.posix.relative(mapping.remoteRoot, remotePath);
+    return relative ? path.join(mapping.localRoot, ...relative.split('/')) : mapping.localRoot;
+}
+
+/**
+ * Run a command through the project's execution wrapper, if any.
+ *
+ * Absolute workspace paths in the arguments and `PYTHONPATH` are mapped,
+ * the bundled helpers are staged where the wrapped command can import them,
+ * and the result channel is told how to reach this machine. `${cwd}` in the
+ * wrapper stands for the project root as the wrapped command sees it and
+ * `${env}` for the variables set by the extension or the project's
+ * configuration, which a container does not inherit.
+ */
+export function wrapCommand(workspaceRoot: string, command: WrappedCommand): WrappedCommand {
+    const wrapper = getExecutionWrapper(workspaceRoot);
+    if (!wrapper) {
+        return command;
+    }
+
+    const env = { ...command.env };
+    if (env.PYTHONPATH) {
+        env.PYTHONPATH = env.PYTHONPATH.split(path.delimiter)
+            .map(entry => toRemotePath(wrapper, stageHelpers(workspaceRoot, wrapper, entry)))
+            .join(':');
+    }
+    if (env.DJANGO_TEST_MANAGER_RESULT_PORT) {
+        env.DJANGO_TEST_MANAGER_RESULT_HOST = getResultHost(wrapper);
+    }
+
+    const passed = Object.entries(env).filter(([key, value]) => process.env[key] !== value);
+    const prefix = wrapper.command.flatMap(token => {
+        if (token === '${env}') {
+            return passed.flatMap(([key, value]) => wrapper.envFlag ? [wrapper.envFlag, `${key}=${value}`] : [`${key}=${value}`]);
+        }
+        return [token.replace(/\$\{cwd\}/g, toRemotePath(wrapper, workspaceRoot))];
+    });
+    const args = [command.cmd, ...command.args].map(arg => path.isAbsolute(arg) ? toRemotePath(wrapper, arg) : arg);
+
+    return { cmd: prefix[0], args: [...prefix.slice(1), ...args], env };
+}
+
+/**
+ * Copy the bundled helpers into the project when `entry` is their directory
+ * and no mapping makes it visible to the wrapped command
+ */
+function stageHelpers(workspaceRoot: string, wrapper: ExecutionWrapper, entry: string): string {
+    const helpers = getPythonHelpersPath();
+    if (!helpers || entry !== helpers || wrapper.pathMappings.length === 0 || toRemotePath(wrapper, helpers) !== helpers) {
+        return entry;
+    }
+    const staged = path.join(workspaceRoot, STAGED_HELPERS_DIR);
+    try {
+        fs.mkdirSync(staged, { recursive: true });
+        for (const file of fs.readdirSync(helpers)) {
+            if (file.endsWith('.py')) {
+                fs.copyFileSync(path.join(helpers, file), path.join(staged, file));
+            }
+        }
+        // Keep the copies out of version control
+        fs.writeFileSync(path.join(staged, '.gitignore'), '*\n');
+        return staged;
+    } catch (e) {
+        console.error('Could not stage test helpers for the execution wrapper:', e);
+        return entry;
+    }
+}
+
+/**
+ * Debug a Python command run through the execution wrapper: VS Code
+ * listens for debugpy, which the wrapped command starts with `--connect`,
+ * and the wrapper's path mappings map breakpoints and stack frames
+ */
+export async function startWrappedDebugging(
+    folder: vscode.WorkspaceFolder,
+    workspaceRoot: string,
+    name: string,
+    command: WrappedCommand
+): Promise<boolean> {
+    const wrapper = getExecutionWrapper(workspaceRoot);
+    if (!wrapper) {
+        return false;
+    }
+    const listenHost = getResultListenHost(workspaceRoot);
+    const port = await findFreePort(listenHost);
+
+    const started = await vscode.debug.startDebugging(folder, {
+        name,
+        type: 'debugpy',
+        request: 'attach',
+        listen: { host: listenHost, port },
+        pathMappings: wrapper.pathMappings,
+        justMyCode: false,
+        django: true
+    });
+    if (!started) {
+        return false;
+    }
+
+    // [python, ...args] becomes [python, -m, debugpy, --connect, host:port, ...args]
+    const debuggee = wrapCommand(workspaceRoot, {
+        ...command,
+        args: ['-m', 'debugpy', '--connect', `${getResultHost(wrapper)}:${port}`, ...command.args]
+    });
+    const terminal = vscode.window.createTerminal({
+        name,
+        shellPath: debuggee.cmd,
+        shellArgs: debuggee.args,
+        cwd: workspaceRoot,
+        env: debuggee.env
+    });
+    terminal.show();
+    return true;
+}
+
+function findFreePort(host: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, host, () => {
+            const address = server.address();
+            server.close(() => address && typeof address === 'object'
+                ? resolve(address.port)
+                : reject(new Error('Could not find a free port')));
+        });
+    });
+}
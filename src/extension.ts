@@ -1,25 +1,39 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TestTreeDataProvider, TestItem } from './testTree';
-import { TestRunner } from './testRunner';
-import { DjangoTestCodeLensProvider, initCodeLensCache } from './testCodeLensProvider';
-import { TestNode, TestDiscovery } from './testDiscovery';
+import { TestItem, WorkspaceTreeDataProvider } from './testTree';
+import { initCodeLensCache } from './testCodeLensProvider';
+import { getRunnableNode, TestNode } from './testDiscovery';
 import { ConfigurationPanel } from './configurationPanel';
 import { TestDecorationProvider } from './testDecorations';
 import { TestStatusBar } from './testStatusBar';
 import { TestStateManager } from './testStateManager';
-import { CoverageProvider } from './coverageProvider';
-import { getMergedEnvironmentVariables, initTestUtilsCache, resolvePath } from './testUtils';
-import { WatchModeManager } from './watchMode';
-import { TestHistoryManager, TestHistoryTreeProvider } from './testHistory';
+import { buildTestId, confirmUnsavedChanges, getActiveProfile, getConfiguration, getConfigurationTarget, getMergedEnvironmentVariables, getProjectLabel, getProjectRoot, getPythonInterpreter, getTestName, getTestProfiles, getTestRunnerBackend, initTestUtilsCache, registerProject, resolvePath, resolveProjectRoot, unregisterProject } from './testUtils';
+import { TestHistoryManager } from './testHistory';
 import { isTestClassFromLine } from './testUtils';
-import { NativeTestController } from './nativeTestController';
+import { initResultChannel } from './resultChannel';
+import { TestCollector } from './testCollector';
+import { describeTagFilter, isTagFilterEmpty, pickTagFilter } from './testTags';
+import { TestWorkspace } from './testWorkspace';
+import { findDjangoProjects, resolveProjectRoots } from './djangoProjects';
+import { showRunQueue } from './runQueue';
+import { getExecutionWrapper, startWrappedDebugging } from './executionWrapper';
+import { selectSettingsModule } from './settingsModules';
+import { runPreRunCommands } from './preRunCommands';
+
+/**
+ * Django projects of the workspace folders, by project root
+ */
+const testWorkspaces = new Map<string, TestWorkspace>();
+
+/**
+ * Output of the pre-run commands of debug sessions, created when first used
+ */
+let preRunOutputChannel: vscode.OutputChannel | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Django Test Manager is now active!');
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || vscode.workspace.rootPath;
-    if (!workspaceRoot) {
+    if (!vscode.workspace.workspaceFolders?.length) {
         vscode.window.showErrorMessage('No workspace folder opened. Django Test Manager cannot activate.');
         return;
     }
@@ -27,19 +41,10 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize performance caches
     context.subscriptions.push(initTestUtilsCache());
     initCodeLensCache(context);
-    const config = vscode.workspace.getConfiguration('djangoTestManager');
-    let resolvedWorkspaceRoot = config.get<string>('projectRoot') ?? '';
-
-    // If projectRoot config is empty, use workspace root
-    if (!resolvedWorkspaceRoot) {
-        resolvedWorkspaceRoot = workspaceRoot;
-    } else if (!path.isAbsolute(resolvedWorkspaceRoot)) {
-        // If relative, resolve it relative to workspace root
-        resolvedWorkspaceRoot = path.resolve(workspaceRoot, resolvedWorkspaceRoot);
-    }
+    initResultChannel(context);
 
-    const testDiscovery = new TestDiscovery(resolvedWorkspaceRoot);
-    const testTreeDataProvider = new TestTreeDataProvider(resolvedWorkspaceRoot, testDiscovery);
+    // One tree with a root per workspace folder
+    const testTreeDataProvider = new WorkspaceTreeDataProvider();
 
     // Use createTreeView to get access to the view instance
     const treeView = vscode.window.createTreeView('djangoTestExplorer', {
@@ -50,55 +55,205 @@ export function activate(context: vscode.ExtensionContext) {
     const statusBar = new TestStatusBar();
     context.subscriptions.push(statusBar);
 
-    const coverageProvider = new CoverageProvider(workspaceRoot);
-    // Load existing coverage if available
-    coverageProvider.loadCoverage();
-    const testRunner = new TestRunner(resolvedWorkspaceRoot, testTreeDataProvider, coverageProvider);
+    // Show the run queue button while a project has queued runs
+    const updateQueueContext = () => {
+        const hasQueuedRuns = Array.from(testWorkspaces.values()).some(w => w.runner.getQueue().length > 0);
+        vscode.commands.executeCommand('setContext', 'djangoTestManager.hasQueuedRuns', hasQueuedRuns);
+    };
 
-    // Initialize Watch Mode
-    const watchModeManager = new WatchModeManager(resolvedWorkspaceRoot, testRunner);
-    context.subscriptions.push({ dispose: () => watchModeManager.dispose() });
+    // Build the projects again when folders or projects are added or removed,
+    // so names and ids tell the projects apart once there are several
+    const reloadWorkspaces = async () => {
+        const projects: [string, vscode.WorkspaceFolder][] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            for (const root of await resolveProjectRoots(folder)) {
+                projects.push([root, folder]);
+            }
+        }
+        const roots = new Set(projects.map(([root]) => root));
+
+        for (const [root, testWorkspace] of testWorkspaces) {
+            if (!roots.has(root)) {
+                // Removed projects take their state along
+                TestStateManager.removeInstance(root);
+                TestHistoryManager.removeInstance(root);
+                unregisterProject(root);
+            }
+            statusBar.untrack(testWorkspace.stateManager);
+            testTreeDataProvider.removeProject(root);
+            testWorkspace.dispose();
+        }
+        testWorkspaces.clear();
+
+        // Every project is known before any is discovered, so none picks up
+        // the tests of a project nested in it
+        projects.forEach(([root, folder]) => registerProject(root, folder));
+        for (const [root, folder] of projects) {
+            const testWorkspace = new TestWorkspace(folder, root, context);
+            testWorkspaces.set(root, testWorkspace);
+            statusBar.track(testWorkspace.stateManager);
+            testTreeDataProvider.addProject(root, getProjectLabel(root) ?? folder.name, testWorkspace.treeDataProvider);
+            // The runner is disposed with its project, and its listeners with it
+            testWorkspace.runner.onDidChangeQueue(updateQueueContext);
+        }
+        updateQueueContext();
+        // Offer the project selection once a folder's projects were detected
+        const detected = projects.some(([root, folder]) => root !== resolveProjectRoot(folder));
+        vscode.commands.executeCommand('setContext', 'djangoTestManager.multipleProjects', detected);
+    };
+    // Reloads run one after the other
+    let loading = Promise.resolve();
+    const loadWorkspaces = () => {
+        loading = loading.then(reloadWorkspaces).catch(error => {
+            console.error('Error loading Django projects:', error);
+        });
+    };
+    loadWorkspaces();
 
-    // Initialize Test History
-    const testHistoryManager = TestHistoryManager.getInstance(context);
-    const _testHistoryTreeProvider = new TestHistoryTreeProvider(testHistoryManager);
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => loadWorkspaces()),
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('djangoTestManager.projectRoot')
+                || e.affectsConfiguration('djangoTestManager.managePyPath')
+                || e.affectsConfiguration('djangoTestManager.detectProjects')
+                || e.affectsConfiguration('djangoTestManager.excludedProjects')) {
+                loadWorkspaces();
+            }
+        }),
+        // Each project has its own code lenses; unsaved files go to the first
+        vscode.languages.registerCodeLensProvider(
+            [
+                { language: 'python', scheme: 'file' },
+                { language: 'python', scheme: 'untitled' }
+            ],
+            {
+                provideCodeLenses: (document, token) => {
+                    const testWorkspace = getWorkspaceForUri(document.uri)
+                        || (document.isUntitled ? testWorkspaces.values().next().value : undefined);
+                    return testWorkspace ? testWorkspace.codeLensProvider.provideCodeLenses(document, token) : [];
+                }
+            }
+        ),
+        { dispose: () => testWorkspaces.forEach(testWorkspace => testWorkspace.dispose()) }
+    );
 
-    // Initialize VS Code Native Test Controller (integrates with built-in Test Explorer)
-    const nativeTestController = new NativeTestController(resolvedWorkspaceRoot, testDiscovery);
-    context.subscriptions.push({ dispose: () => nativeTestController.dispose() });
+    context.subscriptions.push(
+        treeView,
+        vscode.commands.registerCommand('django-test-manager.refreshTests', () => {
+            testWorkspaces.forEach(testWorkspace => testWorkspace.treeDataProvider.refreshDiscovery());
+        }),
+        vscode.commands.registerCommand('django-test-manager.collectTests', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (!testWorkspace) return;
+            if (getTestRunnerBackend(testWorkspace.workspaceRoot) === 'pytest') {
+                vscode.window.showInformationMessage('Collecting with Django\'s test loader is only available with the manage.py test runner backend.');
+                return;
+            }
+            const collector = new TestCollector(testWorkspace.workspaceRoot);
+            try {
+                const result = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Collecting tests with Django\'s test loader...',
+                    cancellable: true
+                }, (_progress, token) => collector.collect(token));
+
+                if (result.exitCode !== 0 && result.tests.length === 0) {
+                    const choice = await vscode.window.showErrorMessage(
+                        `Test collection failed (exit code ${result.exitCode}).`,
+                        'Show Output'
+                    );
+                    if (choice === 'Show Output') {
+                        const doc = await vscode.workspace.openTextDocument({ content: result.output, language: 'log' });
+                        await vscode.window.showTextDocument(doc);
+                    }
+                    return;
+                }
 
-    // Discover tests for native controller
-    nativeTestController.discoverAllTests();
+                testWorkspace.discovery.setCollectedTests(result.tests);
+                testWorkspace.treeDataProvider.refreshDiscovery();
+                await testWorkspace.nativeTestController.discoverAllTests();
+
+                let message = `Django collected ${result.tests.length} test(s).`;
+                if (result.importErrors.length > 0) {
+                    message += ` Failed to import: ${result.importErrors.join(', ')}`;
+                }
+                vscode.window.showInformationMessage(message);
+            } catch (e) {
+                vscode.window.showErrorMessage(`Test collection failed: ${e instanceof Error ? e.message : e}`);
+            }
+        }),
+    );
 
     context.subscriptions.push(
-        treeView,
-        vscode.commands.registerCommand('django-test-manager.refreshTests', () => testTreeDataProvider.refreshDiscovery()),
-        vscode.commands.registerCommand('django-test-manager.runTest', (item: TestItem | TestNode | undefined) => {
+        vscode.commands.registerCommand('django-test-manager.runTest', async (item: TestItem | TestNode | undefined) => {
             if (!item) {
                 vscode.commands.executeCommand('django-test-manager.runCurrentFile');
                 return;
             }
+            const testWorkspace = await getWorkspaceForItem(item);
+            if (!testWorkspace) return;
             if (item instanceof TestItem) {
-                testRunner.runInTerminal(item.node);
+                testWorkspace.runner.runInTerminal(item.node);
             } else if ((item as TestNode).dottedPath) {
-                testRunner.runInTerminal(item as TestNode);
+                testWorkspace.runner.runInTerminal(item as TestNode);
             }
         }),
         vscode.commands.registerCommand('django-test-manager.debugTest', async (item: TestItem | TestNode) => {
-            const node = item instanceof TestItem ? item.node : item;
+            // A subtest is debugged by running its test, a generated test not seen yet with its class
+            const node = item && getRunnableNode(item instanceof TestItem ? item.node : item);
             if (!node || !node.dottedPath) {
                 vscode.window.showErrorMessage('Cannot debug this item: No dotted path found.');
                 return;
             }
-
-            const config = vscode.workspace.getConfiguration('djangoTestManager');
-            const _pythonPath = config.get<string>('pythonPath') || 'python';
+            const testWorkspace = await getWorkspaceForItem(item);
+            if (!testWorkspace || !await confirmUnsavedChanges(testWorkspace.workspaceRoot)) return;
+            const resolvedWorkspaceRoot = testWorkspace.workspaceRoot;
+
+            const config = getConfiguration(resolvedWorkspaceRoot);
+            const profile = getActiveProfile(resolvedWorkspaceRoot);
+            const pythonPath = getPythonInterpreter(resolvedWorkspaceRoot);
+            // The Python extension's interpreter is used unless the profile names one
+            const profileInterpreter = profile.pythonPath ? { python: profile.pythonPath } : {};
             const managePyPathConfig = config.get<string>('managePyPath') || 'manage.py';
             const managePyPath = resolvePath(managePyPathConfig, resolvedWorkspaceRoot, 'manage.py');
             const env = await getMergedEnvironmentVariables(resolvedWorkspaceRoot);
-            const rawTestArgs = config.get<string[]>('testArguments') || [];
+            const testArguments = config.get<string[]>('testArguments') || [];
+            const debugConfigName = 'Django Test Manager: Debug';
+            // A wrapped command (e.g. in a container) connects back to VS Code's debugger
+            const wrapped = !!getExecutionWrapper(resolvedWorkspaceRoot);
+
+            if (!await runDebugPreRunCommands(resolvedWorkspaceRoot, profile.preRunCommands || [], env)) {
+                return;
+            }
+
+            if (getTestRunnerBackend(resolvedWorkspaceRoot) === 'pytest') {
+                const pytestArgs = config.get<string[]>('pytestArguments') || [];
+                if (wrapped) {
+                    await startWrappedDebugging(testWorkspace.folder, resolvedWorkspaceRoot, debugConfigName, {
+                        cmd: pythonPath,
+                        args: ['-m', 'pytest', node.dottedPath, ...pytestArgs, ...testArguments],
+                        env
+                    });
+                    return;
+                }
+                await vscode.debug.startDebugging(testWorkspace.folder, {
+                    name: debugConfigName,
+                    type: 'debugpy',
+                    request: 'launch',
+                    module: 'pytest',
+                    args: [node.dottedPath, ...pytestArgs, ...testArguments],
+                    ...profileInterpreter,
+                    console: 'integratedTerminal',
+                    env: env,
+                    justMyCode: false,
+                    django: true,
+                    cwd: resolvedWorkspaceRoot
+                });
+                return;
+            }
 
             // Filter out arguments that interfere with debugging
+            const rawTestArgs = [...profile.arguments, ...testArguments];
             const testArgs: string[] = [];
             for (let i = 0; i < rawTestArgs.length; i++) {
                 const arg = rawTestArgs[i];
@@ -121,13 +276,22 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const debugConfigName = 'Django Test Manager: Debug';
+            if (wrapped) {
+                await startWrappedDebugging(testWorkspace.folder, resolvedWorkspaceRoot, debugConfigName, {
+                    cmd: pythonPath,
+                    args: [managePyPath, 'test', node.dottedPath, '--noinput', ...testArgs],
+                    env
+                });
+                return;
+            }
+
             const debugConfig = {
                 name: debugConfigName,
                 type: 'debugpy',
                 request: 'launch',
                 program: managePyPath,
                 args: ['test', node.dottedPath, '--noinput', ...testArgs],
+                ...profileInterpreter,
                 console: 'integratedTerminal',
                 env: env,
                 justMyCode: false,
@@ -136,7 +300,7 @@ export function activate(context: vscode.ExtensionContext) {
                 cwd: resolvedWorkspaceRoot
             };
             // Start debugging using the configuration directly (more reliable than named config)
-            await vscode.debug.startDebugging(vscode.workspace.workspaceFolders?.[0], debugConfig);
+            await vscode.debug.startDebugging(testWorkspace.folder, debugConfig);
         }),
         vscode.commands.registerCommand('django-test-manager.copyPath', (item: TestItem | TestNode) => {
             const node = item instanceof TestItem ? item.node : item;
@@ -145,22 +309,30 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.showInformationMessage(`Copied: ${node.dottedPath}`);
             }
         }),
-        vscode.commands.registerCommand('django-test-manager.runInTerminal', (item: TestItem | TestNode) => {
+        vscode.commands.registerCommand('django-test-manager.runInTerminal', async (item: TestItem | TestNode) => {
             const node = item instanceof TestItem ? item.node : item;
-            if (node) {
-                testRunner.runInTerminal(node);
+            const testWorkspace = node && await getWorkspaceForItem(item);
+            if (testWorkspace) {
+                testWorkspace.runner.runInTerminal(node);
+            }
+        }),
+        vscode.commands.registerCommand('django-test-manager.runFailedTests', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (testWorkspace) {
+                await testWorkspace.runner.runFailedTests();
             }
         }),
-        vscode.commands.registerCommand('django-test-manager.runFailedTests', () => testRunner.runFailedTests()),
         vscode.commands.registerCommand('django-test-manager.runCurrentFile', async () => {
             const editor = vscode.window.activeTextEditor;
             if (!editor || editor.document.languageId !== 'python') {
                 vscode.window.showErrorMessage('No active Python file found.');
                 return;
             }
+            const testWorkspace = getWorkspaceForUri(editor.document.uri) || await getActiveWorkspace();
+            if (!testWorkspace) return;
 
-            const relativePath = vscode.workspace.asRelativePath(editor.document.uri);
-            const dottedPath = relativePath.replace(/\.py$/, '').replace(/\//g, '.');
+            const relativePath = path.relative(testWorkspace.workspaceRoot, editor.document.uri.fsPath);
+            const dottedPath = buildTestId(getTestRunnerBackend(testWorkspace.workspaceRoot), relativePath);
 
             const node: TestNode = {
                 name: path.basename(editor.document.uri.fsPath),
@@ -168,15 +340,17 @@ export function activate(context: vscode.ExtensionContext) {
                 dottedPath: dottedPath
             };
 
-            await testRunner.runInTerminal(node);
+            await testWorkspace.runner.runInTerminal(node);
         }),
         vscode.commands.registerCommand('django-test-manager.runAllTests', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (!testWorkspace) return;
             const rootNode: TestNode = {
                 name: 'All Tests',
                 type: 'folder',
                 dottedPath: ''
             };
-            await testRunner.runInTerminal(rootNode);
+            await testWorkspace.runner.runInTerminal(rootNode);
         }),
         vscode.commands.registerCommand('django-test-manager.expandAll', async () => {
             const roots = await testTreeDataProvider.getChildren();
@@ -193,7 +367,7 @@ export function activate(context: vscode.ExtensionContext) {
                             // Ignore
                         }
                         // Recurse
-                        const children = item.node.children.map(c => new TestItem(c));
+                        const children = await testTreeDataProvider.getChildren(item);
                         await expandNodes(children);
                     }
                 }
@@ -221,8 +395,11 @@ export function activate(context: vscode.ExtensionContext) {
                 });
             }
         }),
-        vscode.commands.registerCommand('django-test-manager.configure', () => {
-            ConfigurationPanel.createOrShow(context.extensionUri);
+        vscode.commands.registerCommand('django-test-manager.configure', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (testWorkspace) {
+                ConfigurationPanel.createOrShow(context.extensionUri, testWorkspace.workspaceRoot);
+            }
         }),
 
         vscode.commands.registerCommand('django-test-manager.runRelatedTest', async () => {
@@ -231,6 +408,8 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.showErrorMessage('No active Python file found.');
                 return;
             }
+            const testWorkspace = getWorkspaceForUri(editor.document.uri) || await getActiveWorkspace();
+            if (!testWorkspace) return;
 
             const uri = editor.document.uri;
             const fileName = path.basename(uri.fsPath);
@@ -252,8 +431,12 @@ export function activate(context: vscode.ExtensionContext) {
             const nameWithoutExt = fileName.replace('.py', '');
             const testNames = [`test_${nameWithoutExt}.py`, `${nameWithoutExt}_test.py`];
 
-            // Search for test files
-            const files = await vscode.workspace.findFiles(`**/{tests/**/{${testNames.join(',')}},test.py,tests.py}`, '**/node_modules/**', 10);
+            // Search for test files in the project of the file
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(testWorkspace.workspaceRoot, `**/{tests/**/{${testNames.join(',')}},test.py,tests.py}`),
+                '**/node_modules/**',
+                10
+            );
 
             if (files.length === 0) {
                 vscode.window.showErrorMessage(`No related test file found for ${fileName}.`);
@@ -271,8 +454,8 @@ export function activate(context: vscode.ExtensionContext) {
             const bestMatch = files[0];
 
             // Construct a TestNode for the file
-            const relativePath = vscode.workspace.asRelativePath(bestMatch);
-            const dottedPath = relativePath.replace(/\.py$/, '').replace(/\//g, '.');
+            const relativePath = path.relative(testWorkspace.workspaceRoot, bestMatch.fsPath);
+            const dottedPath = buildTestId(getTestRunnerBackend(testWorkspace.workspaceRoot), relativePath);
 
             const node: TestNode = {
                 name: path.basename(bestMatch.fsPath),
@@ -281,35 +464,39 @@ export function activate(context: vscode.ExtensionContext) {
                 uri: bestMatch
             };
 
-            await testRunner.runInTerminal(node);
+            await testWorkspace.runner.runInTerminal(node);
         }),
         vscode.commands.registerCommand('django-test-manager.searchTests', async () => {
-            const stateManager = TestStateManager.getInstance();
-            const allKeys = stateManager.getAllKeys();
-
-            if (allKeys.length === 0) {
-                vscode.window.showInformationMessage('No tests discovered yet. Try refreshing the test list.');
-                return;
-            }
-
             interface TestQuickPickItem extends vscode.QuickPickItem {
                 dottedPath: string;
+                testWorkspace: TestWorkspace;
             }
 
-            const items: TestQuickPickItem[] = allKeys.map((key: string) => {
-                const status = stateManager.getStatus(key);
-                let icon = '';
-                if (status === 'passed') icon = '$(check) ';
-                else if (status === 'failed') icon = '$(error) ';
-                else if (status === 'skipped') icon = '$(dash) ';
-                else icon = '$(circle-outline) ';
+            // Tests of all projects, each labelled with its project when there are several
+            const items: TestQuickPickItem[] = [];
+            for (const testWorkspace of testWorkspaces.values()) {
+                const stateManager = testWorkspace.stateManager;
+                for (const key of stateManager.getAllKeys()) {
+                    const status = stateManager.getStatus(key);
+                    let icon = '';
+                    if (status === 'passed') icon = '$(check) ';
+                    else if (status === 'failed') icon = '$(error) ';
+                    else if (status === 'skipped') icon = '$(dash) ';
+                    else icon = '$(circle-outline) ';
+
+                    items.push({
+                        label: icon + key,
+                        description: getProjectLabel(testWorkspace.workspaceRoot) ?? '',
+                        dottedPath: key,
+                        testWorkspace
+                    });
+                }
+            }
 
-                return {
-                    label: icon + key,
-                    description: '',
-                    dottedPath: key
-                };
-            });
+            if (items.length === 0) {
+                vscode.window.showInformationMessage('No tests discovered yet. Try refreshing the test list.');
+                return;
+            }
 
             const selected = await vscode.window.showQuickPick(items, {
                 placeHolder: 'Search for a test to run...',
@@ -317,12 +504,10 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             if (selected) {
-                // Find the node for this path
-                // Since we don't have direct access to the node tree here easily without traversing,
-                // we can construct a temporary node or ask the runner to run by dotted path.
-                // The runner expects a TestNode.
-                const node: TestNode = {
-                    name: selected.dottedPath.split('.').pop() || '',
+                const testWorkspace = selected.testWorkspace;
+                // Keys of tests that are no longer discovered get a minimal node
+                const node: TestNode = testWorkspace.discovery.getNodeByDottedPath(selected.dottedPath) || {
+                    name: getTestName(selected.dottedPath),
                     type: 'method', // Assume method for simplicity, runner handles it
                     dottedPath: selected.dottedPath
                 };
@@ -333,18 +518,16 @@ export function activate(context: vscode.ExtensionContext) {
                 });
 
                 if (action === 'Run') {
-                    testRunner.runInTerminal(node);
+                    testWorkspace.runner.runInTerminal(node);
                 } else if (action === 'Debug') {
-                    // We need the URI for debugging to work best, but let's try with just dotted path if possible
-                    // Debugging usually requires a URI in the current implementation.
-                    // Let's try to find the URI from discovery if possible, or just run it.
-                    // For now, let's just run it as debug might fail without URI.
-                    vscode.commands.executeCommand('django-test-manager.debugTest', node);
+                    // The debug command finds the folder from the test's file
+                    vscode.commands.executeCommand('django-test-manager.debugTest', { ...node, uri: node.uri || testWorkspace.folder.uri });
+                } else if (action === 'Go to File' && node.uri && node.type !== 'folder' && node.type !== 'app') {
+                    const doc = await vscode.workspace.openTextDocument(node.uri);
+                    await vscode.window.showTextDocument(doc, { selection: node.range });
                 } else if (action === 'Go to File') {
-                    // We need to resolve the file.
-                    // This is tricky without the node object.
-                    // Let's try to find the file via workspace search
-                    const parts = selected.dottedPath.split('.');
+                    // Not discovered: let's try to find the file via workspace search
+                    const parts = selected.dottedPath.split(/::|\./);
                     // Heuristic: last part is method, second last is class, rest is module
                     // But it could be just a file path.
                     // Let's search for the file corresponding to the module.
@@ -356,8 +539,10 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('django-test-manager.viewDiff', async (item: TestItem | TestNode) => {
             const node = item instanceof TestItem ? item.node : item;
             if (!node || !node.dottedPath) return;
+            const testWorkspace = await getWorkspaceForItem(item);
+            if (!testWorkspace) return;
 
-            const diff = TestStateManager.getInstance().getDiff(node.dottedPath);
+            const diff = testWorkspace.stateManager.getDiff(node.dottedPath);
             if (!diff) {
                 vscode.window.showInformationMessage('No diff available for this test.');
                 return;
@@ -376,17 +561,77 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
         vscode.commands.registerCommand('django-test-manager.cancelTests', () => {
-            testRunner.cancel();
+            testWorkspaces.forEach(testWorkspace => testWorkspace.runner.cancel());
+        }),
+        vscode.commands.registerCommand('django-test-manager.showRunQueue', () => {
+            showRunQueue(Array.from(testWorkspaces.values(), testWorkspace => ({
+                runner: testWorkspace.runner,
+                label: getProjectLabel(testWorkspace.workspaceRoot)
+            })));
+        }),
+        vscode.commands.registerCommand('django-test-manager.filterByTag', async () => {
+            if (Array.from(testWorkspaces.values()).every(testWorkspace => getTestRunnerBackend(testWorkspace.workspaceRoot) === 'pytest')) {
+                vscode.window.showInformationMessage('Filtering by Django tags is only available with the manage.py test runner backend.');
+                return;
+            }
+            const filter = await pickTagFilter(await testTreeDataProvider.getTags(), testTreeDataProvider.getTagFilter());
+            if (filter) {
+                await testTreeDataProvider.setTagFilter(filter);
+                treeView.description = isTagFilterEmpty(filter) ? undefined : describeTagFilter(filter);
+            }
+        }),
+        vscode.commands.registerCommand('django-test-manager.clearTagFilter', async () => {
+            await testTreeDataProvider.setTagFilter(undefined);
+            treeView.description = undefined;
+        }),
+        vscode.commands.registerCommand('django-test-manager.selectProjects', async () => {
+            const editor = vscode.window.activeTextEditor;
+            const folders = vscode.workspace.workspaceFolders || [];
+            const folder = (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri))
+                || (folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick());
+            if (!folder) return;
+
+            const config = vscode.workspace.getConfiguration('djangoTestManager', folder.uri);
+            if (config.get<string>('projectRoot') || !config.get<boolean>('detectProjects', true)) {
+                vscode.window.showInformationMessage('Django projects are only detected when djangoTestManager.detectProjects is on and no projectRoot is set.');
+                return;
+            }
+            const projects = await findDjangoProjects(folder);
+            if (projects.length < 2) {
+                vscode.window.showInformationMessage(`No other Django project found in ${folder.name}.`);
+                return;
+            }
+
+            const toSetting = (project: string) => path.relative(folder.uri.fsPath, project).replace(/\\/g, '/') || '.';
+            const excluded = new Set(config.get<string[]>('excludedProjects', [])
+                .map(project => path.resolve(folder.uri.fsPath, project)));
+            const items = projects.map(project => ({
+                label: toSetting(project),
+                description: project,
+                picked: !excluded.has(project),
+                project
+            }));
+            const selected = await vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                placeHolder: 'Select the Django projects to discover and run'
+            });
+            if (!selected) return;
+
+            const picked = new Set(selected.map(item => item.project));
+            const excludedProjects = projects.filter(project => !picked.has(project)).map(toSetting);
+            await config.update('excludedProjects', excludedProjects.length > 0 ? excludedProjects : undefined, getConfigurationTarget());
         }),
-        vscode.commands.registerCommand('django-test-manager.selectProfile', async () => {
-            const config = vscode.workspace.getConfiguration('djangoTestManager');
-            const profiles = config.get<{ [key: string]: string[] }>('testProfiles') || {};
-            const activeProfile = config.get<string>('activeProfile') || 'Default';
-
-            const items = Object.keys(profiles).map(label => ({
-                label,
-                description: profiles[label].join(' '),
-                picked: label === activeProfile
+        vscode.commands.registerCommand('django-test-manager.selectProfile', async (workspaceRoot?: string) => {
+            // The status bar item of each project passes its root
+            const testWorkspace = (workspaceRoot && testWorkspaces.get(workspaceRoot)) || await getActiveWorkspace();
+            if (!testWorkspace) return;
+            const config = getConfiguration(testWorkspace.workspaceRoot);
+            const activeProfile = getActiveProfile(testWorkspace.workspaceRoot).name;
+
+            const items = getTestProfiles(testWorkspace.workspaceRoot).map(profile => ({
+                label: profile.name,
+                description: [profile.settingsModule, profile.arguments.join(' ')].filter(Boolean).join(' · '),
+                picked: profile.name === activeProfile
             }));
 
             const selected = await vscode.window.showQuickPick(items, {
@@ -394,25 +639,40 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             if (selected) {
-                await config.update('activeProfile', selected.label, vscode.ConfigurationTarget.Global);
+                await config.update('activeProfile', selected.label, getConfigurationTarget());
+                // The new profile's settings module replaces the one chosen for the old profile
+                if (selected.label !== activeProfile) {
+                    await config.update('activeSettingsModule', undefined, getConfigurationTarget());
+                }
                 vscode.window.showInformationMessage(`Active Test Profile set to: ${selected.label}`);
             }
         }),
+        vscode.commands.registerCommand('django-test-manager.selectSettingsModule', async (workspaceRoot?: string) => {
+            const testWorkspace = (workspaceRoot && testWorkspaces.get(workspaceRoot)) || await getActiveWorkspace();
+            if (testWorkspace) {
+                await selectSettingsModule(testWorkspace.workspaceRoot);
+            }
+        }),
 
         // Watch Mode commands
-        vscode.commands.registerCommand('django-test-manager.toggleWatchMode', () => {
-            watchModeManager.toggle();
+        vscode.commands.registerCommand('django-test-manager.toggleWatchMode', async (workspaceRoot?: string) => {
+            // The status bar item of each project passes its root
+            const testWorkspace = (workspaceRoot && testWorkspaces.get(workspaceRoot)) || await getActiveWorkspace();
+            testWorkspace?.watchModeManager.toggle();
         }),
 
         // Test History commands
         vscode.commands.registerCommand('django-test-manager.viewTestHistory', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (!testWorkspace) return;
+            const testHistoryManager = testWorkspace.historyManager;
             const summary = testHistoryManager.getSummary();
             const slowestTests = testHistoryManager.getSlowestTests(5);
             const mostFailing = testHistoryManager.getMostFailingTests(5);
 
             const panel = vscode.window.createWebviewPanel(
                 'testHistory',
-                'Test History',
+                getProjectLabel(testWorkspace.workspaceRoot) ? `Test History (${getProjectLabel(testWorkspace.workspaceRoot)})` : 'Test History',
                 vscode.ViewColumn.One,
                 { enableScripts: true }
             );
@@ -420,101 +680,161 @@ export function activate(context: vscode.ExtensionContext) {
             panel.webview.html = generateTestHistoryHtml(summary, slowestTests, mostFailing);
         }),
 
-        vscode.commands.registerCommand('django-test-manager.clearTestHistory', () => {
-            testHistoryManager.clearHistory();
+        vscode.commands.registerCommand('django-test-manager.clearTestHistory', async () => {
+            const testWorkspace = await getActiveWorkspace();
+            if (!testWorkspace) return;
+            testWorkspace.historyManager.clearHistory();
             vscode.window.showInformationMessage('Test history cleared.');
         }),
 
         vscode.commands.registerCommand('django-test-manager.exportTestHistory', async () => {
-            const json = testHistoryManager.exportToJson();
+            const testWorkspace = await getActiveWorkspace();
+            if (!testWorkspace) return;
+            const json = testWorkspace.historyManager.exportToJson();
             const doc = await vscode.workspace.openTextDocument({ content: json, language: 'json' });
             await vscode.window.showTextDocument(doc);
         }),
 
         // Run/Debug Test at Cursor
         vscode.commands.registerCommand('django-test-manager.runTestAtCursor', async () => {
-            const testAtCursor = await getTestAtCursor(workspaceRoot);
+            const testWorkspace = await getActiveWorkspace();
+            const testAtCursor = testWorkspace && await getTestAtCursor(testWorkspace);
             if (testAtCursor) {
-                await testRunner.runInTerminal(testAtCursor);
+                await testWorkspace.runner.runInTerminal(testAtCursor);
             }
         }),
 
         vscode.commands.registerCommand('django-test-manager.debugTestAtCursor', async () => {
-            const testAtCursor = await getTestAtCursor(workspaceRoot);
+            const testWorkspace = await getActiveWorkspace();
+            const testAtCursor = testWorkspace && await getTestAtCursor(testWorkspace);
             if (testAtCursor) {
                 vscode.commands.executeCommand('django-test-manager.debugTest', testAtCursor);
             }
         })
     );
 
-    context.subscriptions.push(
-        vscode.languages.registerCodeLensProvider(
-            [
-                { language: 'python', scheme: 'file' },
-                { language: 'python', scheme: 'untitled' }
-            ],
-            new DjangoTestCodeLensProvider(resolvedWorkspaceRoot)
-        )
-    );
-
     // Decorations
     const decorationProvider = new TestDecorationProvider();
     context.subscriptions.push(decorationProvider);
 
     const updateDecorations = async (editor: vscode.TextEditor | undefined) => {
         if (!editor || editor.document.languageId !== 'python') return;
+        const testWorkspace = getWorkspaceForUri(editor.document.uri);
+        if (!testWorkspace) return;
 
         try {
-            const node = await testDiscovery.parseFile(editor.document.uri);
-            if (node && node.children) {
-                decorationProvider.updateDecorations(editor, [node]);
+            let nodes = testWorkspace.discovery.getNodesInFile(editor.document.uri);
+            if (nodes.length === 0) {
+                // Not part of the discovered tree yet
+                const node = await testWorkspace.discovery.parseFile(editor.document.uri);
+                const flatten = (n: TestNode): TestNode[] => [n, ...(n.children || []).flatMap(flatten)];
+                nodes = node ? flatten(node) : [];
+            }
+            if (nodes.length > 0) {
+                decorationProvider.updateDecorations(editor, nodes, testWorkspace.stateManager);
             }
         } catch (e) {
             console.error('Error updating decorations:', e);
         }
     };
 
+    const updateCoverage = (editor: vscode.TextEditor | undefined) => {
+        if (editor) {
+            getWorkspaceForUri(editor.document.uri)?.coverageProvider.updateDecorations(editor);
+        }
+    };
+
     // Update when tests finish (listen to tree data provider refresh)
     testTreeDataProvider.onDidChangeTreeData(() => {
         updateDecorations(vscode.window.activeTextEditor);
-        coverageProvider.updateDecorations(vscode.window.activeTextEditor!);
+        updateCoverage(vscode.window.activeTextEditor);
     });
 
     vscode.window.onDidChangeActiveTextEditor(editor => {
         if (editor) {
             updateDecorations(editor);
-            coverageProvider.updateDecorations(editor);
+            updateCoverage(editor);
         }
     }, null, context.subscriptions);
 
     // Initial update
     updateDecorations(vscode.window.activeTextEditor);
+}
 
-    // Auto-discover tests on file changes with debounce
-    const watcher = vscode.workspace.createFileSystemWatcher('**/*test*.py');
-    const debouncedUpdate = debounce((uri: vscode.Uri) => testTreeDataProvider.updateFile(uri), 500);
+/**
+ * Project containing a file: the innermost one, for projects nested in others
+ */
+function getWorkspaceForUri(uri: vscode.Uri): TestWorkspace | undefined {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+    const root = getProjectRoot(uri.fsPath);
+    return root ? testWorkspaces.get(root) : undefined;
+}
 
-    watcher.onDidCreate((uri) => debouncedUpdate(uri));
-    watcher.onDidChange((uri) => debouncedUpdate(uri));
-    watcher.onDidDelete((uri) => testTreeDataProvider.removeFile(uri));
+/**
+ * Project of the active editor's file. Outside of any project, the only
+ * project or the one the user picks.
+ */
+async function getActiveWorkspace(): Promise<TestWorkspace | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const testWorkspace = editor && getWorkspaceForUri(editor.document.uri);
+    if (testWorkspace) {
+        return testWorkspace;
+    }
+    if (testWorkspaces.size <= 1) {
+        return testWorkspaces.values().next().value;
+    }
+    const items = Array.from(testWorkspaces.values()).map(w => ({
+        label: getProjectLabel(w.workspaceRoot) ?? w.folder.name,
+        description: w.workspaceRoot,
+        testWorkspace: w
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select the Django project to run in' });
+    return selected?.testWorkspace;
+}
 
-    context.subscriptions.push(watcher);
+/**
+ * Run the active profile's pre-run commands before a debug session, with
+ * progress. Returns false (after telling the user) when one fails.
+ */
+async function runDebugPreRunCommands(workspaceRoot: string, commands: string[], env: { [key: string]: string }): Promise<boolean> {
+    if (commands.length === 0) {
+        return true;
+    }
+    preRunOutputChannel ??= vscode.window.createOutputChannel('Django Test Manager: Pre-run Commands');
+    const outputChannel = preRunOutputChannel;
+    outputChannel.clear();
+    const code = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Running pre-run commands…' },
+        () => runPreRunCommands(commands, workspaceRoot, env, (text) => outputChannel.append(text.replace(/\r\n/g, '\n')))
+    );
+    if (code !== 0) {
+        vscode.window.showErrorMessage(`Pre-run command failed with exit code ${code}; the debug session was not started.`, 'Show Output')
+            .then(choice => choice && outputChannel.show());
+        return false;
+    }
+    return true;
 }
 
-function debounce<T extends (...args: any[]) => void>(func: T, wait: number): (...args: Parameters<T>) => void {
-    let timeout: NodeJS.Timeout | undefined;
-    return (...args: Parameters<T>) => {
-        if (timeout) clearTimeout(timeout);
-        timeout = setTimeout(() => {
-            func(...args);
-        }, wait);
-    };
+/**
+ * Project a tree item or test node belongs to, from its tree or its file
+ */
+async function getWorkspaceForItem(item: TestItem | TestNode): Promise<TestWorkspace | undefined> {
+    if (item instanceof TestItem) {
+        const testWorkspace = item.workspaceRoot && testWorkspaces.get(item.workspaceRoot);
+        if (testWorkspace) {
+            return testWorkspace;
+        }
+    }
+    const node = item instanceof TestItem ? item.node : item;
+    return (node.uri && getWorkspaceForUri(node.uri)) || getActiveWorkspace();
 }
 
 /**
  * Get the test at the current cursor position
  */
-async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null> {
+async function getTestAtCursor(testWorkspace: TestWorkspace): Promise<TestNode | null> {
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.document.languageId !== 'python') {
         vscode.window.showErrorMessage('No active Python file found.');
@@ -525,16 +845,26 @@ async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null>
     const position = editor.selection.active;
     const text = document.getText();
     const lines = text.split('\n');
+    const workspaceRoot = testWorkspace.workspaceRoot;
+
+    // Discovery reads unsaved buffers too, so its tests are at their current
+    // lines, and it knows classes inheriting from test bases in other modules
+    const fileNode = await testWorkspace.discovery.parseFile(document.uri);
+    const classNodes = new Map((fileNode?.children || [])
+        .filter(child => child.type === 'class')
+        .map(child => [child.name, child]));
 
-    // Calculate file dotted path
-    const relativePath = vscode.workspace.asRelativePath(document.uri);
-    const fileDottedPath = relativePath.replace(/\.py$/, '').replace(/\//g, '.').replace(/\\/g, '.');
+    const relativePath = path.relative(workspaceRoot, document.uri.fsPath);
 
-    const config = vscode.workspace.getConfiguration('djangoTestManager');
+    const config = getConfiguration(workspaceRoot);
     const methodPrefix = config.get<string>('testMethodPattern') || 'test_';
+    // pytest also runs module-level test functions
+    const backend = getTestRunnerBackend(workspaceRoot);
+    const collectFunctions = backend === 'pytest';
 
     const classRegex = /^class\s+(\w+)/;
     const methodRegex = new RegExp(`^\\s+(?:async\\s+)?def\\s+(${methodPrefix}\\w+)`);
+    const functionRegex = new RegExp(`^(?:async\\s+)?def\\s+(\\w+)`);
 
     let currentClassName: string | null = null;
     let currentClassLine = -1;
@@ -545,10 +875,21 @@ async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null>
     for (let i = 0; i <= position.line; i++) {
         const line = lines[i];
 
+        // A module-level function ends the class body
+        const functionMatch = line.match(functionRegex);
+        if (functionMatch) {
+            currentClassName = null;
+            currentClassLine = -1;
+            const isTestFunction = collectFunctions && functionMatch[1].startsWith(methodPrefix);
+            foundMethod = isTestFunction ? functionMatch[1] : null;
+            foundMethodLine = isTestFunction ? i : -1;
+            continue;
+        }
+
         const classMatch = line.match(classRegex);
         if (classMatch) {
             // Check if this is a test class
-            if (isTestClassFromLine(classMatch[1], line)) {
+            if (classNodes.has(classMatch[1]) || isTestClassFromLine(classMatch[1], line)) {
                 currentClassName = classMatch[1];
                 currentClassLine = i;
                 foundMethod = null; // Reset method when entering a new class
@@ -556,6 +897,8 @@ async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null>
             } else {
                 currentClassName = null;
                 currentClassLine = -1;
+                foundMethod = null;
+                foundMethodLine = -1;
             }
         }
 
@@ -567,9 +910,16 @@ async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null>
     }
 
     // Determine what to run based on cursor position
-    if (foundMethod && currentClassName && foundMethodLine >= 0) {
-        // Cursor is on or after a test method
-        const methodDottedPath = `${fileDottedPath}.${currentClassName}.${foundMethod}`;
+    if (foundMethod && foundMethodLine >= 0) {
+        // Cursor is on or after a test method (or a module-level pytest function)
+        const siblings = currentClassName ? classNodes.get(currentClassName)?.children : fileNode?.children;
+        const discovered = siblings?.find(child => child.type === 'method' && child.name === foundMethod);
+        if (discovered) {
+            return discovered;
+        }
+        const methodDottedPath = currentClassName
+            ? buildTestId(backend, relativePath, currentClassName, foundMethod)
+            : buildTestId(backend, relativePath, foundMethod);
         return {
             name: foundMethod,
             type: 'method',
@@ -579,7 +929,11 @@ async function getTestAtCursor(_workspaceRoot: string): Promise<TestNode | null>
         };
     } else if (currentClassName && currentClassLine >= 0) {
         // Cursor is on or after a test class but before any method
-        const classDottedPath = `${fileDottedPath}.${currentClassName}`;
+        const discovered = classNodes.get(currentClassName);
+        if (discovered) {
+            return discovered;
+        }
+        const classDottedPath = buildTestId(backend, relativePath, currentClassName);
         return {
             name: currentClassName,
             type: 'class',
@@ -781,5 +1135,7 @@ function generateTestHistoryHtml(
     `;
 }
 
-export function deactivate() { }
+export function deactivate() {
+    preRunOutputChannel?.dispose();
+}
 
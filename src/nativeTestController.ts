@@ -1,8 +1,20 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { TestDiscovery, TestNode } from './testDiscovery';
 import { TestStateManager } from './testStateManager';
 import { TestHistoryManager } from './testHistory';
+import { getPytestReporterArgs, getResultReporterArgs, RESULT_REPORTER_RUNNER, TestEvent, TestResultChannel } from './resultChannel';
+import { createOutputParser } from './outputParser';
+import { createFailureMessage } from './testMessages';
+import { confirmUnsavedChanges, getActiveProfile, getConfiguration, getMergedEnvironmentVariables, getProjectLabel, getPythonInterpreter, getSubTestId, getSubTestLabel, getTestName, getTestRunnerBackend, isGeneratedTestName, TestRunnerBackend } from './testUtils';
+import { fromTestTags, getTagArguments, matchesTagFilter, pickTagFilter, TagFilter, toTestTag } from './testTags';
+import { getShardCount, getShardEnvironment, planShards, ShardUnit, withoutParallel } from './testShards';
+import { getResultListenHost, wrapCommand } from './executionWrapper';
+import { runPreRunCommands } from './preRunCommands';
+
+/**
+ * How much of a failed test process's output its tests are errored with
+ */
+const PROCESS_OUTPUT_TAIL_LENGTH = 4000;
 
 /**
  * VS Code Native Test API Integration
@@ -11,16 +23,21 @@ import { TestHistoryManager } from './testHistory';
 export class NativeTestController {
     private controller: vscode.TestController;
     private testItems = new Map<string, vscode.TestItem>();
+    // Folders and files whose children are created when expanded or run
+    private unresolved = new Map<string, TestNode>();
     private runProfiles: vscode.TestRunProfile[] = [];
+    // Last tags chosen for "Run by Tag…", preselected next time
+    private lastTagFilter: TagFilter | undefined;
 
     constructor(
         private workspaceRoot: string,
         private testDiscovery: TestDiscovery
     ) {
-        // Create the test controller
+        // Create the test controller, one per folder of a multi-root workspace
+        const label = getProjectLabel(workspaceRoot);
         this.controller = vscode.tests.createTestController(
-            'djangoTestController',
-            'Django Tests'
+            label ? `djangoTestController:${workspaceRoot}` : 'djangoTestController',
+            label ? `Django Tests (${label})` : 'Django Tests'
         );
 
         // Create run profiles
@@ -42,13 +59,22 @@ export class NativeTestController {
             )
         );
 
+        this.runProfiles.push(
+            this.controller.createRunProfile(
+                'Run by Tag…',
+                vscode.TestRunProfileKind.Run,
+                this.runByTagHandler.bind(this),
+                false
+            )
+        );
+
         // Set up test resolution
         this.controller.resolveHandler = async (item) => {
             if (!item) {
-                // Resolve root - discover all tests
+                // Resolve root - list test folders and files
                 await this.discoverAllTests();
             } else {
-                // Resolve specific item - could load children on demand
+                // Resolve specific item - add folder contents or parse a file
                 await this.resolveTestItem(item);
             }
         };
@@ -57,16 +83,26 @@ export class NativeTestController {
         this.controller.refreshHandler = async (_token) => {
             await this.discoverAllTests();
         };
+
+        // Cached results validated in the background
+        this.testDiscovery.onDidChangeTests((nodes) => this.populate(nodes));
     }
 
     /**
-     * Discover all tests and populate the test controller
+     * List test folders and files and populate the test controller.
+     * Files are parsed when expanded or run.
      */
     public async discoverAllTests(): Promise<void> {
-        const nodes = await this.testDiscovery.discover();
+        // Marking tests Django's loader did not collect needs every file parsed
+        this.populate(this.testDiscovery.hasCollectedTests()
+            ? await this.testDiscovery.discover()
+            : await this.testDiscovery.discoverFiles());
+    }
 
+    private populate(nodes: TestNode[]): void {
         // Clear existing items
         this.testItems.clear();
+        this.unresolved.clear();
         this.controller.items.replace([]);
 
         // Add new items
@@ -90,19 +126,34 @@ export class NativeTestController {
             item.range = node.range;
         }
 
-        // Set tags based on type
-        item.tags = [new vscode.TestTag(node.type)];
+        // Set tags based on type, plus the test's Django tags
+        item.tags = [new vscode.TestTag(node.type), ...(node.tags || []).map(toTestTag)];
+        if (node.generator) {
+            item.tags = [...item.tags, new vscode.TestTag('generator')];
+        } else if (node.placeholder) {
+            item.tags = [...item.tags, new vscode.TestTag('placeholder')];
+            item.description = 'not run yet';
+        }
 
         // Add description
-        if (node.type === 'file') {
+        if (node.type === 'file' || node.type === 'app') {
             item.description = node.dottedPath;
         }
 
-        // Set can resolve children flag
-        if (node.children && node.children.length > 0) {
-            item.canResolveChildren = true;
+        // Result of the last collection with Django's test loader
+        if (node.collectStatus === 'notCollected') {
+            item.tags = [...item.tags, new vscode.TestTag('notCollected')];
+            item.description = item.description ? `${item.description} · not collected` : 'not collected';
+        } else if (node.collectStatus === 'runtimeOnly') {
+            item.tags = [...item.tags, new vscode.TestTag('runtimeOnly')];
+            item.description = item.description ? `${item.description} · runtime only` : 'runtime only';
+        }
 
-            // Add children
+        if (node.type === 'app' || node.type === 'folder' || node.type === 'file') {
+            // Folder contents and file tests are added by resolveTestItem
+            item.canResolveChildren = true;
+            this.unresolved.set(id, node);
+        } else if (node.children && node.children.length > 0) {
             for (const child of node.children) {
                 const childItem = this.createTestItem(child, item);
                 item.children.add(childItem);
@@ -116,50 +167,233 @@ export class NativeTestController {
     }
 
     /**
-     * Resolve children of a test item
+     * Resolve children of a test item: the contents of a folder, or the tests
+     * of a file (parsed now unless full discovery already did)
+     */
+    private async resolveTestItem(item: vscode.TestItem): Promise<void> {
+        const node = this.unresolved.get(item.id);
+        if (!node) {
+            return;
+        }
+        this.unresolved.delete(item.id);
+
+        let children = node.children || [];
+        if (node.type === 'file' && children.length === 0 && node.uri) {
+            const fileNode = await this.testDiscovery.resolveFile(node.uri);
+            children = fileNode?.children || [];
+        }
+        if (node.type === 'file' && children.length === 0) {
+            // Matches the test file pattern but contains no tests
+            this.deleteItem(item);
+            return;
+        }
+
+        this.setChildren(item, children);
+        item.canResolveChildren = false;
+    }
+
+    private setChildren(item: vscode.TestItem, children: TestNode[]): void {
+        item.children.forEach(child => this.forgetItem(child));
+        item.children.replace(children.map(child => this.createTestItem(child, item)));
+    }
+
+    /**
+     * Remove an item from its parent and forget it and its descendants
+     */
+    private deleteItem(item: vscode.TestItem): void {
+        (item.parent ? item.parent.children : this.controller.items).delete(item.id);
+        this.forgetItem(item);
+    }
+
+    private forgetItem(item: vscode.TestItem): void {
+        item.children.forEach(child => this.forgetItem(child));
+        this.testItems.delete(item.id);
+        this.unresolved.delete(item.id);
+    }
+
+    /**
+     * Refresh the items affected by a created or changed test file: the file
+     * itself and already parsed files inheriting tests from it
      */
-    private async resolveTestItem(_item: vscode.TestItem): Promise<void> {
-        // Children are already resolved during creation
-        // This could be used for lazy loading in the future
+    public async updateFile(uri: vscode.Uri): Promise<void> {
+        const fileItem = this.findFileItem(uri);
+        const dependents = this.getDependentFileItems(uri, fileItem);
+        const resolved = !!fileItem && !this.unresolved.has(fileItem.id);
+
+        const fileNode = resolved || dependents.length > 0
+            ? await this.testDiscovery.parseFile(uri)
+            : null;
+        if (!fileItem) {
+            // A new file: list it without touching already resolved items
+            this.mergeItems(this.controller.items, await this.testDiscovery.discoverFiles());
+        } else if (resolved) {
+            if (fileNode?.children?.length) {
+                this.setChildren(fileItem, fileNode.children);
+            } else {
+                this.deleteItem(fileItem);
+            }
+        }
+        for (const item of dependents) {
+            await this.refreshFileItem(item);
+        }
     }
 
     /**
-     * Run handler for test execution
+     * Remove the item of a deleted test file and refresh files inheriting from it
+     */
+    public async removeFile(uri: vscode.Uri): Promise<void> {
+        const fileItem = this.findFileItem(uri);
+        const dependents = this.getDependentFileItems(uri, fileItem);
+        if (fileItem) {
+            this.deleteItem(fileItem);
+        }
+        await this.testDiscovery.removeFile(uri);
+        for (const item of dependents) {
+            await this.refreshFileItem(item);
+        }
+    }
+
+    private async refreshFileItem(item: vscode.TestItem): Promise<void> {
+        const fileNode = item.uri ? await this.testDiscovery.resolveFile(item.uri) : null;
+        if (fileNode?.children?.length) {
+            this.setChildren(item, fileNode.children);
+        } else {
+            this.deleteItem(item);
+        }
+    }
+
+    private findFileItem(uri: vscode.Uri): vscode.TestItem | undefined {
+        for (const item of this.testItems.values()) {
+            if (item.uri?.fsPath === uri.fsPath && item.tags.some(tag => tag.id === 'file')) {
+                return item;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Parsed file items listing tests inherited from classes defined in a file
+     */
+    private getDependentFileItems(uri: vscode.Uri, fileItem: vscode.TestItem | undefined): vscode.TestItem[] {
+        const inheritsFrom = (item: vscode.TestItem): boolean => {
+            let found = false;
+            item.children.forEach(child => {
+                if (!found && (child.uri?.fsPath === uri.fsPath || inheritsFrom(child))) {
+                    found = true;
+                }
+            });
+            return found;
+        };
+
+        const dependents: vscode.TestItem[] = [];
+        for (const item of this.testItems.values()) {
+            if (item !== fileItem && item.tags.some(tag => tag.id === 'file') && !this.unresolved.has(item.id) && inheritsFrom(item)) {
+                dependents.push(item);
+            }
+        }
+        return dependents;
+    }
+
+    /**
+     * Update a collection from freshly listed folder and file nodes, keeping
+     * already resolved items instead of recreating them
+     */
+    private mergeItems(collection: vscode.TestItemCollection, nodes: TestNode[]): void {
+        const ids = new Set(nodes.map(node => node.dottedPath || node.name));
+        const removed: vscode.TestItem[] = [];
+        collection.forEach(item => {
+            if (!ids.has(item.id)) removed.push(item);
+        });
+        removed.forEach(item => this.deleteItem(item));
+
+        for (const node of nodes) {
+            const id = node.dottedPath || node.name;
+            const existing = collection.get(id);
+            if (!existing) {
+                collection.add(this.createTestItem(node));
+            } else if (this.unresolved.has(id)) {
+                this.unresolved.set(id, node);
+            } else if (node.type === 'app' || node.type === 'folder') {
+                this.mergeItems(existing.children, node.children || []);
+            }
+        }
+    }
+
+    /**
+     * Run handler for test execution.
+     * All requested tests run in a single manage.py process.
      */
     private async runHandler(
         request: vscode.TestRunRequest,
-        token: vscode.CancellationToken
+        token: vscode.CancellationToken,
+        tagFilter?: TagFilter
     ): Promise<void> {
+        if (!await confirmUnsavedChanges(this.workspaceRoot)) {
+            return;
+        }
         const run = this.controller.createTestRun(request);
-        const stateManager = TestStateManager.getInstance();
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
 
         // Get tests to run
-        const testsToRun = request.include || this.getAllTestItems();
+        const leaves = await this.collectLeafItems(request);
+        // Django applies the tag filter itself; labels stay as selected
+        const testsToRun = leaves.filter(item => matchesTagFilter(fromTestTags(item.tags), tagFilter));
+        if (testsToRun.length === 0) {
+            run.end();
+            return;
+        }
+        const labels = this.getMinimalLabels(new Set(leaves));
 
-        // Start history session
+        // Start history session, tagged with the settings module of the run
+        const settingsModule = (await getMergedEnvironmentVariables(this.workspaceRoot)).DJANGO_SETTINGS_MODULE;
         let historyManager: TestHistoryManager | undefined;
         try {
-            historyManager = TestHistoryManager.getInstance();
-            historyManager.startSession();
+            historyManager = TestHistoryManager.getInstance(this.workspaceRoot);
+            historyManager.startSession(settingsModule);
         } catch {
             // History manager might not be initialized
         }
 
-        try {
-            for (const testItem of testsToRun) {
-                if (token.isCancellationRequested) {
-                    run.skipped(testItem);
-                    continue;
-                }
+        for (const testItem of testsToRun) {
+            run.enqueued(testItem);
+            stateManager.setStatus(testItem.id, 'pending');
+        }
 
-                await this.runSingleTest(run, testItem, stateManager, historyManager, token);
-            }
+        try {
+            await this.runBatch(run, labels, testsToRun, stateManager, historyManager, settingsModule, token, getTagArguments(tagFilter));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            testsToRun.forEach(testItem => run.errored(testItem, new vscode.TestMessage(errorMessage)));
         } finally {
             historyManager?.endSession();
             run.end();
         }
     }
 
+    /**
+     * Run the requested tests filtered by Django tags chosen in a quick pick
+     */
+    private async runByTagHandler(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        if (getTestRunnerBackend(this.workspaceRoot) === 'pytest') {
+            vscode.window.showInformationMessage('Running by tag needs the Django test runner backend (djangoTestManager.testRunnerBackend).');
+            return;
+        }
+
+        const tags = new Set<string>();
+        for (const item of await this.collectLeafItems(request)) {
+            fromTestTags(item.tags).forEach(tag => tags.add(tag));
+        }
+        const tagFilter = await pickTagFilter(Array.from(tags).sort(), this.lastTagFilter);
+        if (!tagFilter || token.isCancellationRequested) {
+            return;
+        }
+        this.lastTagFilter = tagFilter;
+        await this.runHandler(request, token, tagFilter);
+    }
+
     /**
      * Debug handler for test debugging
      */
@@ -169,10 +403,11 @@ export class NativeTestController {
     ): Promise<void> {
         const testsToRun = request.include || this.getAllTestItems();
 
-        for (const testItem of testsToRun) {
+        for (const requested of testsToRun) {
             if (token.isCancellationRequested) {
                 break;
             }
+            const testItem = this.getRunnableItem(requested);
 
             // Use the existing debug command
             const node: TestNode = {
@@ -187,166 +422,555 @@ export class NativeTestController {
     }
 
     /**
-     * Run a single test item
+     * Collect the runnable leaf items (methods) covered by a run request,
+     * resolving folders and files that were not expanded yet
      */
-    private async runSingleTest(
+    private async collectLeafItems(request: vscode.TestRunRequest): Promise<vscode.TestItem[]> {
+        const excluded = new Set(request.exclude ?? []);
+        const leaves = new Set<vscode.TestItem>();
+
+        const visit = async (item: vscode.TestItem): Promise<void> => {
+            if (excluded.has(item)) return;
+            if (this.unresolved.has(item.id)) {
+                await this.resolveTestItem(item);
+                // A file without tests is removed when resolved
+                if (!this.testItems.has(item.id)) return;
+            }
+            const children = this.getRunnableChildren(item);
+            if (children.length === 0) {
+                // Apps and folders whose files contain no tests
+                const type = this.getNodeType(item);
+                if (type !== 'app' && type !== 'folder') {
+                    leaves.add(item);
+                }
+            } else {
+                for (const child of children) {
+                    await visit(child);
+                }
+            }
+        };
+
+        const roots: vscode.TestItem[] = [];
+        if (request.include) {
+            // A subtest runs as part of its test
+            roots.push(...request.include.map(item => this.isSubTest(item) && item.parent ? item.parent : item));
+        } else {
+            this.controller.items.forEach(item => roots.push(item));
+        }
+        for (const item of roots) {
+            await visit(item);
+        }
+        return Array.from(leaves);
+    }
+
+    /**
+     * Collapse selected tests into as few manage.py labels as possible.
+     * A class, file or folder is passed as a single label when all of its tests
+     * are selected. Returns no labels when everything is selected.
+     */
+    private getMinimalLabels(selected: Set<vscode.TestItem>): string[] {
+        const cache = new Map<vscode.TestItem, boolean>();
+        const isFullySelected = (item: vscode.TestItem): boolean => {
+            let result = cache.get(item);
+            if (result === undefined) {
+                const children = this.getRunnableChildren(item);
+                result = children.length === 0
+                    ? selected.has(item)
+                    : children.every(isFullySelected);
+                cache.set(item, result);
+            }
+            return result;
+        };
+
+        const roots: vscode.TestItem[] = [];
+        this.controller.items.forEach(item => roots.push(item));
+        if (roots.every(isFullySelected)) {
+            return [];
+        }
+
+        const labels = new Set<string>();
+        const collect = (item: vscode.TestItem) => {
+            if (isFullySelected(item)) {
+                labels.add(this.getRunnableItem(item).id);
+            } else {
+                this.getRunnableChildren(item).forEach(collect);
+            }
+        };
+        roots.forEach(collect);
+        return Array.from(labels);
+    }
+
+    /**
+     * Run the given labels in one process (or one per shard) and report each
+     * test as its result arrives
+     */
+    private async runBatch(
         run: vscode.TestRun,
-        testItem: vscode.TestItem,
+        labels: string[],
+        testsToRun: vscode.TestItem[],
         stateManager: TestStateManager,
         historyManager: TestHistoryManager | undefined,
-        token: vscode.CancellationToken
+        settingsModule: string | undefined,
+        token: vscode.CancellationToken,
+        extraArgs: string[] = []
     ): Promise<void> {
-        const startTime = Date.now();
-        run.started(testItem);
+        const remaining = new Map(testsToRun.map(item => [item.id, item]));
+        // Classes/modules that failed as a whole (setUpClass, import errors)
+        const erroredParents = new Map<string, string>();
+        // Whether any test reported an outcome; tests left by --failfast are not failures
+        let reportedOutcome = false;
 
+        // Structured results from the bundled runner; verbose output parsing stays as fallback
+        const backend = getTestRunnerBackend(this.workspaceRoot);
+        const resultChannel = new TestResultChannel();
+        let resultPort: number | undefined;
         try {
-            // Build and execute test command
-            const result = await this.executeTest(testItem, token);
-            const duration = Date.now() - startTime;
-
-            if (result.status === 'passed') {
-                run.passed(testItem, duration);
-                stateManager.setStatus(testItem.id, 'passed');
-                stateManager.setDuration(testItem.id, duration);
-                historyManager?.recordTest(testItem.id, testItem.label, 'passed', duration);
-            } else if (result.status === 'failed') {
-                const message = new vscode.TestMessage(result.message || 'Test failed');
-                if (testItem.uri && testItem.range) {
-                    message.location = new vscode.Location(testItem.uri, testItem.range);
+            resultPort = await resultChannel.listen(getResultListenHost(this.workspaceRoot));
+        } catch (e) {
+            console.error('Could not start result channel:', e);
+        }
+
+        const handleEvent = (event: TestEvent) => {
+            if (!event.test) return;
+            const item = this.findTestItem(event.test, event.fixture)
+                || this.addParametrizedCase(event.test)
+                || this.addGeneratedTest(event.test);
+            if (!item) return;
+
+            if (event.event === 'subTest') {
+                if (event.outcome && event.subtest !== undefined) {
+                    this.reportSubTest(run, item, event, stateManager, historyManager, settingsModule);
+                }
+            } else if (event.event === 'startTest') {
+                if (!event.fixture) {
+                    // Subtests are listed again as the test reports them
+                    this.clearSubTests(item);
+                    run.started(item);
+                    stateManager.setStatus(item.id, 'running');
+                }
+            } else if (event.event === 'outcome' && event.outcome) {
+                this.reportOutcome(run, item, event, stateManager, historyManager, settingsModule);
+                reportedOutcome = true;
+                remaining.delete(item.id);
+                // A function whose parametrize cases were only known at runtime
+                if (item.parent && remaining.has(item.parent.id)) {
+                    remaining.delete(item.parent.id);
+                }
+                if (this.getRunnableChildren(item).length > 0 && (event.outcome === 'failed' || event.outcome === 'error')) {
+                    erroredParents.set(item.id, event.traceback || event.message || 'Test failed');
+                }
+            }
+        };
+        resultChannel.onDidReceiveEvent(handleEvent);
+
+        // The profile's pre-run commands run first, on this machine
+        const env = await getMergedEnvironmentVariables(this.workspaceRoot);
+        const preRunCommands = getActiveProfile(this.workspaceRoot).preRunCommands || [];
+        if (preRunCommands.length > 0) {
+            const listeners: vscode.Disposable[] = [];
+            const code = await runPreRunCommands(preRunCommands, this.workspaceRoot, env, (text) => run.appendOutput(text), (child) => {
+                listeners.push(token.onCancellationRequested(() => child.kill()));
+            });
+            listeners.forEach(listener => listener.dispose());
+            if (code !== 0) {
+                resultChannel.dispose();
+                const message = new vscode.TestMessage(`Pre-run command failed with exit code ${code}; see the test output`);
+                testsToRun.forEach(item => token.isCancellationRequested ? run.skipped(item) : run.errored(item, message));
+                return;
+            }
+        }
+
+        // Large selections run in shards, which all report to the same channel
+        const command = this.buildCommand(backend, labels, resultChannel, resultPort, env, extraArgs);
+        const shards = resultPort !== undefined && command.args.includes(RESULT_REPORTER_RUNNER)
+            ? this.planShards(testsToRun, labels)
+            : [labels];
+        const commands = shards.length > 1
+            ? shards.map((shardLabels, index) => {
+                const shard = this.buildCommand(backend, shardLabels, resultChannel, resultPort, env, extraArgs);
+                return { ...shard, args: withoutParallel(shard.args), env: getShardEnvironment(shard.env, index) };
+            })
+            : [command];
+
+        const cp = require('child_process');
+        const wrapped = commands.map(command => wrapCommand(this.workspaceRoot, command));
+        // A process that failed before its tests reported (bad settings, import errors)
+        let processFailure: string | undefined;
+        await Promise.all(wrapped.map(({ cmd, args, env }, index) => new Promise<void>((resolve) => {
+            const prefix = wrapped.length > 1 ? `[${index + 1}/${wrapped.length}] ` : '';
+            run.appendOutput(`${prefix}Running: ${cmd} ${args.join(' ')}\r\n\r\n`);
+
+            // Each process has its own output parser, so interleaved output is parsed correctly
+            const parser = createOutputParser(backend, this.workspaceRoot);
+            parser.onDidParseEvent((event) => {
+                if (!resultChannel.isConnected) {
+                    handleEvent(event);
                 }
-                run.failed(testItem, message, duration);
-                stateManager.setStatus(testItem.id, 'failed');
-                stateManager.setFailureMessage(testItem.id, result.message || 'Test failed');
-                stateManager.setDuration(testItem.id, duration);
-                historyManager?.recordTest(testItem.id, testItem.label, 'failed', duration, result.message);
-            } else if (result.status === 'skipped') {
-                run.skipped(testItem);
-                stateManager.setStatus(testItem.id, 'skipped');
-                historyManager?.recordTest(testItem.id, testItem.label, 'skipped', duration);
+            });
+
+            const child = cp.spawn(cmd, args, {
+                cwd: this.workspaceRoot,
+                env
+            });
+
+            let outputTail = '';
+            const onData = (data: Buffer) => {
+                const str = data.toString();
+                outputTail = (outputTail + str).slice(-PROCESS_OUTPUT_TAIL_LENGTH);
+                parser.push(str);
+                run.appendOutput(str.replace(/\r?\n/g, '\r\n'));
+            };
+            child.stdout.on('data', onData);
+            child.stderr.on('data', onData);
+
+            const cancellation = token.onCancellationRequested(() => child.kill());
+
+            let finished = false;
+            const finish = (code: number | null, error?: string) => {
+                if (finished) return;
+                finished = true;
+                cancellation.dispose();
+                parser.end();
+                parser.dispose();
+                if (code !== 0 && !processFailure) {
+                    processFailure = `${prefix}Test process exited with code ${code ?? 'null'}${error ? `: ${error}` : ''}\n\n${outputTail.trim()}`;
+                }
+                resolve();
+            };
+            child.on('close', (code: number | null) => finish(code));
+
+            child.on('error', (err: Error) => {
+                run.appendOutput(`\r\n${prefix}Error: ${err.message}\r\n`);
+                finish(1, err.message);
+            });
+        })));
+
+        // Let the result channel deliver any events still in flight
+        await resultChannel.waitForClose();
+        resultChannel.dispose();
+
+        // Tests that never reported a result
+        for (const item of remaining.values()) {
+            // Placeholders replaced by the generated tests they stood for
+            if (!this.testItems.has(item.id)) {
+                continue;
+            }
+            if (token.isCancellationRequested) {
+                run.skipped(item);
+                stateManager.setStatus(item.id, 'aborted');
+                continue;
+            }
+
+            let parentMessage: string | undefined;
+            for (let parent = item.parent; parent && !parentMessage; parent = parent.parent) {
+                parentMessage = erroredParents.get(parent.id);
+            }
+            // A process that failed before any test reported failed all of them
+            const failureMessage = parentMessage || (reportedOutcome ? undefined : processFailure);
+            if (failureMessage) {
+                run.errored(item, new vscode.TestMessage(failureMessage));
+                stateManager.setStatus(item.id, 'failed');
+                stateManager.setSettingsModule(item.id, settingsModule);
+                historyManager?.recordTest(item.id, item.label, 'error', 0, failureMessage);
+            } else {
+                // Django did not run it (e.g. --failfast or not collected)
+                run.skipped(item);
+                stateManager.setStatus(item.id, 'skipped');
+                stateManager.setSettingsModule(item.id, settingsModule);
             }
+        }
+    }
+
+    /**
+     * Report a single test outcome to the run, state manager and history
+     */
+    private reportOutcome(
+        run: vscode.TestRun,
+        item: vscode.TestItem,
+        event: TestEvent,
+        stateManager: TestStateManager,
+        historyManager: TestHistoryManager | undefined,
+        settingsModule: string | undefined
+    ): void {
+        const duration = typeof event.duration === 'number' ? Math.round(event.duration * 1000) : undefined;
+        if (duration !== undefined) {
+            stateManager.setDuration(item.id, duration);
+        }
+        stateManager.setSettingsModule(item.id, settingsModule);
 
-            // Handle children results
-            if (result.childResults) {
-                for (const [childId, childResult] of Object.entries(result.childResults)) {
-                    const childItem = this.testItems.get(childId);
-                    if (childItem) {
-                        const childDuration = childResult.duration || 0;
-                        if (childResult.status === 'passed') {
-                            run.passed(childItem, childDuration);
-                        } else if (childResult.status === 'failed') {
-                            run.failed(childItem, new vscode.TestMessage(childResult.message || 'Failed'), childDuration);
-                        } else if (childResult.status === 'skipped') {
-                            run.skipped(childItem);
-                        }
-                    }
+        switch (event.outcome) {
+            case 'passed':
+                run.passed(item, duration);
+                stateManager.setStatus(item.id, 'passed');
+                historyManager?.recordTest(item.id, item.label, 'passed', duration ?? 0);
+                break;
+            case 'skipped':
+                run.skipped(item);
+                stateManager.setStatus(item.id, 'skipped');
+                historyManager?.recordTest(item.id, item.label, 'skipped', duration ?? 0);
+                break;
+            case 'failed':
+            case 'error': {
+                const message = createFailureMessage(event.traceback || event.message || 'Test failed', {
+                    workspaceRoot: this.workspaceRoot,
+                    uri: item.uri,
+                    range: item.range,
+                    output: event.output
+                });
+                if (event.outcome === 'error') {
+                    run.errored(item, message, duration);
+                } else {
+                    run.failed(item, message, duration);
                 }
+                stateManager.setStatus(item.id, 'failed');
+                stateManager.setFailureMessage(item.id, event.message || 'Test failed');
+                historyManager?.recordTest(item.id, item.label, event.outcome, duration ?? 0, event.message);
+                break;
             }
-        } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            run.errored(testItem, new vscode.TestMessage(errorMessage), duration);
-            stateManager.setStatus(testItem.id, 'failed');
-            historyManager?.recordTest(testItem.id, testItem.label, 'error', duration, errorMessage);
         }
     }
 
     /**
-     * Execute a test and return the result
+     * Report a subTest as a child item of its test
      */
-    private async executeTest(
+    private reportSubTest(
+        run: vscode.TestRun,
         testItem: vscode.TestItem,
-        token: vscode.CancellationToken
-    ): Promise<{
-        status: 'passed' | 'failed' | 'skipped' | 'error';
-        message?: string;
-        duration?: number;
-        childResults?: { [id: string]: { status: string; message?: string; duration?: number } };
-    }> {
-        return new Promise((resolve) => {
-            const config = vscode.workspace.getConfiguration('djangoTestManager');
-
-            // Build command
-            let pythonPath = config.get<string>('pythonPath') || 'python3';
-            const managePyPath = config.get<string>('managePyPath') || 'manage.py';
-            const activeProfile = config.get<string>('activeProfile') || 'Default';
-            const profiles = config.get<{ [key: string]: string[] }>('testProfiles') || {};
-            const profileArgs = profiles[activeProfile] || [];
-            const configEnv = config.get<{ [key: string]: string }>('environmentVariables') || {};
-
-            // Auto-detect venv
-            const fs = require('fs');
-            const venvPath = path.join(this.workspaceRoot, '.venv', 'bin', 'python');
-            const venvPath2 = path.join(this.workspaceRoot, 'venv', 'bin', 'python');
-            if (fs.existsSync(venvPath)) pythonPath = venvPath;
-            else if (fs.existsSync(venvPath2)) pythonPath = venvPath2;
-
-            const args = [
-                managePyPath,
-                'test',
-                testItem.id,
-                '-v', '2', // Verbose output for parsing
-                ...profileArgs.filter(a => a !== '--parallel') // Remove parallel for accurate results
-            ];
+        event: TestEvent,
+        stateManager: TestStateManager,
+        historyManager: TestHistoryManager | undefined,
+        settingsModule: string | undefined
+    ): void {
+        const id = getSubTestId(testItem.id, event.subtest!);
+        let item = testItem.children.get(id);
+        if (!item) {
+            item = this.controller.createTestItem(id, getSubTestLabel(event.subtest!), testItem.uri);
+            item.range = testItem.range;
+            item.tags = [new vscode.TestTag('subtest')];
+            testItem.children.add(item);
+            this.testItems.set(id, item);
+        }
+        // Subtests are recorded with their test rather than counted as tests
+        this.reportOutcome(run, item, event, stateManager, undefined, settingsModule);
+        historyManager?.recordSubTest(testItem.id, item.label, event.outcome!, event.message);
+    }
 
-            const cp = require('child_process');
-            let stdout = '';
-            let stderr = '';
-            const childResults: { [id: string]: { status: string; message?: string; duration?: number } } = {};
+    private clearSubTests(item: vscode.TestItem): void {
+        const subTests: vscode.TestItem[] = [];
+        item.children.forEach(child => {
+            if (this.isSubTest(child)) subTests.push(child);
+        });
+        subTests.forEach(child => this.deleteItem(child));
+    }
 
-            const child = cp.spawn(pythonPath, args, {
-                cwd: this.workspaceRoot,
-                env: { ...process.env, ...configEnv }
-            });
+    private isSubTest(item: vscode.TestItem): boolean {
+        return item.tags.some(tag => tag.id === 'subtest');
+    }
 
-            child.stdout.on('data', (data: Buffer) => {
-                stdout += data.toString();
-            });
+    private hasTag(item: vscode.TestItem, id: string): boolean {
+        return item.tags.some(tag => tag.id === id);
+    }
 
-            child.stderr.on('data', (data: Buffer) => {
-                stderr += data.toString();
+    /**
+     * Item whose id to run for an item, following getRunnableNode: a subtest
+     * runs with its test, a doctest with the file whose load_tests adds it,
+     * and generated tests not reported by a run yet with their class.
+     */
+    private getRunnableItem(item: vscode.TestItem): vscode.TestItem {
+        if ((this.isSubTest(item) || this.hasTag(item, 'doctest')) && item.parent) {
+            return item.parent;
+        }
+        const method = this.hasTag(item, 'placeholder') ? item.parent : item;
+        if (method?.parent && this.hasTag(method, 'generator')) {
+            let hasPlaceholder = false;
+            method.children.forEach(child => {
+                hasPlaceholder = hasPlaceholder || this.hasTag(child, 'placeholder');
             });
+            if (hasPlaceholder) {
+                return method.parent;
+            }
+        }
+        return item;
+    }
 
-            token.onCancellationRequested(() => {
-                child.kill();
-                resolve({ status: 'skipped', message: 'Test cancelled' });
-            });
+    /**
+     * Children that are tests of their own; subtests only run with their test
+     */
+    private getRunnableChildren(item: vscode.TestItem): vscode.TestItem[] {
+        const children: vscode.TestItem[] = [];
+        item.children.forEach(child => {
+            if (!this.isSubTest(child)) children.push(child);
+        });
+        return children;
+    }
 
-            child.on('close', (code: number) => {
-                // Parse output for individual test results
-                const output = stdout + stderr;
+    /**
+     * Find the test item for a reported test id. Only fixture errors are
+     * looked up by suffix; other unknown ids are generated tests or cases.
+     */
+    private findTestItem(testId: string, fixture?: string | null): vscode.TestItem | undefined {
+        const item = this.testItems.get(testId);
+        if (item || !fixture) {
+            return item;
+        }
+        // Import failures may be reported relative to the label (e.g. "tests_models")
+        for (const [id, candidate] of this.testItems) {
+            if (id.endsWith(`.${testId}`)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
 
-                // Parse test results from Django output
-                const testResultRegex = /(\w+)\s+\(([\w.]+)\)\s+\.\.\.\s+(ok|skipped|FAIL|ERROR)/g;
-                let match;
+    /**
+     * Add a pytest parametrize case (`test_add[1-2]`) that discovery could not
+     * know statically under its function
+     */
+    private addParametrizedCase(testId: string): vscode.TestItem | undefined {
+        const bracket = testId.indexOf('[');
+        const base = bracket > 0 ? this.testItems.get(testId.substring(0, bracket)) : undefined;
+        if (!base) {
+            return undefined;
+        }
+        const item = this.controller.createTestItem(testId, getTestName(testId), base.uri);
+        item.range = base.range;
+        item.tags = base.tags;
+        base.children.add(item);
+        this.testItems.set(testId, item);
+        return item;
+    }
 
-                while ((match = testResultRegex.exec(output)) !== null) {
-                    const methodName = match[1];
-                    const testPath = match[2];
-                    const result = match[3];
+    /**
+     * Add a test generated by parameterized or ddt under its decorated method,
+     * replacing the method's placeholder
+     */
+    private addGeneratedTest(testId: string): vscode.TestItem | undefined {
+        const separator = getTestRunnerBackend(this.workspaceRoot) === 'pytest' ? '::' : '.';
+        const index = testId.lastIndexOf(separator);
+        const classItem = index > 0 ? this.testItems.get(testId.substring(0, index)) : undefined;
+        if (!classItem) {
+            return undefined;
+        }
+        const name = testId.substring(index + separator.length);
+        // The longest method name wins when several share a prefix
+        let method: vscode.TestItem | undefined;
+        classItem.children.forEach(child => {
+            if (this.hasTag(child, 'generator') && isGeneratedTestName(name, child.label)
+                && (!method || child.label.length > method.label.length)) {
+                method = child;
+            }
+        });
+        if (!method) {
+            return undefined;
+        }
 
-                    const fullPath = testPath.endsWith(`.${methodName}`) ? testPath : `${testPath}.${methodName}`;
+        const placeholders: vscode.TestItem[] = [];
+        method.children.forEach(child => {
+            if (this.hasTag(child, 'placeholder')) placeholders.push(child);
+        });
+        placeholders.forEach(child => this.deleteItem(child));
 
-                    childResults[fullPath] = {
-                        status: result === 'ok' ? 'passed' : result === 'skipped' ? 'skipped' : 'failed',
-                        message: result === 'FAIL' || result === 'ERROR' ? `Test ${result}` : undefined
-                    };
-                }
+        const item = this.controller.createTestItem(testId, name, method.uri);
+        item.range = method.range;
+        item.tags = method.tags.filter(tag => tag.id !== 'generator');
+        method.children.add(item);
+        this.testItems.set(testId, item);
+        this.testDiscovery.addGeneratedName(method.id, name);
+        return item;
+    }
 
-                // Determine overall status
-                if (code === 0) {
-                    resolve({ status: 'passed', childResults });
-                } else {
-                    // Extract error message
-                    const errorMatch = output.match(/FAILED \(.*\)/);
-                    const message = errorMatch ? errorMatch[0] : 'Test failed';
-                    resolve({ status: 'failed', message, childResults });
-                }
-            });
+    /**
+     * Labels of each process for a selection: its test classes, split into
+     * `shardCount` processes balanced by the durations in the test history.
+     * A class selected as a whole runs as one label, otherwise its tests do.
+     */
+    private planShards(testsToRun: vscode.TestItem[], labels: string[]): string[][] {
+        const count = getShardCount(this.workspaceRoot);
+        if (count <= 1 || getTestRunnerBackend(this.workspaceRoot) !== 'django') {
+            return [labels];
+        }
 
-            child.on('error', (err: Error) => {
-                resolve({ status: 'error', message: err.message });
-            });
-        });
+        const selected = new Set(labels);
+        const isSelected = (item: vscode.TestItem) => {
+            for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+                if (selected.has(current.id)) return true;
+            }
+            return labels.length === 0;
+        };
+
+        const units = new Map<string, ShardUnit>();
+        for (const item of testsToRun) {
+            const runnable = this.getRunnableItem(item);
+            let owner: vscode.TestItem | undefined = runnable;
+            while (owner && this.getNodeType(owner) !== 'class') {
+                owner = owner.parent;
+            }
+            const key = owner?.id ?? runnable.id;
+            const unit = units.get(key) || { labels: [], tests: [] };
+            const label = owner && isSelected(owner) ? owner.id : runnable.id;
+            if (!unit.labels.includes(label)) {
+                unit.labels.push(label);
+            }
+            unit.tests.push(item.id);
+            units.set(key, unit);
+        }
+        if (units.size < 2) {
+            return [labels];
+        }
+
+        let durations = new Map<string, number>();
+        try {
+            durations = TestHistoryManager.getInstance(this.workspaceRoot).getAverageDurations();
+        } catch {
+            // History manager might not be initialized
+        }
+        return planShards(Array.from(units.values()), count, durations);
+    }
+
+    /**
+     * Build the manage.py or pytest command for a batch of labels
+     */
+    private buildCommand(
+        backend: TestRunnerBackend,
+        labels: string[],
+        resultChannel: TestResultChannel,
+        resultPort: number | undefined,
+        baseEnv: { [key: string]: string },
+        extraArgs: string[] = []
+    ): { cmd: string; args: string[]; env: { [key: string]: string } } {
+        const config = getConfiguration(this.workspaceRoot);
+
+        const profile = getActiveProfile(this.workspaceRoot);
+        const pythonPath = getPythonInterpreter(this.workspaceRoot);
+        const managePyPath = config.get<string>('managePyPath') || 'manage.py';
+        const profileArgs = profile.arguments;
+
+        let args: string[];
+        if (backend === 'pytest') {
+            // Profiles hold manage.py options; pytest has its own argument list
+            const pytestArgs = config.get<string[]>('pytestArguments') || [];
+            args = ['-m', 'pytest', ...labels, '-v', ...pytestArgs];
+        } else {
+            args = [
+                managePyPath,
+                'test',
+                ...labels,
+                '-v', '2', // Verbose output for parsing
+                ...profileArgs,
+                ...extraArgs
+            ];
+            if (!args.includes('--noinput') && !args.includes('--no-input')) {
+                args.push('--noinput');
+            }
+        }
+
+        let env = baseEnv;
+        if (resultPort !== undefined) {
+            args.push(...(backend === 'pytest' ? getPytestReporterArgs(args) : getResultReporterArgs(args)));
+            env = resultChannel.getEnvironment(env, resultPort);
+        }
+
+        return { cmd: pythonPath, args, env };
     }
 
     /**
@@ -373,11 +997,11 @@ export class NativeTestController {
     /**
      * Get node type from test item
      */
-    private getNodeType(item: vscode.TestItem): 'app' | 'folder' | 'file' | 'class' | 'method' {
+    private getNodeType(item: vscode.TestItem): 'app' | 'folder' | 'file' | 'class' | 'method' | 'doctest' {
         const tags = item.tags;
         for (const tag of tags) {
-            if (['app', 'folder', 'file', 'class', 'method'].includes(tag.id)) {
-                return tag.id as 'app' | 'folder' | 'file' | 'class' | 'method';
+            if (['app', 'folder', 'file', 'class', 'method', 'doctest'].includes(tag.id)) {
+                return tag.id as 'app' | 'folder' | 'file' | 'class' | 'method' | 'doctest';
             }
         }
         return item.children.size > 0 ? 'class' : 'method';
@@ -0,0 +1,540 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestEvent } from './resultChannel';
+import { TestRunnerBackend } from './testUtils';
+
+/**
+ * Incremental console output parser producing result channel events
+ */
+export interface TestOutputParser extends vscode.Disposable {
+    readonly onDidParseEvent: vscode.Event<TestEvent>;
+    /** Feed a chunk of output; only complete lines are parsed */
+    push(chunk: string): void;
+    /** Parse any remaining output and release held failures */
+    end(): void;
+}
+
+/**
+ * Create the console output parser for a runner backend
+ *
+ * @param cwd Directory the test command runs in (pytest node ids are made relative to it)
+ */
+export function createOutputParser(backend: TestRunnerBackend, cwd: string): TestOutputParser {
+    return backend === 'pytest' ? new PytestOutputParser(cwd) : new DjangoOutputParser();
+}
+
+/**
+ * Whether a failure block is a doctest failure, whose message lists the failed
+ * examples separated by the same dashed line Django ends the block with
+ */
+export function isDoctestFailure(lines: string[]): boolean {
+    return lines.some(line => line.startsWith('AssertionError: Failed doctest test for '));
+}
+
+/**
+ * Whether a line starts a failed example of a doctest failure message
+ */
+export function isDoctestExampleLocation(line: string): boolean {
+    return /^File ".+", line \d+, in /.test(line);
+}
+
+/**
+ * Find the final exception line (e.g. "AssertionError: 1 != 2") in a traceback
+ */
+export function getExceptionLine(traceback: string): string | undefined {
+    let exceptionLine: string | undefined;
+    for (const line of traceback.split('\n')) {
+        // Frames are indented and diff lines start with -, + or ?
+        if (/^[A-Za-z_][\w.]*(?::\s|$)/.test(line) && !line.startsWith('Traceback ')) {
+            exceptionLine = line.trim();
+        }
+    }
+    return exceptionLine;
+}
+
+/**
+ * Class and module fixtures whose errors unittest reports like a test, e.g.
+ * "setUpClass (app.tests.MyTests)"
+ */
+const FIXTURE_NAMES = new Set(['setUpClass', 'tearDownClass', 'setUpModule', 'tearDownModule']);
+
+/**
+ * Incremental parser for `manage.py test -v 2` console output.
+ *
+ * Produces the same events as the result channel so callers can treat both
+ * sources alike. Used as a fallback when the bundled runner is not reporting.
+ * Failed/errored outcomes are held back until their failure block (printed in
+ * the summary at the end of the run) has been read, so they carry a traceback.
+ */
+export class DjangoOutputParser implements TestOutputParser {
+    // eslint-disable-next-line no-control-regex
+    private static readonly ANSI_CODE_REGEX = /\u001b\[\d+m/g;
+    private static readonly TEST_START_REGEX = /^(\w+)\s+\(([\w.]+)\)/;
+    // With --parallel, output a worker printed without a newline can precede a test's line
+    private static readonly PREFIXED_START_REGEX = /(\w+)\s+\(([\w.]+)\)(?:\s+\S.*?)?\s+\.\.\.\s/;
+    // A parallel worker could not pickle a test's exception and aborts the run
+    private static readonly UNPICKLABLE_REGEX = /^(\w+)\s+\(([\w.]+)\)\s+failed:$/;
+    private static readonly UNPICKLABLE_SUBTEST_REGEX = /^\s+test:\s+(\w+)\s+\(([\w.]+)\)$/;
+    private static readonly RESULT_REGEX = /\.\.\.\s+(ok|skipped|FAIL|ERROR|expected failure|unexpected success)(?:\s+'([^']*)')?(?:\s+\(([\d.]+)s\))?/;
+    // Result on a line of its own, after the test printed output without a newline
+    private static readonly BARE_RESULT_REGEX = /^(ok|skipped|FAIL|ERROR|expected failure|unexpected success)(?:\s+'([^']*)')?(?:\s+\(([\d.]+)s\))?$/;
+    // Python 3.11+ prints failing subtests indented below their test
+    private static readonly SUBTEST_RESULT_REGEX = /^\s+(\w+)\s+\(([\w.]+)\)\s+(.+?)\s+\.\.\.\s+(FAIL|ERROR|skipped)(?:\s+'([^']*)')?/;
+    // Failure headers of subtests end with their description: "FAIL: test_x (app.tests.T.test_x) (i=1)"
+    private static readonly SUMMARY_REGEX = /^(FAIL|ERROR):\s+(\w+)\s+\(([\w.]+)\)(?:\s+(.+))?$/;
+    private static readonly SEPARATOR_LINE = '----------------------------------------------------------------------';
+    private static readonly DOUBLE_SEPARATOR_LINE = '======================================================================';
+
+    private buffer = '';
+    private currentTest: string | null = null;
+    private heldFailures = new Map<string, TestEvent>();
+    // Failed subtests waiting for their failure block, keyed by test id and description
+    private heldSubTests = new Map<string, TestEvent>();
+    private failureFor: string | null = null;
+    private failureSubTest: string | null = null;
+    // Tests that already took the failure of one of their subtests
+    private subTestFailures = new Set<string>();
+    private failureLines: string[] = [];
+    private inFailureBody = false;
+    // A dashed line inside a doctest failure block, kept until the next line tells whether it ends the block
+    private heldSeparator = false;
+    // Test whose unpicklable exception a parallel worker is describing
+    private unpicklableFor: string | null = null;
+    private unpicklableLines: string[] = [];
+
+    private _onDidParseEvent = new vscode.EventEmitter<TestEvent>();
+    public readonly onDidParseEvent = this._onDidParseEvent.event;
+
+    /**
+     * Feed a chunk of output; only complete lines are parsed
+     */
+    public push(chunk: string): void {
+        this.buffer += chunk;
+        const lastNewlineIndex = this.buffer.lastIndexOf('\n');
+        if (lastNewlineIndex === -1) {
+            return;
+        }
+        const completeLines = this.buffer.substring(0, lastNewlineIndex);
+        this.buffer = this.buffer.substring(lastNewlineIndex + 1);
+        for (const line of completeLines.split('\n')) {
+            this.parseLine(line.replace(DjangoOutputParser.ANSI_CODE_REGEX, '').replace(/\r$/, ''));
+        }
+    }
+
+    /**
+     * Parse any remaining output and release held failures
+     */
+    public end(): void {
+        if (this.buffer.length > 0) {
+            this.parseLine(this.buffer.replace(DjangoOutputParser.ANSI_CODE_REGEX, ''));
+            this.buffer = '';
+        }
+        this.closeFailureBlock();
+        this.closeUnpicklableBlock();
+        for (const event of [...this.heldSubTests.values(), ...this.heldFailures.values()]) {
+            this._onDidParseEvent.fire(event);
+        }
+        this.heldSubTests.clear();
+        this.heldFailures.clear();
+    }
+
+    private parseLine(line: string): void {
+        if (this.failureFor) {
+            if (!this.inFailureBody) {
+                // Header continues (e.g. docstring) until the dashed separator
+                this.inFailureBody = line.startsWith(DjangoOutputParser.SEPARATOR_LINE);
+                return;
+            }
+            if (this.heldSeparator) {
+                this.heldSeparator = false;
+                if (isDoctestExampleLocation(line)) {
+                    this.failureLines.push(DjangoOutputParser.SEPARATOR_LINE, line);
+                    return;
+                }
+                this.closeFailureBlock();
+            } else if (line.startsWith(DjangoOutputParser.SEPARATOR_LINE) && isDoctestFailure(this.failureLines)) {
+                this.heldSeparator = true;
+                return;
+            } else if (line.startsWith(DjangoOutputParser.DOUBLE_SEPARATOR_LINE) ||
+                line.startsWith(DjangoOutputParser.SEPARATOR_LINE)) {
+                this.closeFailureBlock();
+            } else {
+                this.failureLines.push(line);
+                return;
+            }
+        }
+
+        if (this.unpicklableFor) {
+            this.unpicklableLines.push(line);
+            // Django's message ends telling how to get the real traceback
+            if (line.includes('--parallel=1') || line.includes('pip install tblib')) {
+                this.closeUnpicklableBlock();
+            }
+            return;
+        }
+
+        if (line.length === 0) return;
+
+        const unpicklableMatch = DjangoOutputParser.UNPICKLABLE_REGEX.exec(line)
+            || (this.unpicklableLines.length > 0 ? DjangoOutputParser.UNPICKLABLE_SUBTEST_REGEX.exec(line) : null);
+        if (unpicklableMatch) {
+            this.unpicklableFor = this.toTestPath(unpicklableMatch[1], unpicklableMatch[2]);
+            this.unpicklableLines = [];
+            return;
+        }
+        // "Subtest failed:" names its test on the lines after it
+        if (line === 'Subtest failed:') {
+            this.unpicklableLines = [line];
+            return;
+        }
+        this.unpicklableLines = [];
+
+        const summaryMatch = DjangoOutputParser.SUMMARY_REGEX.exec(line);
+        if (summaryMatch) {
+            this.failureFor = this.toTestPath(summaryMatch[2], summaryMatch[3]);
+            this.failureSubTest = summaryMatch[4] || null;
+            this.failureLines = [];
+            this.inFailureBody = false;
+            return;
+        }
+
+        const subTestMatch = DjangoOutputParser.SUBTEST_RESULT_REGEX.exec(line);
+        if (subTestMatch) {
+            this.handleSubTestResult(this.toTestPath(subTestMatch[1], subTestMatch[2]), subTestMatch[3], subTestMatch[4], subTestMatch[5]);
+            return;
+        }
+
+        let startMatch = DjangoOutputParser.TEST_START_REGEX.exec(line);
+        if (!startMatch) {
+            startMatch = DjangoOutputParser.PREFIXED_START_REGEX.exec(line);
+            // Output glued to the method name ("donetest_b (app.tests.T.test_b)") ends where the id does
+            const lastName = startMatch?.[2].substring(startMatch[2].lastIndexOf('.') + 1);
+            if (startMatch && lastName && startMatch[1].endsWith(lastName)) {
+                startMatch[1] = lastName;
+            }
+        }
+        if (startMatch) {
+            this.currentTest = this.toTestPath(startMatch[1], startMatch[2]);
+            this.fire({ event: 'startTest', time: Date.now() / 1000, test: this.currentTest });
+        }
+
+        if (this.currentTest) {
+            const resultMatch = DjangoOutputParser.RESULT_REGEX.exec(line) ||
+                DjangoOutputParser.BARE_RESULT_REGEX.exec(line);
+            if (resultMatch) {
+                this.handleResult(this.currentTest, resultMatch[1], resultMatch[2], resultMatch[3]);
+                this.currentTest = null;
+            }
+        }
+    }
+
+    private handleResult(test: string, result: string, reason?: string, seconds?: string): void {
+        const event: TestEvent = {
+            event: 'outcome',
+            time: Date.now() / 1000,
+            test,
+            duration: seconds ? parseFloat(seconds) : undefined
+        };
+        switch (result) {
+            case 'ok':
+            case 'expected failure':
+                event.outcome = 'passed';
+                break;
+            case 'skipped':
+                event.outcome = 'skipped';
+                event.message = reason;
+                break;
+            case 'unexpected success':
+                event.outcome = 'failed';
+                event.message = 'Unexpected success';
+                break;
+            default:
+                event.outcome = result === 'FAIL' ? 'failed' : 'error';
+                // Wait for the failure block in the summary
+                this.heldFailures.set(test, event);
+                return;
+        }
+        this.fire(event);
+    }
+
+    /**
+     * A subtest result line. A failing subtest also fails its test, which
+     * then prints no result of its own; a passing test prints its name again.
+     */
+    private handleSubTestResult(test: string, subtest: string, result: string, reason?: string): void {
+        this.currentTest = null;
+        const event: TestEvent = { event: 'subTest', time: Date.now() / 1000, test, subtest };
+        if (result === 'skipped') {
+            event.outcome = 'skipped';
+            event.message = reason;
+            this.fire(event);
+            return;
+        }
+        event.outcome = result === 'FAIL' ? 'failed' : 'error';
+        this.heldSubTests.set(`${test} ${subtest}`, event);
+        if (!this.heldFailures.has(test)) {
+            this.heldFailures.set(test, { event: 'outcome', time: event.time, test, outcome: event.outcome });
+        }
+    }
+
+    private closeFailureBlock(): void {
+        if (!this.failureFor) return;
+
+        const test = this.failureFor;
+        const subtest = this.failureSubTest;
+        const traceback = this.failureLines.join('\n').trim();
+        this.failureFor = null;
+        this.failureSubTest = null;
+        this.failureLines = [];
+        this.inFailureBody = false;
+        this.heldSeparator = false;
+
+        if (subtest) {
+            const key = `${test} ${subtest}`;
+            const heldSubTest = this.heldSubTests.get(key) ||
+                { event: 'subTest', time: Date.now() / 1000, test, subtest, outcome: 'failed' };
+            heldSubTest.traceback = traceback;
+            heldSubTest.message = getExceptionLine(traceback);
+            this.heldSubTests.delete(key);
+            this.fire(heldSubTest);
+            // The test itself takes the failure of its first subtest
+            if (this.subTestFailures.has(test)) {
+                return;
+            }
+            this.subTestFailures.add(test);
+        }
+
+        const held = this.heldFailures.get(test);
+        const event: TestEvent = held || { event: 'outcome', time: Date.now() / 1000, test, outcome: 'failed' };
+        event.traceback = traceback;
+        event.message = getExceptionLine(traceback);
+        this.heldFailures.delete(test);
+        this.fire(event);
+    }
+
+    /**
+     * Fail the test whose exception a parallel worker could not pickle. The
+     * worker stops, so the message is all there is to report.
+     */
+    private closeUnpicklableBlock(): void {
+        if (!this.unpicklableFor) return;
+
+        const test = this.unpicklableFor;
+        const lines = this.unpicklableLines;
+        this.unpicklableFor = null;
+        this.unpicklableLines = [];
+
+        // The exception's repr is indented between the header and the explanation
+        const end = lines.findIndex(line => line.startsWith('Unfortunately,'));
+        const exception = lines.slice(0, end === -1 ? lines.length : end)
+            .filter(line => /^\s{4}\S/.test(line))
+            .map(line => line.trim())
+            .join(' ');
+        this.heldFailures.delete(test);
+        this.fire({
+            event: 'outcome',
+            time: Date.now() / 1000,
+            test,
+            outcome: 'error',
+            message: exception
+                ? `${exception} (not picklable: run with --parallel=1 for the traceback)`
+                : 'The parallel test runner could not pickle the failure: run with --parallel=1 for the traceback',
+            traceback: lines.join('\n').trim()
+        });
+    }
+
+    private toTestPath(methodName: string, pathInParens: string): string {
+        // Errors of class and module fixtures belong to the class or module
+        if (FIXTURE_NAMES.has(methodName)) {
+            return pathInParens;
+        }
+        // Python 3.11+ prints the full id in parentheses, older versions only the class
+        if (pathInParens.endsWith(`.${methodName}`) || pathInParens === methodName) {
+            return pathInParens;
+        }
+        return `${pathInParens}.${methodName}`;
+    }
+
+    private fire(event: TestEvent): void {
+        this._onDidParseEvent.fire(event);
+    }
+
+    public dispose(): void {
+        this._onDidParseEvent.dispose();
+    }
+}
+
+/**
+ * Incremental parser for `pytest -v` console output.
+ *
+ * Reads the per-test result lines (`app/tests/test_x.py::T::test_a PASSED`),
+ * the tracebacks of the FAILURES/ERRORS sections and the messages of the short
+ * test summary. Failed and errored outcomes are released by `end()`, once the
+ * sections and summary printed after the run have been read.
+ */
+export class PytestOutputParser implements TestOutputParser {
+    // eslint-disable-next-line no-control-regex
+    private static readonly ANSI_CODE_REGEX = /\u001b\[[\d;]*m/g;
+    private static readonly ROOTDIR_REGEX = /^rootdir: (.+?)(?:, |$)/;
+    private static readonly RESULT_REGEX = /^(\S.*?::.+?)\s+(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)(?:\s+\((.*)\))?(?:\s+\[\s*\d+%\])?\s*$/;
+    private static readonly SECTION_REGEX = /^_{3,} (.+?) _{3,}$/;
+    private static readonly BANNER_REGEX = /^={3,}( .* )?={3,}$/;
+    private static readonly SUMMARY_REGEX = /^(FAILED|ERROR) (\S+)(?: - (.*))?$/;
+
+    private buffer = '';
+    private rootdir: string | null = null;
+    private heldFailures = new Map<string, TestEvent>();
+    private sectionFor: string | null = null;
+    private sectionLines: string[] = [];
+
+    private _onDidParseEvent = new vscode.EventEmitter<TestEvent>();
+    public readonly onDidParseEvent = this._onDidParseEvent.event;
+
+    constructor(private cwd: string) { }
+
+    public push(chunk: string): void {
+        this.buffer += chunk;
+        const lastNewlineIndex = this.buffer.lastIndexOf('\n');
+        if (lastNewlineIndex === -1) {
+            return;
+        }
+        const completeLines = this.buffer.substring(0, lastNewlineIndex);
+        this.buffer = this.buffer.substring(lastNewlineIndex + 1);
+        for (const line of completeLines.split('\n')) {
+            this.parseLine(line.replace(PytestOutputParser.ANSI_CODE_REGEX, '').replace(/\r$/, ''));
+        }
+    }
+
+    public end(): void {
+        if (this.buffer.length > 0) {
+            this.parseLine(this.buffer.replace(PytestOutputParser.ANSI_CODE_REGEX, ''));
+            this.buffer = '';
+        }
+        this.closeSection();
+        for (const event of this.heldFailures.values()) {
+            if (!event.message && event.traceback) {
+                // pytest marks exception lines with "E   "
+                const errorLines = event.traceback.split('\n').filter(line => line.startsWith('E '));
+                event.message = errorLines.length > 0 ? errorLines[0].substring(1).trim() : undefined;
+            }
+            this._onDidParseEvent.fire(event);
+        }
+        this.heldFailures.clear();
+    }
+
+    private parseLine(line: string): void {
+        const sectionMatch = PytestOutputParser.SECTION_REGEX.exec(line);
+        if (sectionMatch) {
+            this.closeSection();
+            this.sectionFor = this.findSectionTest(sectionMatch[1]);
+            return;
+        }
+        if (PytestOutputParser.BANNER_REGEX.test(line)) {
+            this.closeSection();
+            return;
+        }
+        if (this.sectionFor) {
+            this.sectionLines.push(line);
+            return;
+        }
+
+        const rootdirMatch = PytestOutputParser.ROOTDIR_REGEX.exec(line);
+        if (rootdirMatch) {
+            this.rootdir = rootdirMatch[1].trim();
+            return;
+        }
+
+        const summaryMatch = PytestOutputParser.SUMMARY_REGEX.exec(line);
+        if (summaryMatch) {
+            const test = this.toTestId(summaryMatch[2]);
+            const event = this.hold(test, summaryMatch[1] === 'FAILED' ? 'failed' : 'error');
+            if (summaryMatch[3]) {
+                event.message = summaryMatch[3];
+            }
+            return;
+        }
+
+        const resultMatch = PytestOutputParser.RESULT_REGEX.exec(line);
+        if (resultMatch) {
+            this.handleResult(this.toTestId(resultMatch[1]), resultMatch[2], resultMatch[3]);
+        }
+    }
+
+    private handleResult(test: string, result: string, reason?: string): void {
+        this._onDidParseEvent.fire({ event: 'startTest', time: Date.now() / 1000, test });
+        switch (result) {
+            case 'FAILED':
+                this.hold(test, 'failed');
+                return;
+            case 'ERROR':
+                this.hold(test, 'error');
+                return;
+        }
+        this._onDidParseEvent.fire({
+            event: 'outcome',
+            time: Date.now() / 1000,
+            test,
+            outcome: result === 'SKIPPED' ? 'skipped' : 'passed',
+            message: result === 'SKIPPED' ? reason : undefined
+        });
+    }
+
+    private hold(test: string, outcome: 'failed' | 'error'): TestEvent {
+        let event = this.heldFailures.get(test);
+        if (!event) {
+            event = { event: 'outcome', time: Date.now() / 1000, test, outcome };
+            this.heldFailures.set(test, event);
+        }
+        return event;
+    }
+
+    /**
+     * Map a section title ("TestX.test_a", "ERROR at setup of test_b",
+     * "ERROR collecting app/tests.py") to the test it belongs to
+     */
+    private findSectionTest(title: string): string | null {
+        const collecting = /^ERROR collecting (.+)$/.exec(title);
+        if (collecting) {
+            const test = this.toTestId(collecting[1]);
+            this.hold(test, 'error');
+            return test;
+        }
+        const headLine = title.replace(/^ERROR at (?:setup|teardown) of /, '');
+        for (const test of this.heldFailures.keys()) {
+            if (test.split('::').slice(1).join('.') === headLine) {
+                return test;
+            }
+        }
+        return null;
+    }
+
+    private closeSection(): void {
+        if (this.sectionFor) {
+            const event = this.heldFailures.get(this.sectionFor);
+            if (event) {
+                event.traceback = this.sectionLines.join('\n').trim();
+            }
+        }
+        this.sectionFor = null;
+        this.sectionLines = [];
+    }
+
+    /**
+     * pytest prints node ids relative to its rootdir; the extension uses ids
+     * relative to the directory the command runs in
+     */
+    private toTestId(nodeId: string): string {
+        if (!this.rootdir || path.resolve(this.rootdir) === path.resolve(this.cwd)) {
+            return nodeId;
+        }
+        const separatorIndex = nodeId.indexOf('::');
+        const filePart = separatorIndex === -1 ? nodeId : nodeId.substring(0, separatorIndex);
+        const rest = separatorIndex === -1 ? '' : nodeId.substring(separatorIndex);
+        const relative = path.relative(this.cwd, path.join(this.rootdir, filePart)).split(path.sep).join('/');
+        return relative + rest;
+    }
+
+    public dispose(): void {
+        this._onDidParseEvent.dispose();
+    }
+}
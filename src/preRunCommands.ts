@@ -0,0 +1,37 @@
+import * as cp from 'child_process';
+
+/**
+ * Run the pre-run commands of a test profile one after another through the
+ * shell, e.g. to start a database container. Output is passed to `write`
+ * with terminal line endings. Resolves to the exit code of the first
+ * failing command, or 0 once all succeeded.
+ */
+export async function runPreRunCommands(
+    commands: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    write: (text: string) => void,
+    onSpawn?: (child: cp.ChildProcess) => void
+): Promise<number> {
+    for (const command of commands) {
+        write(`Pre-run: ${command}\r\n`);
+        const code = await new Promise<number>((resolve) => {
+            const child = cp.spawn(command, { cwd, env, shell: true });
+            onSpawn?.(child);
+            const onData = (data: Buffer) => write(data.toString().replace(/\r?\n/g, '\r\n'));
+            child.stdout?.on('data', onData);
+            child.stderr?.on('data', onData);
+            child.on('error', (err) => {
+                write(`Error: ${err.message}\r\n`);
+                resolve(1);
+            });
+            // Killed by a signal when the run is cancelled
+            child.on('close', (exitCode) => resolve(exitCode ?? 1));
+        });
+        if (code !== 0) {
+            write(`Pre-run command failed with exit code ${code}; tests were not run\r\n`);
+            return code;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { getActiveProfile, getProjectFolder, getProjectLabel, getSettingsModule } from './testUtils';
+
+/**
+ * Status bar items showing the active test profile and settings module of a
+ * project, each opening its picker
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+    private profileItem: vscode.StatusBarItem;
+    private settingsItem: vscode.StatusBarItem;
+    private configListener: vscode.Disposable;
+    private label: string | undefined;
+
+    constructor(private workspaceRoot: string) {
+        // Next to the watch mode indicator
+        this.profileItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        this.profileItem.command = {
+            command: 'django-test-manager.selectProfile',
+            title: 'Select Test Profile',
+            arguments: [workspaceRoot]
+        };
+        this.settingsItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 97);
+        this.settingsItem.command = {
+            command: 'django-test-manager.selectSettingsModule',
+            title: 'Select Settings Module',
+            arguments: [workspaceRoot]
+        };
+        this.label = getProjectLabel(workspaceRoot);
+
+        const folder = getProjectFolder(workspaceRoot);
+        this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (['activeProfile', 'testProfiles', 'activeSettingsModule']
+                .some(setting => e.affectsConfiguration(`djangoTestManager.${setting}`, folder?.uri))) {
+                this.update();
+            }
+        });
+        this.update();
+    }
+
+    private update(): void {
+        const profile = getActiveProfile(this.workspaceRoot);
+        const suffix = this.label ? ` (${this.label})` : '';
+        this.profileItem.text = `$(beaker) ${profile.name}${suffix}`;
+        this.profileItem.tooltip = `Test profile: ${profile.name}\n${profile.arguments.join(' ') || 'No arguments'}\nClick to switch profiles.`;
+        this.profileItem.show();
+
+        const settingsModule = getSettingsModule(this.workspaceRoot);
+        // The last segment is enough to tell config.settings.test from config.settings.ci
+        this.settingsItem.text = `$(settings-gear) ${settingsModule ? settingsModule.split('.').pop() : 'Default Settings'}${suffix}`;
+        this.settingsItem.tooltip = settingsModule
+            ? `Tests run with DJANGO_SETTINGS_MODULE=${settingsModule}\nClick to switch settings modules.`
+            : 'Tests run with the DJANGO_SETTINGS_MODULE of the environment or manage.py\nClick to switch settings modules.';
+        this.settingsItem.show();
+    }
+
+    public dispose(): void {
+        this.configListener.dispose();
+        this.profileItem.dispose();
+        this.settingsItem.dispose();
+    }
+}
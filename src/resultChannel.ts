@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as path from 'path';
+
+/**
+ * Dotted path of the bundled test runner (see resources/python)
+ */
+export const RESULT_REPORTER_RUNNER = 'django_test_manager_runner.DjangoTestManagerRunner';
+
+/**
+ * Dotted path of the bundled runner that only collects test ids
+ */
+export const COLLECT_RUNNER = 'django_test_manager_runner.DjangoTestManagerCollectRunner';
+
+/**
+ * Module name of the bundled pytest plugin, loaded with `-p`
+ */
+export const PYTEST_PLUGIN = 'django_test_manager_pytest';
+
+/**
+ * A single event reported by the bundled test runner.
+ * One JSON object is sent per line over the result channel.
+ */
+export interface TestEvent {
+    event: 'startTestRun' | 'stopTestRun' | 'startTest' | 'outcome' | 'subTest' | 'stopTest' | 'collectTest';
+    time: number;
+    /** unittest test id (app.tests.MyTests.test_something) or pytest node id */
+    test?: string;
+    /** Set when the event comes from setUpClass/setUpModule rather than a test */
+    fixture?: string | null;
+    /** unittest's description of a subTest of `test`, e.g. "(i=1)" (subTest only) */
+    subtest?: string;
+    outcome?: 'passed' | 'failed' | 'error' | 'skipped';
+    /** Duration in seconds */
+    duration?: number | null;
+    traceback?: string;
+    message?: string;
+    /** Captured stdout/stderr of the test */
+    output?: string;
+    /** Number of tests in the suite (startTestRun only) */
+    count?: number;
+    /** Source file of the test method, if known (collectTest only) */
+    file?: string | null;
+    /** 1-based line of the test method, if known (collectTest only) */
+    line?: number | null;
+}
+
+let pythonHelpersPath: string | undefined;
+
+/**
+ * Remember where the bundled Python helpers live
+ */
+export function initResultChannel(context: vscode.ExtensionContext): void {
+    pythonHelpersPath = path.join(context.extensionPath, 'resources', 'python');
+}
+
+/**
+ * Directory containing the bundled Python helpers, if initialized
+ */
+export function getPythonHelpersPath(): string | undefined {
+    return pythonHelpersPath;
+}
+
+/**
+ * Whether structured results are enabled in configuration and usable
+ */
+export function isStructuredResultsEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('djangoTestManager');
+    return !!pythonHelpersPath && (config.get<boolean>('useStructuredResults') ?? true);
+}
+
+/**
+ * Arguments that make manage.py test use the bundled result reporter.
+ * Returns nothing if the user already selected a runner with --testrunner.
+ */
+export function getResultReporterArgs(existingArgs: string[]): string[] {
+    if (!isStructuredResultsEnabled()) {
+        return [];
+    }
+    if (existingArgs.some(arg => arg === '--testrunner' || arg.startsWith('--testrunner='))) {
+        return [];
+    }
+    return ['--testrunner', RESULT_REPORTER_RUNNER];
+}
+
+/**
+ * Arguments that make pytest load the bundled result reporter plugin
+ */
+export function getPytestReporterArgs(existingArgs: string[]): string[] {
+    if (!isStructuredResultsEnabled()) {
+        return [];
+    }
+    if (existingArgs.some((arg, i) => arg === `-p${PYTEST_PLUGIN}` || (arg === '-p' && existingArgs[i + 1] === PYTEST_PLUGIN))) {
+        return [];
+    }
+    return ['-p', PYTEST_PLUGIN];
+}
+
+/**
+ * Arguments without the bundled result reporter, which cannot be imported
+ * when the result channel did not start
+ */
+export function withoutReporterArgs(args: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if ((args[i] === '--testrunner' && args[i + 1] === RESULT_REPORTER_RUNNER)
+            || (args[i] === '-p' && args[i + 1] === PYTEST_PLUGIN)) {
+            i++;
+            continue;
+        }
+        result.push(args[i]);
+    }
+    return result;
+}
+
+/**
+ * Local TCP server receiving JSON test events from the bundled runner.
+ * One channel is created per test process.
+ *
+ * The runner sends the channel's token as its first line; connections that
+ * do not are dropped, as a wrapped run listens beyond the loopback interface.
+ */
+export class TestResultChannel implements vscode.Disposable {
+    private server: net.Server | undefined;
+    private sockets = new Set<net.Socket>();
+    private connected = false;
+    private readonly token = crypto.randomBytes(16).toString('hex');
+    private closedWaiters: Array<() => void> = [];
+
+    private _onDidReceiveEvent = new vscode.EventEmitter<TestEvent>();
+    public readonly onDidReceiveEvent = this._onDidReceiveEvent.event;
+
+    /**
+     * Start listening on an ephemeral port, on localhost unless the test
+     * process connects from elsewhere (see executionWrapper)
+     */
+    public listen(host: string = '127.0.0.1'): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const server = net.createServer((socket) => this.handleConnection(socket));
+            server.on('error', reject);
+            server.listen(0, host, () => {
+                const address = server.address();
+                if (address && typeof address === 'object') {
+                    resolve(address.port);
+                } else {
+                    reject(new Error('Could not determine result channel port'));
+                }
+            });
+            this.server = server;
+        });
+    }
+
+    /**
+     * True once the test process has connected (structured results are flowing)
+     */
+    public get isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Environment variables telling the bundled runner where to report
+     */
+    public getEnvironment(env: { [key: string]: string }, port: number): { [key: string]: string } {
+        const helpers = getPythonHelpersPath();
+        const result: { [key: string]: string } = {
+            ...env,
+            DJANGO_TEST_MANAGER_RESULT_PORT: String(port),
+            DJANGO_TEST_MANAGER_RESULT_TOKEN: this.token
+        };
+        if (helpers) {
+            result.PYTHONPATH = env.PYTHONPATH ? `${helpers}${path.delimiter}${env.PYTHONPATH}` : helpers;
+        }
+        return result;
+    }
+
+    /**
+     * Wait until all connections are closed, so no events are lost after the process exits
+     */
+    public waitForClose(timeoutMs: number = 1000): Promise<void> {
+        if (this.sockets.size === 0) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => {
+            const timer = setTimeout(resolve, timeoutMs);
+            this.closedWaiters.push(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        this.sockets.add(socket);
+        socket.setEncoding('utf8');
+
+        let authenticated = false;
+        let buffer = '';
+        socket.on('data', (data: string) => {
+            buffer += data;
+            let newlineIndex = buffer.indexOf('\n');
+            if (!authenticated && newlineIndex === -1 && buffer.length > this.token.length) {
+                socket.destroy();
+                return;
+            }
+            while (newlineIndex !== -1) {
+                const line = buffer.substring(0, newlineIndex).trim();
+                buffer = buffer.substring(newlineIndex + 1);
+                if (!authenticated) {
+                    if (line !== this.token) {
+                        socket.destroy();
+                        return;
+                    }
+                    authenticated = true;
+                    this.connected = true;
+                } else if (line.length > 0) {
+                    this.emitLine(line);
+                }
+                newlineIndex = buffer.indexOf('\n');
+            }
+        });
+
+        socket.on('close', () => {
+            if (authenticated && buffer.trim().length > 0) {
+                this.emitLine(buffer.trim());
+                buffer = '';
+            }
+            this.sockets.delete(socket);
+            if (this.sockets.size === 0) {
+                this.closedWaiters.forEach(waiter => waiter());
+                this.closedWaiters = [];
+            }
+        });
+
+        socket.on('error', (err) => {
+            console.error('Result channel socket error:', err);
+        });
+    }
+
+    private emitLine(line: string): void {
+        try {
+            this._onDidReceiveEvent.fire(JSON.parse(line) as TestEvent);
+        } catch (e) {
+            console.error('Invalid result channel event:', line, e);
+        }
+    }
+
+    public dispose(): void {
+        this.sockets.forEach(socket => socket.destroy());
+        this.sockets.clear();
+        this.server?.close();
+        this.server = undefined;
+        this._onDidReceiveEvent.dispose();
+        this.closedWaiters.forEach(waiter => waiter());
+        this.closedWaiters = [];
+    }
+}
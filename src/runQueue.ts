@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { QueuedRun, TestRunner } from './testRunner';
+
+interface QueueSource {
+    runner: TestRunner;
+    /** Project name, when there are several projects */
+    label?: string;
+}
+
+type QueuePickItem = vscode.QuickPickItem & { runner: TestRunner; run: QueuedRun };
+
+const MOVE_UP: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-up'), tooltip: 'Run Earlier' };
+const REPLACE: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('debug-restart'), tooltip: 'Replace Current Run' };
+const REMOVE: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('close'), tooltip: 'Remove from Queue' };
+
+/**
+ * Show the runs waiting for the current test run of each project, with buttons
+ * to run them earlier, start them in place of the current run or drop them
+ */
+export function showRunQueue(sources: QueueSource[]): void {
+    const createItems = (): QueuePickItem[] => sources.flatMap(({ runner, label }) =>
+        runner.getQueue().map((run, index) => ({
+            label: run.name,
+            description: [label, `#${index + 1}`].filter(Boolean).join(' · '),
+            detail: run.testPaths.length > 0 ? run.testPaths.join(' ') : 'All tests',
+            buttons: index > 0 ? [MOVE_UP, REPLACE, REMOVE] : [REPLACE, REMOVE],
+            runner,
+            run
+        }))
+    );
+
+    const items = createItems();
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('No queued test runs.');
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<QueuePickItem>();
+    quickPick.title = 'Test Run Queue';
+    quickPick.placeholder = 'Queued runs start when the current test run finishes';
+    quickPick.items = items;
+
+    const listeners = sources.map(({ runner }) => runner.onDidChangeQueue(() => {
+        quickPick.items = createItems();
+        if (quickPick.items.length === 0) {
+            quickPick.hide();
+        }
+    }));
+    quickPick.onDidTriggerItemButton(({ item, button }) => {
+        if (button === MOVE_UP) {
+            item.runner.moveQueuedRun(item.run.id, -1);
+        } else if (button === REPLACE) {
+            item.runner.replaceCurrentRun(item.run.id);
+        } else if (button === REMOVE) {
+            item.runner.removeQueuedRun(item.run.id);
+        }
+    });
+    quickPick.onDidAccept(() => quickPick.hide());
+    quickPick.onDidHide(() => {
+        listeners.forEach(listener => listener.dispose());
+        quickPick.dispose();
+    });
+    quickPick.show();
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getActiveProfile, getConfiguration, getConfigurationTarget, getSettingsModule, resolvePath } from './testUtils';
+
+/**
+ * Directories never holding the project's own settings
+ */
+const EXCLUDED_DIRS = '**/{node_modules,.venv,venv,.tox,.git,site-packages,__pycache__}/**';
+
+/**
+ * Dotted paths of the settings modules of a project: `settings.py`,
+ * `settings_*.py` and the modules of a `settings` package, relative to the
+ * directory of manage.py (which Django puts on sys.path)
+ */
+export async function findSettingsModules(workspaceRoot: string): Promise<string[]> {
+    const managePyPath = resolvePath(getConfiguration(workspaceRoot).get<string>('managePyPath') || 'manage.py', workspaceRoot, 'manage.py');
+    const baseDir = path.dirname(managePyPath);
+
+    const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(workspaceRoot, '**/{settings*.py,settings/*.py}'),
+        EXCLUDED_DIRS,
+        500
+    );
+
+    const modules = new Set<string>();
+    for (const file of files) {
+        const relative = path.relative(baseDir, file.fsPath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            continue;
+        }
+        const parts = relative.replace(/\.py$/, '').split(path.sep);
+        // A settings package is itself a settings module when it imports one
+        if (parts[parts.length - 1] === '__init__') {
+            parts.pop();
+        }
+        if (parts.every(part => /^[A-Za-z_]\w*$/.test(part))) {
+            modules.add(parts.join('.'));
+        }
+    }
+    return Array.from(modules).sort();
+}
+
+type SettingsPickItem = vscode.QuickPickItem & { module?: string; other?: boolean };
+
+/**
+ * Choose the settings module tests of a project run with, from the settings
+ * modules found in the project. The choice overrides the active profile's.
+ */
+export async function selectSettingsModule(workspaceRoot: string): Promise<void> {
+    const config = getConfiguration(workspaceRoot);
+    const current = getSettingsModule(workspaceRoot);
+    const profile = getActiveProfile(workspaceRoot);
+    const modules = await findSettingsModules(workspaceRoot);
+    if (current && !modules.includes(current)) {
+        modules.unshift(current);
+    }
+
+    const items: SettingsPickItem[] = [
+        {
+            label: '$(discard) Profile Default',
+            description: profile.settingsModule
+                ? `${profile.settingsModule} (${profile.name} profile)`
+                : 'DJANGO_SETTINGS_MODULE of the environment or manage.py'
+        },
+        { label: 'Settings Modules', kind: vscode.QuickPickItemKind.Separator },
+        ...modules.map(module => ({
+            label: module,
+            description: module === current ? 'current' : undefined,
+            module
+        })),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(edit) Other…', other: true }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Settings module for test runs (current: ${current || 'project default'})`
+    });
+    if (!selected) {
+        return;
+    }
+
+    let module = selected.module;
+    if (selected.other) {
+        module = await vscode.window.showInputBox({
+            prompt: 'Dotted path of the settings module',
+            placeHolder: 'config.settings.test',
+            value: current,
+            validateInput: value => /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(value.trim()) ? undefined : 'Enter a dotted module path'
+        });
+        if (module === undefined) {
+            return;
+        }
+        module = module.trim();
+    }
+
+    await config.update('activeSettingsModule', module || undefined, getConfigurationTarget());
+}
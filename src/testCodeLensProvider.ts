@@ -1,19 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { TestStateManager } from './testStateManager';
-import { isTestClassFromLine } from './testUtils';
+import { buildTestId, getConfiguration, getTestRunnerBackend, isTestClassFromLine } from './testUtils';
+import { TestDiscovery, TestNode } from './testDiscovery';
 
 /**
  * Cached regex patterns - avoids recreating regex on every provideCodeLenses call
  */
 const CLASS_REGEX = /^class\s+(\w+)/;
+const FUNCTION_REGEX = /^(?:async\s+)?def\s+(\w+)/;
 let cachedMethodRegex: RegExp | null = null;
 let cachedMethodPrefix: string | null = null;
 
-function getMethodRegex(): RegExp {
-    const config = vscode.workspace.getConfiguration('djangoTestManager');
-    const methodPrefix = config.get<string>('testMethodPattern') || 'test_';
-
+function getMethodRegex(methodPrefix: string): RegExp {
     if (cachedMethodRegex && cachedMethodPrefix === methodPrefix) {
         return cachedMethodRegex;
     }
@@ -40,11 +39,39 @@ export function initCodeLensCache(context: vscode.ExtensionContext): void {
 }
 
 export class DjangoTestCodeLensProvider implements vscode.CodeLensProvider {
-    private pathSepRegex: RegExp;
+    constructor(private workspaceRoot: string, private discovery?: TestDiscovery) { }
+
+    /**
+     * The discovered node of a test, so commands get its children and location;
+     * a minimal node if the file was not discovered yet
+     */
+    private getNode(name: string, type: 'class' | 'method', dottedPath: string, uri: vscode.Uri): TestNode {
+        return this.discovery?.getNodeByDottedPath(dottedPath) || { name, type, dottedPath, uri };
+    }
 
-    constructor(private workspaceRoot: string) {
-        // Pre-compile path separator regex
-        this.pathSepRegex = new RegExp(path.sep.replace(/\\/g, '\\\\'), 'g');
+    /**
+     * Lenses on docstrings a test file's load_tests hook runs as doctests
+     */
+    private getDoctestLenses(uri: vscode.Uri): vscode.CodeLens[] {
+        const codeLenses: vscode.CodeLens[] = [];
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        for (const node of this.discovery?.getNodesInFile(uri) || []) {
+            if (node.type !== 'doctest' || !node.range) continue;
+
+            codeLenses.push(new vscode.CodeLens(node.range, {
+                title: '$(play) Run Doctest',
+                command: 'django-test-manager.runTest',
+                arguments: [node]
+            }));
+            if (stateManager.getDiff(node.dottedPath!)) {
+                codeLenses.push(new vscode.CodeLens(node.range, {
+                    title: '$(diff) View Diff',
+                    command: 'django-test-manager.viewDiff',
+                    arguments: [node]
+                }));
+            }
+        }
+        return codeLenses;
     }
 
     provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
@@ -53,23 +80,26 @@ export class DjangoTestCodeLensProvider implements vscode.CodeLensProvider {
             return [];
         }
 
-        const codeLenses: vscode.CodeLens[] = [];
+        const codeLenses = this.getDoctestLenses(document.uri);
         const text = document.getText();
+        // pytest also runs module-level test functions
+        const backend = getTestRunnerBackend(this.workspaceRoot);
+        const collectFunctions = backend === 'pytest';
 
         // Quick check: if no 'class' keyword, skip entirely
-        if (!text.includes('class ')) {
-            return [];
+        if (!text.includes('class ') && !(collectFunctions && text.includes('def '))) {
+            return codeLenses;
         }
 
         const lines = text.split('\n');
 
-        // Calculate file dotted path once
+        // Calculate the file's test id once
         const relativePath = path.relative(this.workspaceRoot, document.uri.fsPath);
         const cleanRelativePath = relativePath.startsWith(path.sep) ? relativePath.substring(1) : relativePath;
-        const fileDottedPath = cleanRelativePath.replace(/\.py$/, '').replace(this.pathSepRegex, '.');
 
-        const methodRegex = getMethodRegex();
-        const stateManager = TestStateManager.getInstance();
+        const methodPrefix = getConfiguration(this.workspaceRoot).get<string>('testMethodPattern') || 'test_';
+        const methodRegex = getMethodRegex(methodPrefix);
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
 
         let currentClassName: string | null = null;
         let isCurrentClassTestClass = false;
@@ -100,63 +130,57 @@ export class DjangoTestCodeLensProvider implements vscode.CodeLensProvider {
                         continue;
                     }
 
-                    const dottedPath = `${fileDottedPath}.${currentClassName}`;
+                    const dottedPath = buildTestId(backend, cleanRelativePath, currentClassName);
                     const range = new vscode.Range(i, 0, i, lineLength);
+                    const node = this.getNode(currentClassName, 'class', dottedPath, document.uri);
 
                     codeLenses.push(new vscode.CodeLens(range, {
                         title: '$(play) Run Test Class',
                         command: 'django-test-manager.runTest',
-                        arguments: [{
-                            name: currentClassName,
-                            type: 'class',
-                            dottedPath: dottedPath,
-                            uri: document.uri
-                        }]
+                        arguments: [node]
                     }));
 
                     codeLenses.push(new vscode.CodeLens(range, {
                         title: '$(debug-alt) Debug Test Class',
                         command: 'django-test-manager.debugTest',
-                        arguments: [{
-                            name: currentClassName,
-                            type: 'class',
-                            dottedPath: dottedPath,
-                            uri: document.uri
-                        }]
+                        arguments: [node]
                     }));
                 }
                 continue;
             }
 
+            // A module-level function ends the class body; pytest runs test functions
+            const functionMatch = FUNCTION_REGEX.exec(line);
+            if (functionMatch) {
+                currentClassName = null;
+                isCurrentClassTestClass = false;
+                if (!collectFunctions || !functionMatch[1].startsWith(methodPrefix)) {
+                    continue;
+                }
+            }
+
             // Check for method definition (only if inside a test class)
-            if (isCurrentClassTestClass && currentClassName &&
+            if ((functionMatch || (isCurrentClassTestClass && currentClassName)) &&
                 (trimmedStart.startsWith('def ') || trimmedStart.startsWith('async def '))) {
-                const methodMatch = methodRegex.exec(line);
+                const methodMatch = functionMatch || methodRegex.exec(line);
                 if (methodMatch) {
                     const methodName = methodMatch[1];
-                    const dottedPath = `${fileDottedPath}.${currentClassName}.${methodName}`;
+                    const dottedPath = currentClassName
+                        ? buildTestId(backend, cleanRelativePath, currentClassName, methodName)
+                        : buildTestId(backend, cleanRelativePath, methodName);
                     const range = new vscode.Range(i, 0, i, lineLength);
+                    const node = this.getNode(methodName, 'method', dottedPath, document.uri);
 
                     codeLenses.push(new vscode.CodeLens(range, {
                         title: '$(play) Run Test',
                         command: 'django-test-manager.runTest',
-                        arguments: [{
-                            name: methodName,
-                            type: 'method',
-                            dottedPath: dottedPath,
-                            uri: document.uri
-                        }]
+                        arguments: [node]
                     }));
 
                     codeLenses.push(new vscode.CodeLens(range, {
                         title: '$(debug-alt) Debug Test',
                         command: 'django-test-manager.debugTest',
-                        arguments: [{
-                            name: methodName,
-                            type: 'method',
-                            dottedPath: dottedPath,
-                            uri: document.uri
-                        }]
+                        arguments: [node]
                     }));
 
                     // Only check for diff if test has failed (avoid unnecessary map lookup)
@@ -165,12 +189,7 @@ export class DjangoTestCodeLensProvider implements vscode.CodeLensProvider {
                         codeLenses.push(new vscode.CodeLens(range, {
                             title: '$(diff) View Diff',
                             command: 'django-test-manager.viewDiff',
-                            arguments: [{
-                                name: methodName,
-                                type: 'method',
-                                dottedPath: dottedPath,
-                                uri: document.uri
-                            }]
+                            arguments: [node]
                         }));
                     }
                 }
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import { COLLECT_RUNNER, getPythonHelpersPath, TestResultChannel } from './resultChannel';
+import { getActiveProfile, getConfiguration, getMergedEnvironmentVariables, getPythonInterpreter } from './testUtils';
+import { getResultListenHost, toLocalPath, wrapCommand } from './executionWrapper';
+
+/**
+ * A test id reported by Django's test loader
+ */
+export interface CollectedTest {
+    id: string;
+    /** Source location, when the test method could be found */
+    file?: string;
+    line?: number;
+}
+
+/**
+ * Result of a collection run
+ */
+export interface CollectionResult {
+    tests: CollectedTest[];
+    /** Modules Django failed to import while building the suite */
+    importErrors: string[];
+    /** Console output of manage.py, for troubleshooting */
+    output: string;
+    exitCode: number | null;
+}
+
+/**
+ * Asks the configured manage.py environment which tests Django would run.
+ *
+ * Runs `manage.py test` with the bundled collect runner, which builds the
+ * suite exactly like a real run (patterns, `load_tests`, generated tests)
+ * and reports every test id over the result channel without running anything.
+ */
+export class TestCollector {
+    constructor(private workspaceRoot: string) { }
+
+    public async collect(token?: vscode.CancellationToken): Promise<CollectionResult> {
+        const result: CollectionResult = { tests: [], importErrors: [], output: '', exitCode: null };
+
+        if (!getPythonHelpersPath()) {
+            throw new Error('Bundled Python helpers are not available');
+        }
+
+        const resultChannel = new TestResultChannel();
+        try {
+            resultChannel.onDidReceiveEvent((event) => {
+                if (event.event !== 'collectTest' || !event.test) {
+                    return;
+                }
+                if (event.fixture === 'import') {
+                    result.importErrors.push(event.test);
+                } else if (!event.fixture) {
+                    result.tests.push({
+                        id: event.test,
+                        file: event.file ? toLocalPath(this.workspaceRoot, event.file) : undefined,
+                        line: event.line || undefined
+                    });
+                }
+            });
+
+            const port = await resultChannel.listen(getResultListenHost(this.workspaceRoot));
+            const { cmd, args, env } = wrapCommand(this.workspaceRoot, {
+                ...this.buildCommand(),
+                env: resultChannel.getEnvironment(await getMergedEnvironmentVariables(this.workspaceRoot), port)
+            });
+
+            result.exitCode = await new Promise<number | null>((resolve, reject) => {
+                const child = cp.spawn(cmd, args, { cwd: this.workspaceRoot, env });
+                const onData = (data: Buffer) => result.output += data.toString();
+                child.stdout.on('data', onData);
+                child.stderr.on('data', onData);
+
+                const cancellation = token?.onCancellationRequested(() => child.kill());
+                child.on('close', (code) => {
+                    cancellation?.dispose();
+                    resolve(code);
+                });
+                child.on('error', (err) => {
+                    cancellation?.dispose();
+                    reject(err);
+                });
+            });
+
+            await resultChannel.waitForClose();
+        } finally {
+            resultChannel.dispose();
+        }
+
+        return result;
+    }
+
+    private buildCommand(): { cmd: string; args: string[] } {
+        const config = getConfiguration(this.workspaceRoot);
+
+        const profile = getActiveProfile(this.workspaceRoot);
+        const pythonPath = getPythonInterpreter(this.workspaceRoot);
+        const managePyPath = config.get<string>('managePyPath') || 'manage.py';
+        const profileArgs = profile.arguments;
+
+        // Keep arguments that affect which tests are loaded (-p, --tag, ...)
+        const args: string[] = [];
+        for (let i = 0; i < profileArgs.length; i++) {
+            if (profileArgs[i] === '--testrunner') {
+                i++;
+            } else if (!profileArgs[i].startsWith('--testrunner=') && profileArgs[i] !== '--parallel') {
+                args.push(profileArgs[i]);
+            }
+        }
+
+        return {
+            cmd: pythonPath,
+            args: [managePyPath, 'test', ...args, '--noinput', '--testrunner', COLLECT_RUNNER]
+        };
+    }
+}
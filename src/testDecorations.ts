@@ -25,21 +25,29 @@ export class TestDecorationProvider {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('django-test-manager');
     }
 
-    public updateDecorations(editor: vscode.TextEditor, nodes: TestNode[]) {
-        const passedRanges: vscode.Range[] = [];
+    /**
+     * Decorate the given nodes defined in the editor's document. A line shared
+     * by several nodes (a base method inherited by several subclasses) shows
+     * failed if any of them failed.
+     */
+    public updateDecorations(editor: vscode.TextEditor, nodes: TestNode[], stateManager: TestStateManager) {
+        const passedRanges = new Map<number, vscode.Range>();
         const failedRanges: vscode.Range[] = [];
+        const failedLines = new Set<number>();
         const diagnostics: vscode.Diagnostic[] = [];
 
-        const stateManager = TestStateManager.getInstance();
-
         const visit = (node: TestNode) => {
             if (node.uri && node.range && node.uri.toString() === editor.document.uri.toString()) {
                 if (node.dottedPath) {
+                    const line = node.range.start.line;
                     const status = stateManager.getStatus(node.dottedPath);
                     if (status === 'passed') {
-                        passedRanges.push(node.range);
+                        passedRanges.set(line, node.range);
                     } else if (status === 'failed') {
-                        failedRanges.push(node.range);
+                        if (!failedLines.has(line)) {
+                            failedLines.add(line);
+                            failedRanges.push(node.range);
+                        }
 
                         // Add diagnostic if we have failure details (stored in state manager ideally, but for now just generic)
                         // We will enhance TestStateManager to store failure messages later
@@ -56,14 +64,13 @@ export class TestDecorationProvider {
                     }
                 }
             }
-            if (node.children) {
-                node.children.forEach(visit);
-            }
         };
 
         nodes.forEach(visit);
 
-        editor.setDecorations(this.passedDecorationType, passedRanges);
+        editor.setDecorations(this.passedDecorationType, Array.from(passedRanges.entries())
+            .filter(([line]) => !failedLines.has(line))
+            .map(([, range]) => range));
         editor.setDecorations(this.failedDecorationType, failedRanges);
         this.diagnosticCollection.set(editor.document.uri, diagnostics);
     }
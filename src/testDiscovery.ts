@@ -1,196 +1,1406 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { TestStateManager } from './testStateManager';
-import { isTestClass } from './testUtils';
+import { AstDiscoveryBackend, AstMethod, AstModule } from './astDiscovery';
+import { ClassHierarchyIndex, ClassInfo, DoctestInfo, IndexedClass, MethodInfo, ModuleInfo, TestGenerator } from './classHierarchy';
+import { CollectedTest } from './testCollector';
+import { getActiveProfile, getConfiguration, getTestRunnerBackend, isGeneratedTestName, isInProject, TestRunnerBackend } from './testUtils';
+import { DiscoveryCache, hashContent } from './discoveryCache';
+import { DjangoApp, DjangoAppResolver } from './djangoApps';
+import { describeMethodProblem, DiscoveryProblem, findMethodProblems, findMissingPackages, getDjangoTestPattern, matchesTestPattern, suggestTestFileName } from './discoveryProblems';
 
 export interface TestNode {
     name: string;
-    type: 'app' | 'folder' | 'file' | 'class' | 'method';
+    /**
+     * `subtest` nodes are added under a method when a run reports its subTest blocks.
+     * `doctest` nodes are docstrings a file's load_tests hook adds to its tests;
+     * they are located at the docstring in the module defining them.
+     * `problems` lists the tests the runner would skip as `problem` nodes in the tree view.
+     */
+    type: 'app' | 'folder' | 'file' | 'class' | 'method' | 'subtest' | 'doctest' | 'problems' | 'problem';
     children?: TestNode[];
     uri?: vscode.Uri;
     range?: vscode.Range;
     dottedPath?: string;
     status?: 'pending' | 'passed' | 'failed' | 'skipped' | 'unknown';
     parent?: TestNode;
+    /**
+     * Set after a collection run: whether Django's test loader reported this test
+     * (`notCollected`: found statically only, `runtimeOnly`: found by Django only)
+     */
+    collectStatus?: 'collected' | 'notCollected' | 'runtimeOnly';
+    /** Django test tags, including those inherited from the class and its bases */
+    tags?: string[];
+    /**
+     * Set on methods whose tests parameterized or ddt generate at import time.
+     * Their children are the generated tests seen in runs, or a placeholder.
+     */
+    generator?: TestGenerator;
+    /** Stands in for the generated tests of a method until a run reports them */
+    placeholder?: boolean;
 }
 
+/**
+ * Node to run for a node of the tree. A subtest runs with its test, and a
+ * doctest with the test file whose load_tests hook adds it, as manage.py
+ * cannot load doctests by name. Generated tests not reported by a run yet have
+ * unknown names, and the decorated method no longer exists at runtime, so they
+ * run with their class.
+ */
+export function getRunnableNode(node: TestNode): TestNode {
+    if ((node.type === 'subtest' || node.type === 'doctest') && node.parent) {
+        return node.parent;
+    }
+    const method = node.placeholder ? node.parent : node;
+    if (method?.generator && method.parent && method.children?.some(child => child.placeholder)) {
+        return method.parent;
+    }
+    return node;
+}
+
+/**
+ * Decorators seen by the regex parser before a class or def
+ */
+interface ParsedDecorators {
+    tags: string[];
+    generator?: TestGenerator;
+}
+
+export const EXCLUDE_PATTERN = '**/{node_modules,venv,.venv,env,.env,__pycache__,.git,.tox,dist,build}/**';
+
 export class TestDiscovery {
     private classRegex = /^class\s+(\w+)(?:\(([^)]+)\))?/;
+    private tagDecoratorRegex = /^@(?:[\w.]+\.)?tag\(([^)]*)\)/;
+    private parameterizedDecoratorRegex = /^@(?:parameterized\.)?expand\(/;
+    private ddtDecoratorRegex = /^@(?:ddt\.)?(?:data|idata|file_data)\(/;
+    private fromImportRegex = /^from\s+(\.*[\w.]*)\s+import\s+(.+)$/;
+    private importRegex = /^import\s+(.+)$/;
     private methodRegex: RegExp | null = null;
+    private functionRegex: RegExp | null = null;
     private methodPrefix: string | null = null;
+    private methodNameRegex: RegExp | null = null;
     private pathSepRegex: RegExp;
+    private astBackend: AstDiscoveryBackend;
+    private appResolver: DjangoAppResolver;
+    // Installed apps inside the workspace when the tree is grouped by app
+    private apps: DjangoApp[] | null = null;
+    private classIndex = new ClassHierarchyIndex();
 
-    constructor(private workspaceRoot: string) {
+    constructor(private workspaceRoot: string, private cache?: DiscoveryCache) {
         // Pre-compile path separator regex once
         this.pathSepRegex = new RegExp(path.sep.replace(/\\/g, '\\\\'), 'g');
+        this.astBackend = new AstDiscoveryBackend(workspaceRoot);
+        this.appResolver = new DjangoAppResolver(workspaceRoot);
     }
 
+    private _onDidChangeTests = new vscode.EventEmitter<TestNode[]>();
+    /**
+     * Fires when validating cached results in the background changed the tests
+     */
+    public readonly onDidChangeTests = this._onDidChangeTests.event;
+
+    private _onDidChangeProblems = new vscode.EventEmitter<DiscoveryProblem[]>();
+    /**
+     * Fires when the test files were indexed again, with the tests the runner would skip
+     */
+    public readonly onDidChangeProblems = this._onDidChangeProblems.event;
+    private problems: DiscoveryProblem[] = [];
+    // Problems of each test file, by file key
+    private fileProblems = new Map<string, DiscoveryProblem[]>();
+
+    // The first discovery shows cached results, then validates them in the background
+    private cacheRestored = false;
+    private validation: Promise<void> | null = null;
+
     private fileNodes = new Map<string, TestNode>();
+    // The last structured tree, updated in place when single files change
+    private rootNodes: TestNode[] | null = null;
+
+    // Files last indexed from an unsaved editor buffer rather than from disk
+    private bufferFiles = new Set<string>();
+
+    // Files matching the test file pattern; other indexed modules only provide base classes
+    private testFiles = new Map<string, vscode.Uri>();
 
     // Cache for file dotted paths to avoid repeated calculations
     private dottedPathCache = new Map<string, string>();
 
+    // Nodes of the last structured tree by test id and by file and line of their definition
+    private nodesById = new Map<string, TestNode>();
+    private nodesByLocation = new Map<string, Map<number, TestNode[]>>();
+
+    // Names of the tests generated from parameterized/ddt methods, by decorated method id
+    private generatedNames = new Map<string, string[]>();
+
+    // Test ids reported by the last collection run, reconciled into the tree
+    private collectedTests: Map<string, CollectedTest> | null = null;
+
+    // Test ids are dotted labels for manage.py test and node ids for pytest
+    private backend: TestRunnerBackend = 'django';
+
+    private refreshBackend(): void {
+        const backend = getTestRunnerBackend(this.workspaceRoot);
+        if (backend !== this.backend) {
+            this.backend = backend;
+            this.dottedPathCache.clear();
+        }
+    }
+
+    /**
+     * Read INSTALLED_APPS again when tests are grouped by app
+     */
+    private async refreshApps(): Promise<void> {
+        const config = getConfiguration(this.workspaceRoot);
+        if (config.get<string>('treeLayout') !== 'apps') {
+            this.apps = null;
+            return;
+        }
+        try {
+            this.apps = await this.appResolver.getApps();
+        } catch (e) {
+            console.error('Error reading INSTALLED_APPS:', e);
+            this.apps = [];
+        }
+    }
+
     private getFileDottedPath(uri: vscode.Uri): string {
         const key = uri.fsPath;
         let dottedPath = this.dottedPathCache.get(key);
         if (!dottedPath) {
             const relativePath = path.relative(this.workspaceRoot, key);
-            dottedPath = relativePath.replace(/\.py$/, '').replace(this.pathSepRegex, '.');
+            dottedPath = this.backend === 'pytest'
+                ? relativePath.replace(this.pathSepRegex, '/')
+                : relativePath.replace(/\.py$/, '').replace(this.pathSepRegex, '.');
             this.dottedPathCache.set(key, dottedPath);
         }
         return dottedPath;
     }
 
+    /**
+     * Id of a class, method or parametrize case inside a file or class
+     */
+    private getChildId(parentId: string, name: string): string {
+        return this.backend === 'pytest' ? `${parentId}::${name}` : `${parentId}.${name}`;
+    }
+
+    /**
+     * Importable dotted module name of a file, independent of the runner backend
+     */
+    private getModuleName(uri: vscode.Uri): string {
+        const relativePath = path.relative(this.workspaceRoot, uri.fsPath);
+        return relativePath.replace(/\.py$/, '').replace(this.pathSepRegex, '.');
+    }
+
     async discover(): Promise<TestNode[]> {
+        this.refreshBackend();
+        await this.refreshApps();
+
+        if (!this.cacheRestored) {
+            this.cacheRestored = true;
+            if (await this.restoreFromCache()) {
+                this.validation = this.scanWorkspace()
+                    .then(changed => {
+                        if (changed) {
+                            this._onDidChangeTests.fire(this.structureTests(Array.from(this.fileNodes.values())));
+                        }
+                    })
+                    .catch(e => console.error('Error validating cached tests:', e))
+                    .finally(() => this.validation = null);
+                return this.structureTests(Array.from(this.fileNodes.values()));
+            }
+        }
+
+        // Results of a running validation are reported through onDidChangeTests
+        if (this.validation) {
+            return this.structureTests(Array.from(this.fileNodes.values()));
+        }
+
+        await this.scanWorkspace();
+        return this.structureTests(Array.from(this.fileNodes.values()));
+    }
+
+    /**
+     * Index every Python file of the workspace, reparsing only files changed
+     * since they were cached, and rebuild the test file nodes.
+     * Returns whether any test file or module changed.
+     */
+    private async scanWorkspace(): Promise<boolean> {
         // Find all python files that might contain tests
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
-        const filePattern = config.get<string>('testFilePattern') || '**/*test*.py';
-        const pattern = new vscode.RelativePattern(this.workspaceRoot, filePattern);
-        const excludePattern = '**/{node_modules,venv,.venv,env,.env,__pycache__,.git,.tox,dist,build}/**';
-        const files = await vscode.workspace.findFiles(pattern, excludePattern);
+        const files = await this.findTestFiles();
 
         if (files.length === 0) {
             vscode.window.showInformationMessage('No Django tests found. Make sure your test files match the pattern *test*.py');
-            return [];
+            const changed = this.testFiles.size > 0;
+            this.testFiles.clear();
+            this.fileNodes.clear();
+            return changed;
         }
 
-        // Clear existing caches on full discover
-        this.fileNodes.clear();
         this.dottedPathCache.clear();
 
         // Process files in batches for better memory management
         const BATCH_SIZE = 50;
+        let changed = false;
         for (let i = 0; i < files.length; i += BATCH_SIZE) {
-            const batch = files.slice(i, i + BATCH_SIZE);
-            const results = await Promise.all(batch.map(file => this.parseFile(file)));
+            changed = await this.indexFiles(files.slice(i, i + BATCH_SIZE)) || changed;
+        }
 
-            for (const fileNode of results) {
-                if (fileNode?.uri) {
-                    this.fileNodes.set(fileNode.uri.toString(), fileNode);
-                }
+        // Base classes and mixins may live in other modules (e.g. tests/base.py);
+        // only the modules test files inherit from are indexed, not every module
+        const imported = await this.indexImportedModules(files, true);
+        changed = imported.changed || changed;
+
+        // Modules deleted or no longer imported since the last scan (or since they were cached)
+        const found = new Set([...files.map(file => file.fsPath), ...imported.modules]);
+        for (const fsPath of this.classIndex.getModulePaths()) {
+            if (!found.has(fsPath)) {
+                this.classIndex.removeModule(fsPath);
+                changed = true;
             }
         }
 
-        return this.structureTests(Array.from(this.fileNodes.values()));
+        if (files.length !== this.testFiles.size || files.some(file => !this.testFiles.has(file.toString()))) {
+            changed = true;
+        }
+        this.testFiles.clear();
+        for (const file of files) {
+            this.testFiles.set(file.toString(), file);
+        }
+
+        if (this.cache?.isEnabled) {
+            this.cache.retain(found);
+            this.cache.setTestFiles(files.map(file => file.fsPath));
+        }
+
+        this.buildFileNodes();
+        return changed;
+    }
+
+    private async findTestFiles(): Promise<vscode.Uri[]> {
+        const config = getConfiguration(this.workspaceRoot);
+        const filePattern = config.get<string>('testFilePattern') || '**/*test*.py';
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(this.workspaceRoot, filePattern), EXCLUDE_PATTERN);
+        // Projects nested in this one discover their own tests
+        return files.filter(file => isInProject(this.workspaceRoot, file.fsPath));
+    }
+
+    /**
+     * List test files as folder and file nodes without parsing them.
+     * File nodes have no children until resolved with resolveFile.
+     */
+    public async discoverFiles(): Promise<TestNode[]> {
+        this.refreshBackend();
+        const files = await this.findTestFiles();
+        await this.refreshApps();
+        const rootNodes = this.groupNodes(files.map(uri => ({
+            name: path.basename(uri.fsPath),
+            type: 'file' as const,
+            uri,
+            children: [],
+            dottedPath: this.getFileDottedPath(uri)
+        })));
+        this.sortNodes(rootNodes);
+        return rootNodes;
+    }
+
+    /**
+     * Whether the tree is reconciled with tests collected by Django's loader
+     */
+    public hasCollectedTests(): boolean {
+        return this.collectedTests !== null;
+    }
+
+    /**
+     * Show the tests of the last session from the discovery cache
+     */
+    private async restoreFromCache(): Promise<boolean> {
+        this.updateMethodRegex();
+        if (!this.cache || !await this.cache.load(this.getCacheKey())) {
+            return false;
+        }
+
+        for (const [fsPath, entry] of this.cache.getEntries()) {
+            this.classIndex.setModule(this.cache.toModuleInfo(fsPath, entry));
+        }
+        this.generatedNames = new Map(this.cache.getGenerated());
+        for (const fsPath of this.cache.getTestFiles()) {
+            const uri = vscode.Uri.file(fsPath);
+            this.testFiles.set(uri.toString(), uri);
+        }
+        this.buildFileNodes();
+        return this.fileNodes.size > 0;
+    }
+
+    /**
+     * Settings the parsed modules depend on
+     */
+    private getCacheKey(): string {
+        const config = getConfiguration(this.workspaceRoot);
+        return `${this.methodPrefix}|${config.get<string>('discoveryBackend') || 'regex'}`;
     }
 
     public async updateFile(uri: vscode.Uri): Promise<TestNode[]> {
+        this.refreshBackend();
         // Clear dotted path cache for this file
         this.dottedPathCache.delete(uri.fsPath);
 
-        const node = await this.parseFile(uri);
-        if (node) {
-            this.fileNodes.set(uri.toString(), node);
-        } else {
-            this.fileNodes.delete(uri.toString());
+        // Modules only indexed for their base classes are not test files
+        const isTestFile = !this.isImportedModule(uri);
+        await this.indexFiles([uri]);
+        await this.indexImportedModules([uri]);
+        if (isTestFile) {
+            this.testFiles.set(uri.toString(), uri);
         }
-        return this.structureTests(Array.from(this.fileNodes.values()));
+        // Subclasses in other files may inherit from this one
+        return this.updateFileNodes([uri.toString(), ...this.getDependentTestFiles(uri)]);
     }
 
     public removeFile(uri: vscode.Uri): Promise<TestNode[]> {
-        this.fileNodes.delete(uri.toString());
+        this.refreshBackend();
+        const dependents = this.getDependentTestFiles(uri);
+        this.testFiles.delete(uri.toString());
         this.dottedPathCache.delete(uri.fsPath);
-        return Promise.resolve(this.structureTests(Array.from(this.fileNodes.values())));
+        this.classIndex.removeModule(uri.fsPath);
+        this.cache?.delete(uri.fsPath);
+        this.astBackend.invalidate(uri.fsPath);
+        return Promise.resolve(this.updateFileNodes([uri.toString(), ...dependents]));
+    }
+
+    /**
+     * Keys of the test files whose classes may resolve through a module:
+     * files importing from it directly or through the modules they import from
+     */
+    private getDependentTestFiles(uri: vscode.Uri): string[] {
+        const name = this.getModuleName(uri).replace(/\.?__init__$/, '');
+        const importsFrom = (module: ModuleInfo, visited: Set<string>): boolean => {
+            if (visited.has(module.module)) return false;
+            visited.add(module.module);
+            return [...this.classIndex.getBaseModules(module), ...this.classIndex.getDoctestModules(module)].some(imported => {
+                const importedModule = imported === name ? undefined : this.classIndex.getModuleByName(imported);
+                return imported === name || (!!importedModule && importsFrom(importedModule, visited));
+            });
+        };
+
+        const dependents: string[] = [];
+        for (const [key, file] of this.testFiles) {
+            const module = file.fsPath !== uri.fsPath ? this.classIndex.getModule(file.fsPath) : undefined;
+            if (module && importsFrom(module, new Set())) {
+                dependents.push(key);
+            }
+        }
+        return dependents;
+    }
+
+    /**
+     * Rebuild the nodes of some test files and put them in place of their
+     * previous nodes in the last structured tree. Files gaining or losing their
+     * node, and trees reconciled with collected tests, are structured again.
+     */
+    private updateFileNodes(keys: string[]): TestNode[] {
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        let restructure = !this.rootNodes || this.collectedTests !== null;
+        for (const key of new Set(keys)) {
+            const uri = this.testFiles.get(key);
+            const module = uri && this.classIndex.getModule(uri.fsPath);
+            const fileNode = module ? this.buildFileNode(module) : null;
+            const previous = this.fileNodes.get(key);
+            if (fileNode) {
+                this.fileNodes.set(key, fileNode);
+            } else {
+                this.fileNodes.delete(key);
+            }
+            // Modules providing base classes only have no node
+            if (restructure || (!fileNode && !previous)) continue;
+
+            const siblings = previous?.parent ? previous.parent.children! : this.rootNodes!;
+            const index = previous ? siblings.indexOf(previous) : -1;
+            if (!fileNode || index === -1) {
+                restructure = true;
+                continue;
+            }
+            siblings[index] = fileNode;
+            fileNode.parent = previous!.parent;
+            this.sortNodes(fileNode.children || []);
+            this.unindexNode(previous!);
+            this.indexNode(fileNode);
+            if (!stateManager.getStatus(fileNode.dottedPath!)) {
+                stateManager.setStatus(fileNode.dottedPath!, 'unknown');
+            }
+        }
+        this.updateProblems(keys);
+        return restructure ? this.structureTests(Array.from(this.fileNodes.values())) : this.rootNodes!;
+    }
+
+    /**
+     * Whether a module is indexed only because test files inherit from its classes
+     */
+    public isImportedModule(uri: vscode.Uri): boolean {
+        return !this.testFiles.has(uri.toString()) && !!this.classIndex.getModule(uri.fsPath);
+    }
+
+    /**
+     * Remember the tests Django's loader reported (or clear them with null).
+     * Takes effect on the next discovery.
+     */
+    public setCollectedTests(tests: CollectedTest[] | null): void {
+        this.collectedTests = tests ? new Map(tests.map(test => [test.id, test])) : null;
     }
 
     public async parseFile(uri: vscode.Uri): Promise<TestNode | null> {
-        try {
-            const content = (await vscode.workspace.fs.readFile(uri)).toString();
+        this.refreshBackend();
+        await this.indexFiles([uri]);
+        await this.indexImportedModules([uri]);
+        const module = this.classIndex.getModule(uri.fsPath);
+        return module ? this.buildFileNode(module) : null;
+    }
+
+    /**
+     * Build the node of a test file, parsing it only if it is not indexed yet
+     */
+    public async resolveFile(uri: vscode.Uri): Promise<TestNode | null> {
+        if (!this.classIndex.getModule(uri.fsPath)) {
+            return this.parseFile(uri);
+        }
+        this.refreshBackend();
+        const module = this.classIndex.getModule(uri.fsPath)!;
+        return this.buildFileNode(module);
+    }
+
+    /**
+     * Index the project modules the base classes of files are imported from
+     * (transitively), so inheritance resolves without indexing the whole workspace.
+     * Modules already indexed are only indexed again with `reindex` (a full
+     * scan, where the discovery cache skips unchanged files). Returns whether
+     * any module changed and the paths of the imported modules.
+     */
+    private async indexImportedModules(uris: vscode.Uri[], reindex = false): Promise<{ changed: boolean; modules: string[] }> {
+        const visited = new Set<string>(uris.map(uri => uri.fsPath));
+        const modules: string[] = [];
+        let changed = false;
+        let pending = uris.map(uri => uri.fsPath);
+        while (pending.length > 0) {
+            const candidates: vscode.Uri[] = [];
+            for (const fsPath of pending) {
+                const module = this.classIndex.getModule(fsPath);
+                if (!module) continue;
+                // Doctests added by load_tests are defined in other modules too
+                const imported = [...this.classIndex.getBaseModules(module), ...this.classIndex.getDoctestModules(module)];
+                for (const name of imported) {
+                    const modulePath = path.join(this.workspaceRoot, ...name.split('.'));
+                    for (const file of [`${modulePath}.py`, path.join(modulePath, '__init__.py')]) {
+                        if (!visited.has(file)) {
+                            visited.add(file);
+                            candidates.push(vscode.Uri.file(file));
+                        }
+                    }
+                }
+            }
+
+            const existing = (await Promise.all(candidates.map(async (candidate) => {
+                try {
+                    await vscode.workspace.fs.stat(candidate);
+                    return candidate;
+                } catch {
+                    // Not a project module (django.test, rest_framework...)
+                    return null;
+                }
+            }))).filter((candidate): candidate is vscode.Uri => candidate !== null);
+
+            const inProject = existing.filter(candidate => isInProject(this.workspaceRoot, candidate.fsPath));
+            const toIndex = reindex ? inProject : inProject.filter(candidate => !this.classIndex.getModule(candidate.fsPath));
+            changed = await this.indexFiles(toIndex) || changed;
+            pending = inProject.map(candidate => candidate.fsPath);
+            modules.push(...pending);
+        }
+        return { changed, modules };
+    }
+
+    /**
+     * Parse files into the class hierarchy index, using the AST backend when configured.
+     * Files the AST backend could not handle are parsed with the regex parser.
+     * With the discovery cache, files whose mtime, size or content did not change
+     * are not parsed again. Files with unsaved changes in an editor are parsed
+     * from the editor's buffer. Returns whether any module changed.
+     */
+    private async indexFiles(uris: vscode.Uri[]): Promise<boolean> {
+        this.updateMethodRegex();
+        const cache = this.cache?.isEnabled ? this.cache : undefined;
+        cache?.setKey(this.getCacheKey());
+
+        const stats = await Promise.all(uris.map(async (uri) => {
+            if (!cache) return undefined;
+            try {
+                const stat = await vscode.workspace.fs.stat(uri);
+                return { mtime: stat.mtime, size: stat.size };
+            } catch {
+                return undefined;
+            }
+        }));
+
+        // Unsaved buffers are what the CodeLenses and the cursor see
+        const buffers = new Map(vscode.workspace.textDocuments
+            .filter(document => document.isDirty && document.uri.scheme === 'file')
+            .map(document => [document.uri.fsPath, document.getText()]));
+
+        let changed = false;
+        const restore = (uri: vscode.Uri): void => {
+            // A buffer closed without saving leaves the file on disk
+            if (!this.classIndex.getModule(uri.fsPath) || this.bufferFiles.delete(uri.fsPath)) {
+                this.classIndex.setModule(cache!.toModuleInfo(uri.fsPath, cache!.get(uri.fsPath)!));
+                changed = true;
+            }
+        };
 
-            // Quick check: if no 'class' keyword, skip entirely
-            if (!content.includes('class ')) {
+        // Files unchanged since they were cached are not read again
+        const pending = uris.filter((uri, i) => {
+            if (buffers.has(uri.fsPath)) {
+                return true;
+            }
+            const entry = cache?.get(uri.fsPath);
+            const stat = stats[i];
+            if (entry && stat && entry.mtime === stat.mtime && entry.size === stat.size) {
+                restore(uri);
+                return false;
+            }
+            return true;
+        });
+
+        const contents = await Promise.all(pending.map(async (uri) => {
+            if (buffers.has(uri.fsPath)) {
+                return buffers.get(uri.fsPath)!;
+            }
+            try {
+                return (await vscode.workspace.fs.readFile(uri)).toString();
+            } catch (e) {
+                console.error(`Error reading file ${uri.fsPath}:`, e);
                 return null;
             }
+        }));
 
-            const lines = content.split('\n');
+        const toParse: { uri: vscode.Uri; content: string; hash?: string }[] = [];
+        pending.forEach((uri, i) => {
+            const content = contents[i];
+            if (content === null) {
+                this.classIndex.removeModule(uri.fsPath);
+                cache?.delete(uri.fsPath);
+                changed = true;
+                return;
+            }
+            if (buffers.has(uri.fsPath)) {
+                // Only saved content is cached
+                toParse.push({ uri, content });
+            } else if (cache) {
+                // Touched but identical files only need their new mtime recorded
+                const hash = hashContent(content);
+                const stat = stats[uris.indexOf(uri)];
+                if (cache.get(uri.fsPath)?.hash === hash) {
+                    if (stat) cache.touch(uri.fsPath, stat);
+                    restore(uri);
+                    return;
+                }
+                toParse.push({ uri, content, hash });
+            } else {
+                toParse.push({ uri, content });
+            }
+        });
 
-            const config = vscode.workspace.getConfiguration('djangoTestManager');
-            const currentPrefix = config.get<string>('testMethodPattern') || 'test_';
+        const config = getConfiguration(this.workspaceRoot);
+        let astResults = new Map<string, AstModule>();
+        if (config.get<string>('discoveryBackend') === 'ast') {
+            astResults = await this.astBackend.parseFiles(toParse
+                .filter(({ content }) => content.includes('class ') || content.includes('def ') || content.includes('import '))
+                .map(({ uri, content }) => ({ path: uri.fsPath, source: content })));
+        }
 
-            // Cache method regex if prefix hasn't changed
-            if (this.methodPrefix !== currentPrefix || !this.methodRegex) {
-                this.methodPrefix = currentPrefix;
-                this.methodRegex = new RegExp(`^\\s+(?:async\\s+)?def\\s+(${currentPrefix}\\w+)`);
+        for (const { uri, content, hash } of toParse) {
+            const astModule = astResults.get(uri.fsPath);
+            const module = astModule
+                ? this.fromAstModule(uri, content, astModule)
+                : this.parseContent(uri, content);
+            const methodProblems = findMethodProblems(content, this.methodPrefix!);
+            if (methodProblems.length > 0) {
+                module.methodProblems = methodProblems;
+            }
+            this.classIndex.setModule(module);
+            if (buffers.has(uri.fsPath)) {
+                this.bufferFiles.add(uri.fsPath);
+            } else {
+                this.bufferFiles.delete(uri.fsPath);
             }
+            const stat = stats[uris.indexOf(uri)];
+            if (cache && hash && stat) {
+                cache.set(uri.fsPath, stat, hash, module);
+            }
+            changed = true;
+        }
+        return changed;
+    }
 
-            const fileDottedPath = this.getFileDottedPath(uri);
+    private updateMethodRegex(): void {
+        const config = getConfiguration(this.workspaceRoot);
+        const currentPrefix = config.get<string>('testMethodPattern') || 'test_';
 
-            const fileNode: TestNode = {
-                name: path.basename(uri.fsPath),
-                type: 'file',
-                uri: uri,
+        // Cache method regex if prefix hasn't changed
+        if (this.methodPrefix !== currentPrefix || !this.methodRegex || !this.functionRegex || !this.methodNameRegex) {
+            this.methodPrefix = currentPrefix;
+            this.methodRegex = new RegExp(`^\\s+(?:async\\s+)?def\\s+(${currentPrefix}\\w+)`);
+            this.functionRegex = new RegExp(`^(?:async\\s+)?def\\s+(${currentPrefix}\\w+)`);
+            this.methodNameRegex = new RegExp(`^${currentPrefix}\\w+$`);
+        }
+    }
+
+    /**
+     * Rebuild the nodes of all test files from the class hierarchy index
+     */
+    private buildFileNodes(): void {
+        this.fileNodes.clear();
+        for (const [key, uri] of this.testFiles) {
+            const module = this.classIndex.getModule(uri.fsPath);
+            const fileNode = module ? this.buildFileNode(module) : null;
+            if (fileNode) {
+                this.fileNodes.set(key, fileNode);
+            }
+        }
+        this.updateProblems();
+    }
+
+    /**
+     * Tests of the discovered files that the test runner would skip
+     */
+    public getProblems(): DiscoveryProblem[] {
+        return this.problems;
+    }
+
+    /**
+     * Find the tests the runner would skip in the given test files, or in all of them
+     */
+    private updateProblems(keys?: string[]): void {
+        const config = getConfiguration(this.workspaceRoot);
+        const profileArgs = getActiveProfile(this.workspaceRoot).arguments;
+        const pattern = getDjangoTestPattern([...(config.get<string[]>('testArguments') || []), ...profileArgs]);
+        const packages = new Map<string, boolean>();
+
+        if (!keys) {
+            this.fileProblems.clear();
+        }
+        for (const key of keys || this.fileNodes.keys()) {
+            const fileNode = this.fileNodes.get(key);
+            if (fileNode) {
+                this.fileProblems.set(key, this.findFileProblems(fileNode, pattern, packages));
+            } else {
+                this.fileProblems.delete(key);
+            }
+        }
+
+        this.problems = Array.from(this.fileProblems.values()).flat();
+        this._onDidChangeProblems.fire(this.problems);
+    }
+
+    private findFileProblems(fileNode: TestNode, pattern: string, packages: Map<string, boolean>): DiscoveryProblem[] {
+        const problems: DiscoveryProblem[] = [];
+        const firstLine = new vscode.Range(0, 0, 0, 0);
+        const uri = fileNode.uri!;
+        // A test label loads its module whatever its name, but running an
+        // app or the whole suite only discovers matching files in packages
+        if (this.backend === 'django') {
+            if (!matchesTestPattern(fileNode.name, pattern)) {
+                problems.push({
+                    kind: 'filePattern',
+                    uri,
+                    range: firstLine,
+                    message: `${fileNode.name} does not match '${pattern}': Django's test runner skips its tests when running their app or all tests`,
+                    rename: suggestTestFileName(fileNode.name, pattern)
+                });
+            }
+            const directories = findMissingPackages(this.workspaceRoot, uri.fsPath, packages);
+            if (directories.length > 0) {
+                const names = directories.map(dir => path.relative(this.workspaceRoot, dir).replace(this.pathSepRegex, '/'));
+                problems.push({
+                    kind: 'missingInit',
+                    uri,
+                    range: firstLine,
+                    message: `${names.join(', ')} ${names.length > 1 ? 'have' : 'has'} no __init__.py: Django's test runner does not discover the tests of ${fileNode.name}`,
+                    directories
+                });
+            }
+        }
+
+        // Methods of helper classes are not expected to run
+        const testClasses = new Set(fileNode.children!.filter(child => child.type === 'class').map(child => child.name));
+        for (const problem of this.classIndex.getModule(uri.fsPath)?.methodProblems || []) {
+            if (testClasses.has(problem.className)) {
+                problems.push({
+                    kind: problem.kind,
+                    uri,
+                    range: problem.range,
+                    message: describeMethodProblem(problem, this.methodPrefix!),
+                    rename: problem.rename
+                });
+            }
+        }
+        return problems;
+    }
+
+    /**
+     * Build the node of a test file: its test classes (including classes that
+     * only inherit from a test base through other modules) with their own and
+     * inherited test methods.
+     */
+    private buildFileNode(module: ModuleInfo): TestNode | null {
+        const uri = module.uri;
+        const fileDottedPath = this.getFileDottedPath(uri);
+
+        const fileNode: TestNode = {
+            name: path.basename(uri.fsPath),
+            type: 'file',
+            uri: uri,
+            children: [],
+            dottedPath: fileDottedPath
+        };
+
+        for (const info of module.classes) {
+            const indexed: IndexedClass = { info, module };
+
+            // Only add test classes
+            if (!this.classIndex.isTestClass(indexed)) {
+                continue;
+            }
+
+            const classNode: TestNode = {
+                name: info.name,
+                type: 'class',
                 children: [],
-                dottedPath: fileDottedPath
+                uri: uri,
+                range: info.range,
+                dottedPath: this.getChildId(fileDottedPath, info.name),
+                parent: fileNode
             };
+            const classTags = this.classIndex.getClassTags(indexed);
+            if (classTags.length > 0) {
+                classNode.tags = classTags;
+            }
 
-            let currentClass: TestNode | null = null;
-            const lineCount = lines.length;
+            // Inherited methods point at their definition in the base class or mixin
+            for (const { method, owner } of this.classIndex.getTestMethods(indexed)) {
+                classNode.children!.push(this.buildMethodNode(method, owner.module.uri, classNode, classTags));
+            }
+            fileNode.children!.push(classNode);
+        }
 
-            for (let i = 0; i < lineCount; i++) {
-                const line = lines[i];
-                const lineLength = line.length;
+        // load_tests hooks are a unittest protocol, which pytest does not follow
+        if (this.backend === 'django') {
+            fileNode.children!.push(...this.buildDoctestNodes(module, fileNode));
+        }
 
-                // Skip empty lines quickly
-                if (lineLength === 0) continue;
+        // pytest also collects module-level test functions
+        if (this.backend === 'pytest') {
+            for (const func of module.functions) {
+                fileNode.children!.push(this.buildMethodNode(func, uri, fileNode));
+            }
+        }
 
-                const trimmed = line.trimStart();
-                const trimmedLength = trimmed.length;
+        return fileNode.children!.length > 0 ? fileNode : null;
+    }
 
-                // Skip empty/comment lines
-                if (trimmedLength === 0 || trimmed[0] === '#') continue;
+    private buildMethodNode(method: MethodInfo, uri: vscode.Uri, parent: TestNode, classTags: string[] = []): TestNode {
+        const methodNode: TestNode = {
+            name: method.name,
+            type: 'method',
+            uri,
+            range: method.range,
+            dottedPath: this.getChildId(parent.dottedPath!, method.name),
+            parent
+        };
+        // Django matches a test against the union of its method and class tags
+        const tags = Array.from(new Set([...(method.tags || []), ...classTags]));
+        if (tags.length > 0) {
+            methodNode.tags = tags;
+        }
 
-                // Check for class definition
-                if (trimmed.startsWith('class ')) {
-                    const classMatch = this.classRegex.exec(line);
-                    if (classMatch) {
-                        const className = classMatch[1];
-                        const baseClasses = classMatch[2];
+        // Parametrize cases run as separate pytest items, e.g. test_add[1-2]
+        if (this.backend === 'pytest' && method.cases && method.cases.length > 0) {
+            methodNode.children = method.cases.map(caseId => ({
+                name: `${method.name}[${caseId}]`,
+                type: 'method',
+                uri,
+                range: method.range,
+                dottedPath: `${methodNode.dottedPath}[${caseId}]`,
+                parent: methodNode,
+                tags: methodNode.tags
+            }));
+        }
 
-                        // Only add test classes
-                        if (!isTestClass(className, baseClasses)) {
-                            currentClass = null;
-                            continue;
-                        }
+        if (method.generator) {
+            methodNode.generator = method.generator;
+            methodNode.children = this.buildGeneratedNodes(methodNode);
+        }
+        return methodNode;
+    }
 
-                        currentClass = {
-                            name: className,
-                            type: 'class',
-                            children: [],
-                            uri: uri,
-                            range: new vscode.Range(i, 0, i, lineLength),
-                            dottedPath: `${fileDottedPath}.${className}`,
-                            parent: fileNode
-                        };
-                        fileNode.children!.push(currentClass);
-                    }
-                    continue;
+    /**
+     * Nodes of the doctests a test file's load_tests hook adds with
+     * doctest.DocTestSuite. Their ids are the names doctest gives them
+     * (`billing.utils.Money.total`); they point at the docstring.
+     */
+    private buildDoctestNodes(module: ModuleInfo, fileNode: TestNode): TestNode[] {
+        const nodes: TestNode[] = [];
+        for (const name of this.classIndex.getDoctestModules(module)) {
+            const target = this.classIndex.getModuleByName(name);
+            for (const doctest of target?.doctests || []) {
+                const id = doctest.name ? `${target!.module}.${doctest.name}` : target!.module;
+                nodes.push({
+                    name: id,
+                    type: 'doctest',
+                    uri: target!.uri,
+                    range: doctest.range,
+                    dottedPath: id,
+                    parent: fileNode
+                });
+            }
+        }
+        return nodes;
+    }
+
+    /**
+     * Nodes of the tests generated from a decorated method, known from earlier
+     * runs, or a placeholder until a run reports them. Generated tests are
+     * siblings of the method in the test id, e.g. `PriceTests.test_price_0_zero`.
+     */
+    private buildGeneratedNodes(methodNode: TestNode): TestNode[] {
+        const names = this.generatedNames.get(methodNode.dottedPath!);
+        if (!names || names.length === 0) {
+            return [{
+                name: `${methodNode.name}_*`,
+                type: 'method',
+                uri: methodNode.uri,
+                range: methodNode.range,
+                dottedPath: `${methodNode.dottedPath}_*`,
+                parent: methodNode,
+                tags: methodNode.tags,
+                placeholder: true
+            }];
+        }
+        return names.map(name => ({
+            name,
+            type: 'method',
+            uri: methodNode.uri,
+            range: methodNode.range,
+            dottedPath: this.getChildId(methodNode.parent!.dottedPath!, name),
+            parent: methodNode,
+            tags: methodNode.tags
+        }));
+    }
+
+    /**
+     * Remember a test generated from a decorated method, reported by a run
+     */
+    public addGeneratedName(methodId: string, name: string): void {
+        const names = this.generatedNames.get(methodId) || [];
+        if (!names.includes(name)) {
+            this.setGeneratedNames(methodId, [...names, name]);
+        }
+    }
+
+    private setGeneratedNames(methodId: string, names: string[]): void {
+        if (this.generatedNames.get(methodId)?.join('\n') === names.join('\n')) {
+            return;
+        }
+        this.generatedNames.set(methodId, names);
+        this.cache?.setGenerated(methodId, names);
+    }
+
+    /**
+     * Place a test reported by a run that discovery could not name: a test
+     * generated from a parameterized or ddt method of its class. It replaces
+     * the method's placeholder in the last discovered tree and is remembered
+     * for later discoveries. Returns the node, or undefined for other tests.
+     */
+    public addGeneratedTest(testId: string): TestNode | undefined {
+        const known = this.nodesById.get(testId);
+        if (known) {
+            return known;
+        }
+
+        const separator = this.backend === 'pytest' ? '::' : '.';
+        const index = testId.lastIndexOf(separator);
+        const classNode = index > 0 ? this.nodesById.get(testId.substring(0, index)) : undefined;
+        if (classNode?.type !== 'class') {
+            return undefined;
+        }
+        const name = testId.substring(index + separator.length);
+        const methodNode = this.findGeneratorMethod(classNode.children || [], name);
+        if (!methodNode) {
+            return undefined;
+        }
+
+        this.addGeneratedName(methodNode.dottedPath!, name);
+        methodNode.children?.forEach(child => this.unindexNode(child));
+        methodNode.children = this.buildGeneratedNodes(methodNode);
+        methodNode.children.forEach(child => this.indexNode(child));
+        return this.nodesById.get(testId);
+    }
+
+    /**
+     * Decorated method a generated test name belongs to; the longest name wins
+     * when several methods share a prefix (`test_a` and `test_a_b`)
+     */
+    private findGeneratorMethod(methods: TestNode[], name: string): TestNode | undefined {
+        let found: TestNode | undefined;
+        for (const method of methods) {
+            if (method.generator && isGeneratedTestName(name, method.name)
+                && (!found || method.name.length > found.name.length)) {
+                found = method;
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Describe a module for the index; packages are named after their directory
+     */
+    private getModuleInfo(
+        uri: vscode.Uri,
+        classes: ClassInfo[],
+        functions: MethodInfo[],
+        imports: { [alias: string]: string }
+    ): ModuleInfo {
+        const moduleName = this.getModuleName(uri);
+        const isPackage = path.basename(uri.fsPath) === '__init__.py';
+        return {
+            module: isPackage ? moduleName.replace(/\.?__init__$/, '') : moduleName,
+            isPackage,
+            uri,
+            classes,
+            functions,
+            imports
+        };
+    }
+
+    /**
+     * Convert classes reported by the AST backend
+     */
+    private fromAstModule(uri: vscode.Uri, content: string, astModule: AstModule): ModuleInfo {
+        const lines = content.split('\n');
+        const lineRange = (line: number) => new vscode.Range(line - 1, 0, line - 1, (lines[line - 1] || '').length);
+
+        const toMethods = (methods: AstMethod[]): MethodInfo[] => methods
+            .filter(method => this.methodNameRegex!.test(method.name))
+            .map(method => ({
+                name: method.name,
+                range: lineRange(method.line),
+                cases: method.cases,
+                tags: method.tags,
+                generator: method.generator
+            }));
+
+        const classes: ClassInfo[] = astModule.classes.map(cls => ({
+            name: cls.name,
+            range: lineRange(cls.line),
+            bases: cls.bases,
+            methods: toMethods(cls.methods),
+            tags: cls.tags
+        }));
+        const module = this.getModuleInfo(uri, classes, toMethods(astModule.functions), astModule.imports);
+        module.starImports = astModule.star_imports;
+        if (astModule.doctests) {
+            module.doctests = astModule.doctests.map(doctest => ({ name: doctest.name, range: lineRange(doctest.line) }));
+        }
+        module.doctestSuites = astModule.doctest_suites;
+        return module;
+    }
+
+    /**
+     * Regex parser: column-0 classes, test functions and imports, and the
+     * indented test methods following each class
+     */
+    private parseContent(uri: vscode.Uri, content: string): ModuleInfo {
+        const classes: ClassInfo[] = [];
+        const functions: MethodInfo[] = [];
+        const imports: { [alias: string]: string } = {};
+        const starImports: string[] = [];
+
+        // Quick check: without 'class', 'def' or 'import', nothing to index
+        // (imports alone matter for the modules base classes come through)
+        if (!content.includes('class ') && !content.includes('def ') && !content.includes('import ')) {
+            return this.getModuleInfo(uri, classes, functions, imports);
+        }
+
+        const lines = content.split('\n');
+        let currentClass: ClassInfo | null = null;
+        // Indentation of a class nested in the current class, while inside it
+        let nestedClassIndent: number | null = null;
+        // Decorators preceding the next class or def
+        let pending: ParsedDecorators = { tags: [] };
+        const lineCount = lines.length;
+
+        for (let i = 0; i < lineCount; i++) {
+            const line = lines[i];
+            const lineLength = line.length;
+
+            // Skip empty lines quickly
+            if (lineLength === 0) continue;
+
+            const trimmed = line.trimStart();
+            const trimmedLength = trimmed.length;
+
+            // Skip empty/comment lines
+            if (trimmedLength === 0 || trimmed[0] === '#') continue;
+
+            const indent = lineLength - trimmedLength;
+            if (nestedClassIndent !== null && indent <= nestedClassIndent) {
+                nestedClassIndent = null;
+            }
+
+            if (trimmed[0] === '@') {
+                i = this.parseDecorator(lines, i, pending);
+                continue;
+            }
+            const tags = pending.tags.length > 0 ? pending.tags : undefined;
+            const generator = pending.generator;
+            pending = { tags: [] };
+
+            // Check for class definition
+            if (trimmed.startsWith('class ')) {
+                // Base classes may span several lines
+                let definition = line;
+                for (let j = i + 1; j < lineCount && definition.includes('(') && !definition.includes(')'); j++) {
+                    definition += ' ' + lines[j].trim();
+                }
+
+                const classMatch = this.classRegex.exec(definition);
+                if (classMatch) {
+                    currentClass = {
+                        name: classMatch[1],
+                        range: new vscode.Range(i, 0, i, lineLength),
+                        bases: this.splitBases(classMatch[2]),
+                        methods: [],
+                        tags
+                    };
+                    classes.push(currentClass);
+                } else if (currentClass && nestedClassIndent === null) {
+                    // Nested class: its methods do not belong to the outer class
+                    nestedClassIndent = indent;
                 }
+                continue;
+            }
 
-                // Check for method definition (only if inside a test class)
-                if (currentClass && (trimmed.startsWith('def ') || trimmed.startsWith('async def '))) {
-                    const methodMatch = this.methodRegex!.exec(line);
-                    if (methodMatch) {
-                        const methodName = methodMatch[1];
-                        currentClass.children!.push({
-                            name: methodName,
-                            type: 'method',
-                            uri: uri,
+            if (indent === 0) {
+                // A module-level function ends the class body
+                if (trimmed.startsWith('def ') || trimmed.startsWith('async def ')) {
+                    currentClass = null;
+                    const functionMatch = this.functionRegex!.exec(line);
+                    if (functionMatch) {
+                        functions.push({
+                            name: functionMatch[1],
                             range: new vscode.Range(i, 0, i, lineLength),
-                            dottedPath: `${currentClass.dottedPath}.${methodName}`,
-                            parent: currentClass
+                            tags
                         });
                     }
+                } else {
+                    this.parseImport(lines, i, imports, starImports);
                 }
+                continue;
             }
 
-            return fileNode.children && fileNode.children.length > 0 ? fileNode : null;
-        } catch (e) {
-            console.error(`Error parsing file ${uri.fsPath}:`, e);
-            return null;
+            // Check for method definition (only if inside a class)
+            if (currentClass && nestedClassIndent === null && (trimmed.startsWith('def ') || trimmed.startsWith('async def '))) {
+                const methodMatch = this.methodRegex!.exec(line);
+                if (methodMatch) {
+                    currentClass.methods.push({
+                        name: methodMatch[1],
+                        range: new vscode.Range(i, 0, i, lineLength),
+                        tags,
+                        generator
+                    });
+                }
+            }
+        }
+
+        const module = this.getModuleInfo(uri, classes, functions, imports);
+        if (starImports.length > 0) {
+            module.starImports = starImports;
+        }
+        if (content.includes('>>>')) {
+            module.doctests = this.parseDoctests(lines);
+        }
+        if (content.includes('def load_tests')) {
+            module.doctestSuites = this.parseDoctestSuites(lines);
+        }
+        return module;
+    }
+
+    /**
+     * Docstrings with `>>>` examples of the module, its classes and functions,
+     * named the way doctest names them relative to the module
+     */
+    private parseDoctests(lines: string[]): DoctestInfo[] {
+        const doctests: DoctestInfo[] = [];
+        // Enclosing classes and functions of the current line
+        const scopes: { indent: number; name: string; isClass: boolean }[] = [];
+        // Name of the scope whose docstring would be the next statement
+        let docstringOf: string | null = '';
+
+        for (let i = 0; i < lines.length; i++) {
+            const trimmed = lines[i].trimStart();
+            if (trimmed.length === 0 || trimmed[0] === '#') continue;
+
+            const indent = lines[i].length - trimmed.length;
+            while (scopes.length > 0 && indent <= scopes[scopes.length - 1].indent) {
+                scopes.pop();
+            }
+
+            const quote = /^[rRuU]?("""|''')/.exec(trimmed);
+            if (docstringOf !== null && quote) {
+                let end = i;
+                let text = trimmed.substring(quote[0].length);
+                while (!text.includes(quote[1]) && end + 1 < lines.length) {
+                    end++;
+                    text += '\n' + lines[end];
+                }
+                if (text.includes('>>>')) {
+                    doctests.push({ name: docstringOf, range: new vscode.Range(i, 0, i, lines[i].length) });
+                }
+                docstringOf = null;
+                i = end;
+                continue;
+            }
+            docstringOf = null;
+
+            const definition = /^(?:async\s+)?(def|class)\s+(\w+)/.exec(trimmed);
+            // doctest looks into classes, not into function bodies
+            if (definition && scopes.every(scope => scope.isClass)) {
+                const name = [...scopes.map(scope => scope.name), definition[2]].join('.');
+                scopes.push({ indent, name, isClass: definition[1] === 'class' });
+                // Signatures may span several lines
+                while (!/:\s*(#.*)?$/.test(lines[i]) && i + 1 < lines.length) {
+                    i++;
+                }
+                docstringOf = name;
+            }
+        }
+        return doctests;
+    }
+
+    /**
+     * Modules passed to doctest.DocTestSuite by a load_tests hook, as written
+     */
+    private parseDoctestSuites(lines: string[]): string[] {
+        const modules: string[] = [];
+        const suiteRegex = /DocTestSuite\(\s*(?:module\s*=\s*)?(['"]?)([\w.]+)\1/g;
+        for (const line of lines) {
+            for (let match = suiteRegex.exec(line); match; match = suiteRegex.exec(line)) {
+                if (!modules.includes(match[2])) {
+                    modules.push(match[2]);
+                }
+            }
+        }
+        return modules;
+    }
+
+    /**
+     * Collect the names of a Django `@tag(...)` decorator and note parameterized
+     * and ddt decorators. Decorators may span several lines; returns the index
+     * of the decorator's last line.
+     */
+    private parseDecorator(lines: string[], index: number, pending: ParsedDecorators): number {
+        let decorator = lines[index].replace(/#.*$/, '').trim();
+        let end = index;
+        while (end + 1 < lines.length && (decorator.match(/\(/g) || []).length > (decorator.match(/\)/g) || []).length) {
+            end++;
+            decorator += ' ' + lines[end].replace(/#.*$/, '').trim();
+        }
+
+        const tagMatch = this.tagDecoratorRegex.exec(decorator);
+        if (tagMatch) {
+            const name = /['"]([^'"]+)['"]/g;
+            for (let match = name.exec(tagMatch[1]); match; match = name.exec(tagMatch[1])) {
+                if (!pending.tags.includes(match[1])) {
+                    pending.tags.push(match[1]);
+                }
+            }
+        } else if (this.parameterizedDecoratorRegex.test(decorator)) {
+            pending.generator = 'parameterized';
+        } else if (this.ddtDecoratorRegex.test(decorator)) {
+            pending.generator = 'ddt';
+        }
+        return end;
+    }
+
+    private splitBases(bases: string | undefined): string[] {
+        if (!bases) return [];
+        return bases.split(',')
+            .map(base => base.trim().replace(/\[.*$/, ''))
+            // Skip keyword arguments such as metaclass=ABCMeta
+            .filter(base => base.length > 0 && !base.includes('='));
+    }
+
+    /**
+     * Record the names bound by a column-0 import statement and the modules
+     * it star-imports
+     */
+    private parseImport(lines: string[], index: number, imports: { [alias: string]: string }, starImports: string[]): void {
+        const line = lines[index].replace(/#.*$/, '').trim();
+
+        const fromMatch = this.fromImportRegex.exec(line);
+        if (fromMatch) {
+            const moduleName = fromMatch[1];
+            let names = fromMatch[2];
+            // Parenthesized imports may span several lines
+            for (let j = index + 1; j < lines.length && names.includes('(') && !names.includes(')'); j++) {
+                names += ' ' + lines[j].replace(/#.*$/, '').trim();
+            }
+            const separator = /\.$/.test(moduleName) ? '' : '.';
+            for (const part of names.replace(/[()\\]/g, '').split(',')) {
+                const [name, alias] = part.trim().split(/\s+as\s+/);
+                if (name === '*') {
+                    starImports.push(moduleName);
+                } else if (name) {
+                    imports[alias || name] = `${moduleName}${separator}${name}`;
+                }
+            }
+            return;
+        }
+
+        const importMatch = this.importRegex.exec(line);
+        if (importMatch) {
+            for (const part of importMatch[1].split(',')) {
+                const [name, alias] = part.trim().split(/\s+as\s+/);
+                if (name) {
+                    imports[alias || name.split('.')[0]] = alias ? name : name.split('.')[0];
+                }
+            }
         }
     }
 
     private structureTests(nodes: TestNode[]): TestNode[] {
+        const rootNodes = this.groupNodes(nodes);
+
+        // Register discovered nodes in state manager if not already there
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        for (const node of nodes) {
+            if (node.dottedPath && !stateManager.getStatus(node.dottedPath)) {
+                stateManager.setStatus(node.dottedPath, 'unknown');
+            }
+        }
+
+        this.reconcileCollectedTests(rootNodes);
+
+        // Sort nodes recursively
+        this.sortNodes(rootNodes);
+        this.indexNodes(rootNodes);
+        this.rootNodes = rootNodes;
+        return rootNodes;
+    }
+
+    /**
+     * Rebuild the lookup maps from a structured tree
+     */
+    private indexNodes(rootNodes: TestNode[]): void {
+        this.nodesById.clear();
+        this.nodesByLocation.clear();
+        rootNodes.forEach(node => this.indexNode(node));
+    }
+
+    /**
+     * Add a node and its descendants to the lookup maps
+     */
+    private indexNode(node: TestNode): void {
+        if (node.dottedPath) {
+            // A folder and a module may share a dotted path; prefer the module
+            const existing = this.nodesById.get(node.dottedPath);
+            if (!existing || existing.type === 'folder') {
+                this.nodesById.set(node.dottedPath, node);
+            }
+        }
+        if (node.uri && node.range) {
+            let lines = this.nodesByLocation.get(node.uri.fsPath);
+            if (!lines) {
+                lines = new Map();
+                this.nodesByLocation.set(node.uri.fsPath, lines);
+            }
+            const line = node.range.start.line;
+            const nodes = lines.get(line);
+            if (nodes) {
+                nodes.push(node);
+            } else {
+                lines.set(line, [node]);
+            }
+        }
+        node.children?.forEach(child => this.indexNode(child));
+    }
+
+    /**
+     * Remove a node and its descendants from the lookup maps
+     */
+    private unindexNode(node: TestNode): void {
+        node.children?.forEach(child => this.unindexNode(child));
+        if (node.dottedPath && this.nodesById.get(node.dottedPath) === node) {
+            this.nodesById.delete(node.dottedPath);
+        }
+        if (node.uri && node.range) {
+            const nodes = this.nodesByLocation.get(node.uri.fsPath)?.get(node.range.start.line);
+            const index = nodes ? nodes.indexOf(node) : -1;
+            if (index !== -1) {
+                nodes!.splice(index, 1);
+            }
+        }
+    }
+
+    /**
+     * Nest file nodes under their Django app when the tree layout is "apps",
+     * and under folder nodes following their path
+     */
+    private groupNodes(nodes: TestNode[]): TestNode[] {
+        if (!this.apps || this.apps.length === 0) {
+            return this.groupByFolder(nodes);
+        }
+
+        // Nested apps own their files rather than the enclosing app
+        const apps = [...this.apps].sort((a, b) => b.path.length - a.path.length);
+        const appFiles = new Map<DjangoApp, TestNode[]>();
+        const ungrouped: TestNode[] = [];
+        for (const node of nodes) {
+            const app = node.uri && apps.find(a => node.uri!.fsPath.startsWith(a.path + path.sep));
+            if (app) {
+                const files = appFiles.get(app);
+                if (files) {
+                    files.push(node);
+                } else {
+                    appFiles.set(app, [node]);
+                }
+            } else {
+                ungrouped.push(node);
+            }
+        }
+
+        const rootNodes: TestNode[] = [];
+        for (const [app, files] of appFiles) {
+            // The app directory is the run target, so `billing` runs src/apps/billing
+            const appNode: TestNode = {
+                name: app.label,
+                type: 'app',
+                uri: vscode.Uri.file(app.path),
+                dottedPath: this.getFolderId(app.path)
+            };
+            appNode.children = this.groupByFolder(files, app.path, appNode);
+            rootNodes.push(appNode);
+        }
+        rootNodes.push(...this.groupByFolder(ungrouped));
+        return rootNodes;
+    }
+
+    /**
+     * Test id of a directory: a dotted label for manage.py test, a path for pytest
+     */
+    private getFolderId(dir: string): string {
+        const relativePath = path.relative(this.workspaceRoot, dir);
+        return relativePath.replace(this.pathSepRegex, this.backend === 'pytest' ? '/' : '.');
+    }
+
+    /**
+     * Nest file nodes under folder nodes following their path below a root directory
+     */
+    private groupByFolder(nodes: TestNode[], root: string = this.workspaceRoot, parent?: TestNode): TestNode[] {
         const rootNodes: TestNode[] = [];
         // Use a Map for O(1) folder lookup instead of array.find()
         const folderCache = new Map<string, TestNode>();
@@ -198,12 +1408,12 @@ export class TestDiscovery {
         for (const node of nodes) {
             if (!node.uri) continue;
 
-            const relativePath = path.relative(this.workspaceRoot, node.uri.fsPath);
+            const relativePath = path.relative(root, node.uri.fsPath);
             const parts = relativePath.split(path.sep);
 
             let currentLevel = rootNodes;
             let currentPath = '';
-            let parentNode: TestNode | undefined = undefined;
+            let parentNode: TestNode | undefined = parent;
 
             // Iterate over directories (exclude filename)
             for (let i = 0; i < parts.length - 1; i++) {
@@ -223,8 +1433,8 @@ export class TestDiscovery {
                             name: part,
                             type: 'folder',
                             children: [],
-                            uri: vscode.Uri.file(path.join(this.workspaceRoot, currentPath)),
-                            dottedPath: currentPath.replace(this.pathSepRegex, '.'),
+                            uri: vscode.Uri.file(path.join(root, currentPath)),
+                            dottedPath: this.getFolderId(path.join(root, currentPath)),
                             parent: parentNode
                         };
                         currentLevel.push(folderNode);
@@ -241,27 +1451,146 @@ export class TestDiscovery {
 
             node.parent = parentNode;
             currentLevel.push(node);
+        }
+
+        return rootNodes;
+    }
+
+    /**
+     * Mark statically discovered tests Django would not run and add tests
+     * only Django's loader found (load_tests, generated tests, custom patterns)
+     */
+    private reconcileCollectedTests(rootNodes: TestNode[]): void {
+        // Collected ids are manage.py test labels
+        if (!this.collectedTests || this.backend !== 'django') return;
 
-            // Register discovered node in state manager if not already there
-            if (node.dottedPath) {
-                const stateManager = TestStateManager.getInstance();
-                if (!stateManager.getStatus(node.dottedPath)) {
-                    stateManager.setStatus(node.dottedPath, 'unknown');
+        const runtimeOnly = new Map(this.collectedTests);
+        this.expandCollectedGeneratedTests(rootNodes);
+        const mark = (node: TestNode): boolean => {
+            let collected: boolean;
+            // Decorated methods are collected through their generated tests
+            if ((node.type === 'method' && !node.generator) || node.type === 'doctest') {
+                collected = !!node.dottedPath && runtimeOnly.delete(node.dottedPath);
+            } else {
+                const results = (node.children || []).map(mark);
+                if (results.length === 0) return true;
+                collected = results.some(result => result);
+            }
+            node.collectStatus = collected ? 'collected' : 'notCollected';
+            return collected;
+        };
+        rootNodes.forEach(mark);
+
+        for (const test of runtimeOnly.values()) {
+            this.addRuntimeOnlyTest(rootNodes, test);
+        }
+    }
+
+    /**
+     * Replace the children of parameterized/ddt methods with the tests the
+     * loader generated from them. A collection lists all of them, so names
+     * from earlier runs that no longer exist are dropped.
+     */
+    private expandCollectedGeneratedTests(rootNodes: TestNode[]): void {
+        // Collected test names by class id
+        const namesByClass = new Map<string, string[]>();
+        for (const id of this.collectedTests!.keys()) {
+            const index = id.lastIndexOf('.');
+            const names = namesByClass.get(id.substring(0, index));
+            if (names) {
+                names.push(id.substring(index + 1));
+            } else {
+                namesByClass.set(id.substring(0, index), [id.substring(index + 1)]);
+            }
+        }
+
+        const visit = (node: TestNode) => {
+            if (node.type !== 'class') {
+                node.children?.forEach(visit);
+                return;
+            }
+            const collected = namesByClass.get(node.dottedPath!) || [];
+            const methods = node.children || [];
+            for (const method of methods.filter(child => child.generator)) {
+                const names = collected.filter(name => this.findGeneratorMethod(methods, name) === method);
+                if (names.length > 0) {
+                    this.setGeneratedNames(method.dottedPath!, names);
+                    method.children = this.buildGeneratedNodes(method);
+                }
+            }
+        };
+        rootNodes.forEach(visit);
+    }
+
+    private addRuntimeOnlyTest(rootNodes: TestNode[], test: CollectedTest): void {
+        // Deepest existing node the test id belongs to
+        let parent: TestNode | undefined;
+        let level = rootNodes;
+        for (let found = true; found;) {
+            found = false;
+            for (const node of level) {
+                if (node.type !== 'method' && node.dottedPath && test.id.startsWith(`${node.dottedPath}.`)) {
+                    parent = node;
+                    level = node.children || (node.children = []);
+                    found = true;
+                    break;
                 }
             }
         }
 
-        // Sort nodes recursively
-        this.sortNodes(rootNodes);
-        return rootNodes;
+        const remaining = parent ? test.id.substring(parent.dottedPath!.length + 1) : test.id;
+        const parts = remaining.split('.');
+        const methodName = parts.pop()!;
+        const uri = test.file ? vscode.Uri.file(test.file) : undefined;
+        const range = test.line ? new vscode.Range(test.line - 1, 0, test.line - 1, 0) : undefined;
+
+        // Missing module and class levels are grouped into one node each,
+        // e.g. a class defined in load_tests becomes "load_tests.<locals>.Generated"
+        const missing: { name: string; type: 'file' | 'class' }[] = [];
+        if (parent?.type === 'file') {
+            if (parts.length > 0) missing.push({ name: parts.join('.'), type: 'class' });
+        } else if (parent?.type !== 'class') {
+            const className = parts.pop();
+            if (parts.length > 0) missing.push({ name: parts.join('.'), type: 'file' });
+            if (className) missing.push({ name: className, type: 'class' });
+        }
+
+        for (const { name, type } of missing) {
+            const dottedPath = parent ? `${parent.dottedPath}.${name}` : name;
+            let node = level.find(n => n.dottedPath === dottedPath);
+            if (!node) {
+                node = {
+                    name,
+                    type,
+                    children: [],
+                    uri: type === 'file' ? uri : undefined,
+                    dottedPath,
+                    parent,
+                    collectStatus: 'runtimeOnly'
+                };
+                level.push(node);
+            }
+            parent = node;
+            level = node.children || (node.children = []);
+        }
+
+        level.push({
+            name: methodName,
+            type: 'method',
+            uri,
+            range,
+            dottedPath: test.id,
+            parent,
+            collectStatus: 'runtimeOnly'
+        });
     }
 
     private sortNodes(nodes: TestNode[]): void {
         // Use a stable sort with pre-computed type priorities
         nodes.sort((a, b) => {
-            // Folders first, then files
-            const aIsFolder = a.type === 'folder' ? 0 : 1;
-            const bIsFolder = b.type === 'folder' ? 0 : 1;
+            // Apps and folders first, then files
+            const aIsFolder = a.type === 'folder' || a.type === 'app' ? 0 : 1;
+            const bIsFolder = b.type === 'folder' || b.type === 'app' ? 0 : 1;
             if (aIsFolder !== bIsFolder) return aIsFolder - bIsFolder;
             return a.name.localeCompare(b.name);
         });
@@ -273,7 +1602,37 @@ export class TestDiscovery {
         }
     }
 
-    public getNodeByDottedPath(_dottedPath: string): TestNode | undefined {
-        return undefined;
+    /**
+     * Node of a test id in the last discovered tree
+     */
+    public getNodeByDottedPath(dottedPath: string): TestNode | undefined {
+        return this.nodesById.get(dottedPath);
+    }
+
+    /**
+     * Nodes defined at a line of a file. Inherited test methods are listed
+     * once per subclass at their definition in the base class.
+     */
+    public getNodesAt(uri: vscode.Uri, line: number): TestNode[] {
+        return this.nodesByLocation.get(uri.fsPath)?.get(line) || [];
+    }
+
+    /**
+     * All classes and methods of the last discovered tree defined in a file
+     */
+    public getNodesInFile(uri: vscode.Uri): TestNode[] {
+        const lines = this.nodesByLocation.get(uri.fsPath);
+        return lines ? Array.from(lines.values()).flat() : [];
+    }
+
+    /**
+     * Django tags used anywhere in the last discovered tree, sorted
+     */
+    public getTags(): string[] {
+        const tags = new Set<string>();
+        for (const node of this.nodesById.values()) {
+            node.tags?.forEach(tag => tags.add(tag));
+        }
+        return Array.from(tags).sort();
     }
 }
@@ -11,6 +11,17 @@ export interface TestRunRecord {
     status: 'passed' | 'failed' | 'skipped' | 'error';
     duration: number; // milliseconds
     errorMessage?: string;
+    subTests?: SubTestRecord[];
+}
+
+/**
+ * Result of one `self.subTest(...)` block of a test
+ */
+export interface SubTestRecord {
+    /** Parameters as unittest describes them, e.g. "i=1" */
+    params: string;
+    status: 'passed' | 'failed' | 'skipped' | 'error';
+    errorMessage?: string;
 }
 
 /**
@@ -26,39 +37,62 @@ export interface TestSession {
     skipped: number;
     duration: number; // milliseconds
     tests: TestRunRecord[];
+    /** DJANGO_SETTINGS_MODULE the tests ran with, if set */
+    settingsModule?: string;
 }
 
 /**
  * Manages test history and provides analytics
  */
 export class TestHistoryManager {
-    private static instance: TestHistoryManager;
+    // One per project root, stored separately
+    private static instances = new Map<string, TestHistoryManager>();
+    private static context: vscode.ExtensionContext | undefined;
     private sessions: TestSession[] = [];
     private currentSession: TestSession | null = null;
     private readonly MAX_SESSIONS = 50;
     private readonly MAX_TESTS_PER_SESSION = 1000;
+    private readonly MAX_SUBTESTS_PER_TEST = 100;
+    // Subtests reported before the outcome of their test
+    private pendingSubTests = new Map<string, SubTestRecord[]>();
 
     private _onDidUpdateHistory = new vscode.EventEmitter<void>();
     public readonly onDidUpdateHistory = this._onDidUpdateHistory.event;
 
-    private constructor(private context: vscode.ExtensionContext) {
+    private constructor(private context: vscode.ExtensionContext, private storageKey: string) {
         this.loadHistory();
     }
 
-    public static getInstance(context?: vscode.ExtensionContext): TestHistoryManager {
-        if (!TestHistoryManager.instance) {
-            if (!context) {
+    public static getInstance(workspaceRoot = '', context?: vscode.ExtensionContext): TestHistoryManager {
+        if (context) {
+            TestHistoryManager.context = context;
+        }
+        let instance = TestHistoryManager.instances.get(workspaceRoot);
+        if (!instance) {
+            if (!TestHistoryManager.context) {
                 throw new Error('TestHistoryManager must be initialized with ExtensionContext');
             }
-            TestHistoryManager.instance = new TestHistoryManager(context);
+            const storageKey = workspaceRoot ? `testHistory:${workspaceRoot}` : 'testHistory';
+            instance = new TestHistoryManager(TestHistoryManager.context, storageKey);
+            TestHistoryManager.instances.set(workspaceRoot, instance);
         }
-        return TestHistoryManager.instance;
+        return instance;
+    }
+
+    /**
+     * Stop tracking the history of a project whose workspace folder was removed.
+     * Its stored history is kept for when the folder is added again.
+     */
+    public static removeInstance(workspaceRoot: string): void {
+        TestHistoryManager.instances.get(workspaceRoot)?._onDidUpdateHistory.dispose();
+        TestHistoryManager.instances.delete(workspaceRoot);
     }
 
     /**
      * Start a new test session
+     * @param settingsModule DJANGO_SETTINGS_MODULE the tests run with, if set
      */
-    public startSession(): string {
+    public startSession(settingsModule?: string): string {
         const id = this.generateId();
         this.currentSession = {
             id,
@@ -68,8 +102,10 @@ export class TestHistoryManager {
             failed: 0,
             skipped: 0,
             duration: 0,
-            tests: []
+            tests: [],
+            settingsModule
         };
+        this.pendingSubTests.clear();
         return id;
     }
 
@@ -119,6 +155,11 @@ export class TestHistoryManager {
             duration,
             errorMessage
         };
+        const subTests = this.pendingSubTests.get(dottedPath);
+        if (subTests) {
+            record.subTests = subTests;
+            this.pendingSubTests.delete(dottedPath);
+        }
 
         this.currentSession!.tests.push(record);
         this.currentSession!.totalTests++;
@@ -142,6 +183,38 @@ export class TestHistoryManager {
         }
     }
 
+    /**
+     * Record the result of a subTest. It is attached to the test's record,
+     * which may be recorded before or after its subtests.
+     */
+    public recordSubTest(
+        dottedPath: string,
+        params: string,
+        status: 'passed' | 'failed' | 'skipped' | 'error',
+        errorMessage?: string
+    ): void {
+        if (!this.currentSession) {
+            this.startSession();
+        }
+
+        const tests = this.currentSession!.tests;
+        let test: TestRunRecord | undefined;
+        for (let i = tests.length - 1; i >= 0 && !test; i--) {
+            if (tests[i].dottedPath === dottedPath) test = tests[i];
+        }
+
+        let subTests: SubTestRecord[];
+        if (test) {
+            subTests = test.subTests || (test.subTests = []);
+        } else {
+            subTests = this.pendingSubTests.get(dottedPath) || [];
+            this.pendingSubTests.set(dottedPath, subTests);
+        }
+        if (subTests.length < this.MAX_SUBTESTS_PER_TEST) {
+            subTests.push({ params, status, errorMessage });
+        }
+    }
+
     /**
      * Get all sessions
      */
@@ -232,6 +305,26 @@ export class TestHistoryManager {
             }));
     }
 
+    /**
+     * Average duration of each test that ran (skipped tests do not count)
+     */
+    public getAverageDurations(): Map<string, number> {
+        const totals = new Map<string, { total: number; count: number }>();
+        for (const session of this.sessions) {
+            for (const test of session.tests) {
+                if (test.status === 'skipped' || test.duration <= 0) continue;
+                const existing = totals.get(test.dottedPath) || { total: 0, count: 0 };
+                existing.total += test.duration;
+                existing.count++;
+                totals.set(test.dottedPath, existing);
+            }
+        }
+
+        const averages = new Map<string, number>();
+        totals.forEach(({ total, count }, dottedPath) => averages.set(dottedPath, total / count));
+        return averages;
+    }
+
     /**
      * Get most frequently failing tests
      */
@@ -327,14 +420,14 @@ export class TestHistoryManager {
             }))
         }));
 
-        this.context.globalState.update('testHistory', serializable);
+        this.context.globalState.update(this.storageKey, serializable);
     }
 
     /**
      * Load history from extension storage
      */
     private loadHistory(): void {
-        const stored = this.context.globalState.get<any[]>('testHistory');
+        const stored = this.context.globalState.get<any[]>(this.storageKey);
 
         if (stored) {
             this.sessions = stored.map(session => ({
@@ -395,8 +488,10 @@ export class TestHistoryTreeProvider implements vscode.TreeDataProvider<HistoryT
                 const date = session.startTime.toLocaleString();
                 const duration = this.formatDuration(session.duration);
 
+                const settings = session.settingsModule ? ` · ${session.settingsModule}` : '';
+
                 return new HistoryTreeItem(
-                    `${date} (${session.totalTests} tests, ${duration})`,
+                    `${date} (${session.totalTests} tests, ${duration})${settings}`,
                     vscode.TreeItemCollapsibleState.Collapsed,
                     session.id,
                     'session',
@@ -405,6 +500,7 @@ export class TestHistoryTreeProvider implements vscode.TreeDataProvider<HistoryT
                         : new vscode.ThemeColor('testing.iconPassed')
                     ),
                     `Passed: ${session.passed}, Failed: ${session.failed}, Skipped: ${session.skipped}`
+                    + (session.settingsModule ? `\nSettings: ${session.settingsModule}` : '')
                 );
             });
         }
@@ -426,7 +522,9 @@ export class TestHistoryTreeProvider implements vscode.TreeDataProvider<HistoryT
 
                 return new HistoryTreeItem(
                     test.testName,
-                    vscode.TreeItemCollapsibleState.None,
+                    test.subTests && test.subTests.length > 0
+                        ? vscode.TreeItemCollapsibleState.Collapsed
+                        : vscode.TreeItemCollapsibleState.None,
                     test.id,
                     'test',
                     new vscode.ThemeIcon(icon, color),
@@ -435,6 +533,28 @@ export class TestHistoryTreeProvider implements vscode.TreeDataProvider<HistoryT
             });
         }
 
+        if (element.itemType === 'test') {
+            // Show subtests of a test
+            const test = this.historyManager.getSessions()
+                .flatMap(session => session.tests)
+                .find(t => t.id === element.itemId);
+
+            return (test?.subTests || []).map((subTest, index) => {
+                const failed = subTest.status === 'failed' || subTest.status === 'error';
+                return new HistoryTreeItem(
+                    subTest.params,
+                    vscode.TreeItemCollapsibleState.None,
+                    `${element.itemId}:${index}`,
+                    'subtest',
+                    new vscode.ThemeIcon(
+                        failed ? 'error' : subTest.status === 'skipped' ? 'dash' : 'check',
+                        new vscode.ThemeColor(failed ? 'testing.iconFailed' : subTest.status === 'skipped' ? 'testing.iconSkipped' : 'testing.iconPassed')
+                    ),
+                    subTest.errorMessage ? `${subTest.params}: ${subTest.errorMessage}` : subTest.params
+                );
+            });
+        }
+
         return [];
     }
 
@@ -450,7 +570,7 @@ class HistoryTreeItem extends vscode.TreeItem {
         label: string,
         collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly itemId: string,
-        public readonly itemType: 'session' | 'test',
+        public readonly itemType: 'session' | 'test' | 'subtest',
         iconPath?: vscode.ThemeIcon,
         tooltip?: string
     ) {
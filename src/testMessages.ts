@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getExceptionLine } from './outputParser';
+import { toLocalPath } from './executionWrapper';
+
+/**
+ * A single frame of a Python traceback
+ */
+export interface TracebackFrame {
+    file: string;
+    line: number; // 1-based
+    name: string;
+    code?: string;
+}
+
+const FRAME_REGEX = /^\s*File "([^"]+)", line (\d+), in (.+)$/;
+const CHAINED_EXCEPTION_REGEX = /\n(?:During handling of the above exception, another exception occurred:|The above exception was the direct cause of the following exception:)\n/;
+const NOT_EQUAL_REGEX = /^AssertionError:\s+([\s\S]+?)\s+!=\s+([\s\S]+?)(?:\s+:\s+[\s\S]*)?$/;
+const DOCTEST_FAILURE_REGEX = /^AssertionError: Failed doctest test for /m;
+
+/**
+ * Parse the frames of the last (outermost raised) traceback in a failure block
+ */
+export function parseTracebackFrames(traceback: string): TracebackFrame[] {
+    const sections = traceback.split(CHAINED_EXCEPTION_REGEX);
+    const lines = sections[sections.length - 1].split('\n');
+    const frames: TracebackFrame[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = FRAME_REGEX.exec(lines[i]);
+        if (match) {
+            const next = lines[i + 1];
+            frames.push({
+                file: match[1],
+                line: parseInt(match[2], 10),
+                name: match[3].trim(),
+                code: next && !FRAME_REGEX.test(next) && /^\s{4,}/.test(next) ? next.trim() : undefined
+            });
+        }
+    }
+    return frames;
+}
+
+/**
+ * Extract expected/actual values from an assertion failure.
+ *
+ * Multi-line comparisons (assertEqual on strings, dicts, lists...) print an
+ * ndiff where "- " lines come from the first argument and "+ " lines from the
+ * second; both sides are rebuilt from it. Otherwise the "X != Y" exception
+ * message is split.
+ */
+export function extractExpectedActual(traceback: string): { expected: string; actual: string } | undefined {
+    if (DOCTEST_FAILURE_REGEX.test(traceback)) {
+        return extractDoctestOutput(traceback);
+    }
+
+    const lines = traceback.split('\n');
+    const exceptionLine = getExceptionLine(traceback);
+    const exceptionIndex = exceptionLine ? lines.findIndex(l => l.trim() === exceptionLine) : -1;
+
+    const expected: string[] = [];
+    const actual: string[] = [];
+    let hasDiff = false;
+
+    for (const line of lines.slice(exceptionIndex + 1)) {
+        if (line.startsWith('- ')) {
+            expected.push(line.substring(2));
+            hasDiff = true;
+        } else if (line.startsWith('+ ')) {
+            actual.push(line.substring(2));
+            hasDiff = true;
+        } else if (line.startsWith('  ')) {
+            expected.push(line.substring(2));
+            actual.push(line.substring(2));
+        }
+    }
+
+    if (hasDiff) {
+        return { expected: expected.join('\n') + '\n', actual: actual.join('\n') + '\n' };
+    }
+
+    const notEqual = exceptionLine ? NOT_EQUAL_REGEX.exec(exceptionLine) : null;
+    if (notEqual) {
+        return { expected: notEqual[1], actual: notEqual[2] };
+    }
+    return undefined;
+}
+
+/**
+ * Expected and actual output of the failed examples of a doctest. doctest
+ * reports each one as "Failed example:", "Expected:" and "Got:" (or
+ * "Exception raised:") blocks indented by four spaces; the example is
+ * repeated on both sides, with its prompts, so the outputs line up.
+ */
+function extractDoctestOutput(traceback: string): { expected: string; actual: string } | undefined {
+    const expected: string[] = [];
+    const actual: string[] = [];
+    let section: 'example' | 'expected' | 'actual' | null = null;
+    let exampleLine = 0;
+
+    const endSection = (lines: string[]) => {
+        while (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+    };
+
+    for (const line of traceback.split('\n')) {
+        if (line === 'Failed example:' || line === 'Expected:' || line === 'Got:' || line === 'Exception raised:'
+            || line === 'Expected nothing' || line === 'Got nothing') {
+            endSection(expected);
+            endSection(actual);
+            section = line === 'Failed example:' ? 'example'
+                : line === 'Expected:' ? 'expected'
+                    : line === 'Got:' || line === 'Exception raised:' ? 'actual'
+                        : null;
+            exampleLine = 0;
+            continue;
+        }
+        if (line !== '' && !line.startsWith('    ')) {
+            section = null;
+            continue;
+        }
+
+        const text = line.substring(4);
+        if (section === 'example') {
+            const prompt = exampleLine++ === 0 ? '>>> ' : '... ';
+            expected.push(prompt + text);
+            actual.push(prompt + text);
+        } else if (section === 'expected') {
+            expected.push(text);
+        } else if (section === 'actual') {
+            actual.push(text);
+        }
+    }
+    endSection(expected);
+    endSection(actual);
+
+    if (expected.length === 0 && actual.length === 0) {
+        return undefined;
+    }
+    return { expected: expected.join('\n') + '\n', actual: actual.join('\n') + '\n' };
+}
+
+/**
+ * Resolve a traceback file path against the project root, mapping paths of
+ * a wrapped command back to the workspace
+ */
+function toUri(file: string, workspaceRoot: string): vscode.Uri {
+    const localFile = toLocalPath(workspaceRoot, file);
+    return vscode.Uri.file(path.isAbsolute(localFile) ? localFile : path.join(workspaceRoot, localFile));
+}
+
+/**
+ * Pick the frame the failure should point at: the deepest frame in the test's
+ * own file, otherwise the deepest frame inside the project.
+ */
+function findFailureFrame(frames: TracebackFrame[], workspaceRoot: string, testUri?: vscode.Uri): TracebackFrame | undefined {
+    const reversed = [...frames].reverse();
+    if (testUri) {
+        const inTestFile = reversed.find(f => toUri(f.file, workspaceRoot).fsPath === testUri.fsPath);
+        if (inTestFile) return inTestFile;
+    }
+    return reversed.find(f => {
+        const fsPath = toUri(f.file, workspaceRoot).fsPath;
+        return fsPath.startsWith(workspaceRoot) && !/[\\/](site-packages|\.?venv)[\\/]/.test(fsPath);
+    });
+}
+
+/**
+ * Build a TestMessage for a failed test from its traceback: full text,
+ * expected/actual diff, location of the failing line and stack frames.
+ */
+export function createFailureMessage(
+    traceback: string,
+    options: {
+        workspaceRoot: string;
+        uri?: vscode.Uri;
+        range?: vscode.Range;
+        output?: string;
+    }
+): vscode.TestMessage {
+    let text = traceback;
+    if (options.output) {
+        text += `\n\nCaptured output:\n${options.output}`;
+    }
+
+    const diff = extractExpectedActual(traceback);
+    const message = diff
+        ? vscode.TestMessage.diff(text, diff.expected, diff.actual)
+        : new vscode.TestMessage(text);
+
+    const frames = parseTracebackFrames(traceback);
+    const failureFrame = findFailureFrame(frames, options.workspaceRoot, options.uri);
+    if (failureFrame) {
+        const line = Math.max(failureFrame.line - 1, 0);
+        message.location = new vscode.Location(
+            toUri(failureFrame.file, options.workspaceRoot),
+            new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER)
+        );
+    } else if (options.uri && options.range) {
+        message.location = new vscode.Location(options.uri, options.range);
+    }
+
+    // TestMessageStackFrame is only available in newer VS Code versions
+    if ('TestMessageStackFrame' in vscode && frames.length > 0) {
+        message.stackTrace = [...frames].reverse().map(frame => new vscode.TestMessageStackFrame(
+            frame.code ? `${frame.name}: ${frame.code}` : frame.name,
+            toUri(frame.file, options.workspaceRoot),
+            new vscode.Position(Math.max(frame.line - 1, 0), 0)
+        ));
+    }
+
+    return message;
+}
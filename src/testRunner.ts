@@ -1,13 +1,55 @@
 import * as vscode from "vscode";
 import * as cp from "child_process";
-import * as path from "path";
-import { TestNode } from "./testDiscovery";
+import { getRunnableNode, TestNode } from "./testDiscovery";
 import { TestTreeDataProvider } from "./testTree";
 import { TestStateManager } from "./testStateManager";
 import { DjangoTerminal } from "./djangoTerminal";
 import { CoverageProvider } from "./coverageProvider";
 import { TestHistoryManager } from "./testHistory";
-import { getMergedEnvironmentVariables, resolvePath } from "./testUtils";
+import { confirmUnsavedChanges, getActiveProfile, getConfiguration, getMergedEnvironmentVariables, getProjectLabel, getPythonInterpreter, getSubTestId, getSubTestLabel, getTestName, getTestRunnerBackend, resolvePath, TestRunnerBackend } from "./testUtils";
+import { getPytestReporterArgs, getResultReporterArgs, RESULT_REPORTER_RUNNER, TestEvent, TestResultChannel, withoutReporterArgs } from "./resultChannel";
+import { createOutputParser, TestOutputParser } from "./outputParser";
+import { extractExpectedActual } from "./testMessages";
+import { getTagArguments } from "./testTags";
+import { getShardCount, getShardEnvironment, planShards, ShardUnit, withoutParallel } from "./testShards";
+import { getResultListenHost, wrapCommand } from "./executionWrapper";
+
+/**
+ * A test run waiting for the run in the test terminal to finish
+ */
+export interface QueuedRun {
+    id: number;
+    name: string;
+    /** Test labels passed to the test command; none runs all tests */
+    testPaths: string[];
+    /** Node whose tests the run reports on */
+    node: TestNode;
+}
+
+/**
+ * One run of all queued runs. A label inside another label (a method of a
+ * queued class, a file of a queued folder) runs with it.
+ */
+function mergeRuns(runs: QueuedRun[]): QueuedRun {
+    if (runs.length === 1) {
+        return runs[0];
+    }
+    const runAll = runs.some((run) => run.testPaths.length === 0);
+    const labels = Array.from(new Set(runs.flatMap((run) => run.testPaths)));
+    const isInside = (label: string, other: string) =>
+        label.startsWith(`${other}.`) || label.startsWith(`${other}::`) || label.startsWith(`${other}/`);
+    return {
+        id: runs[0].id,
+        name: "Queued Tests",
+        testPaths: runAll ? [] : labels.filter((label) => !labels.some((other) => isInside(label, other))),
+        node: {
+            name: "Queued Tests",
+            type: "folder",
+            dottedPath: "",
+            children: runs.map((run) => run.node),
+        },
+    };
+}
 
 export class TestRunner {
     private outputChannel: vscode.OutputChannel;
@@ -17,15 +59,30 @@ export class TestRunner {
     private refreshTimeout: NodeJS.Timeout | undefined;
     private lastRefreshTime: number = 0;
     private readonly REFRESH_INTERVAL = 200;
+    private label: string | undefined;
+    // DJANGO_SETTINGS_MODULE of the current run, stored with each result
+    private settingsModule: string | undefined;
+    private terminalListener: vscode.Disposable;
+
+    // Run in the test terminal, and the runs waiting for it to finish
+    private currentRun: QueuedRun | undefined;
+    private queue: QueuedRun[] = [];
+    // Queued run the user chose to start in place of the current run
+    private replacement: QueuedRun | undefined;
+    private lastRunId = 0;
+    private _onDidChangeQueue = new vscode.EventEmitter<void>();
+    readonly onDidChangeQueue = this._onDidChangeQueue.event;
 
     constructor(
         private workspaceRoot: string,
         private treeDataProvider: TestTreeDataProvider,
         private coverageProvider?: CoverageProvider
     ) {
+        // Each workspace folder runs its tests in its own channel and terminal
+        this.label = getProjectLabel(workspaceRoot);
         this.outputChannel =
-            vscode.window.createOutputChannel("Django Test Runner");
-        vscode.window.onDidCloseTerminal((t) => {
+            vscode.window.createOutputChannel(this.withLabel("Django Test Runner"));
+        this.terminalListener = vscode.window.onDidCloseTerminal((t) => {
             if (t === this.terminal) {
                 this.terminal = undefined;
                 this.djangoTerminal = undefined;
@@ -33,7 +90,20 @@ export class TestRunner {
         });
     }
 
+    dispose(): void {
+        this._onDidChangeQueue.dispose();
+        this.terminalListener.dispose();
+        this.terminal?.dispose();
+        this.outputChannel.dispose();
+    }
+
+    private withLabel(name: string): string {
+        return this.label ? `${name} (${this.label})` : name;
+    }
+
     async run(node: TestNode): Promise<void> {
+        // Subtests and generated tests not seen yet run with their test or class
+        node = getRunnableNode(node);
         const testPath = node.dottedPath;
         if (!testPath) {
             vscode.window.showErrorMessage("Could not determine test path");
@@ -41,20 +111,25 @@ export class TestRunner {
         }
 
         // Clear previous test state to ensure accurate counts for this run
-        TestStateManager.getInstance().clear();
+        TestStateManager.getInstance(this.workspaceRoot).clear();
 
         // Reset status
         this.setNodeStatus(node, "pending");
         this.outputChannel.clear();
         this.outputChannel.show();
 
-        const { cmd, args } = this.buildTestCommandParts(testPath);
+        this.backend = getTestRunnerBackend(this.workspaceRoot);
+        // Results are parsed from the output, without a result channel
+        const command = this.buildTestCommandParts(testPath);
+        const cmd = command.cmd;
+        const args = withoutReporterArgs(command.args);
 
         // Build display command string responsibly
         const fullCmd = `${cmd} ${args.map(a => a.includes(' ') ? `"${a}"` : a).join(' ')}`;
         this.outputChannel.appendLine(`Running: ${fullCmd}`);
 
         const env = await getMergedEnvironmentVariables(this.workspaceRoot);
+        this.settingsModule = env.DJANGO_SETTINGS_MODULE;
 
         return vscode.window.withProgress(
             {
@@ -102,7 +177,13 @@ export class TestRunner {
                                 `\nProcess exited with code: ${code}`
                             );
                         }
-                        this.parseResults(node, buffer);
+                        const parser = createOutputParser(this.backend, this.workspaceRoot);
+                        parser.onDidParseEvent((event) => this.handleTestEvent(event));
+                        parser.push(buffer);
+                        parser.end();
+                        parser.dispose();
+                        this.finalizeNodeStatus(node, code === 0);
+                        this.triggerRefresh();
                         resolve();
                     });
 
@@ -130,7 +211,7 @@ export class TestRunner {
         recursive: boolean
     ) {
         if (node.dottedPath) {
-            TestStateManager.getInstance().setStatus(node.dottedPath, status);
+            TestStateManager.getInstance(this.workspaceRoot).setStatus(node.dottedPath, status);
         }
         if (recursive && node.children) {
             node.children.forEach((c) => this.updateStatusRecursive(c, status, true));
@@ -158,43 +239,30 @@ export class TestRunner {
     }
 
     private parsingBuffer: string = "";
-    private parsingTestPath: string | null = null;
-    private parsingFailureForPath: string | null = null;
-    private failureBlock: string[] = [];
-    private testStartTimes: Map<string, number> = new Map();
-
-    async runInTerminal(node: TestNode): Promise<void> {
+    // Backend of the current run; its console output is read by a TestOutputParser
+    private backend: TestRunnerBackend = "django";
+    private outputParser: TestOutputParser | undefined;
+
+    /**
+     * Run a node in the test terminal. While another run is in progress the
+     * run waits in the queue, unless the user chooses to replace the current run.
+     */
+    async runInTerminal(node: TestNode, notifyWhenQueued: boolean = true): Promise<void> {
+        node = getRunnableNode(node);
         const testPath = node.dottedPath;
         if (testPath === undefined || testPath === null) {
             vscode.window.showErrorMessage("Could not determine test path");
             return;
         }
-
-        // Clear previous test state to ensure accurate counts for this run
-        TestStateManager.getInstance().clear();
-
-        // Reset parsing state
-        this.parsingBuffer = "";
-        this.parsingTestPath = null;
-
-        // Reset status
-        const setPendingRecursive = (n: TestNode) => {
-            if (n.dottedPath) {
-                TestStateManager.getInstance().setStatus(n.dottedPath, "pending");
-            }
-            if (n.children) {
-                n.children.forEach(setPendingRecursive);
-            }
-        };
+        if (!await confirmUnsavedChanges(this.workspaceRoot)) {
+            return;
+        }
 
         let effectiveNode = node;
 
         if (!node.dottedPath) {
-            // Run All case: Set everything to pending
+            // Run All case: the watcher follows every test of the tree
             const roots = await this.treeDataProvider.getChildren();
-            roots.forEach((rootItem) => setPendingRecursive(rootItem.node));
-
-            // Create effective node for watcher
             effectiveNode = {
                 name: "All Tests",
                 type: "folder",
@@ -204,66 +272,268 @@ export class TestRunner {
         } else {
             // Specific node case
             const realNode = await this.treeDataProvider.findNode(node.dottedPath);
-            const nodeToUpdate = realNode || node;
-            setPendingRecursive(nodeToUpdate);
-            effectiveNode = nodeToUpdate;
+            effectiveNode = realNode || node;
         }
 
-        this.treeDataProvider.refresh();
-
-        const { cmd, args } = this.buildTestCommandParts(testPath);
-        await this.executeCommandInTerminal(cmd, args, effectiveNode);
+        this.enqueue({
+            id: ++this.lastRunId,
+            name: node.name,
+            testPaths: testPath ? [testPath] : [],
+            node: effectiveNode,
+        }, notifyWhenQueued);
     }
 
     async runFailedTests(): Promise<void> {
-        const failedTests = TestStateManager.getInstance().getFailedTests();
+        // A failed subtest also fails its test, which is the one to rerun
+        // (bracketed pytest ids are parametrize cases and run on their own)
+        const backend = getTestRunnerBackend(this.workspaceRoot);
+        const failedTests = TestStateManager.getInstance(this.workspaceRoot).getFailedTests()
+            .filter((path: string) => backend === "pytest" || !path.includes("["));
         if (failedTests.length === 0) {
             vscode.window.showInformationMessage("No failed tests to run.");
             return;
         }
+        if (!await confirmUnsavedChanges(this.workspaceRoot)) {
+            return;
+        }
 
-        // Reset parsing state
-        this.parsingBuffer = "";
-        this.parsingTestPath = null;
-
-        // Set status to pending for failed tests
-        failedTests.forEach((path: string) => {
-            TestStateManager.getInstance().setStatus(path, "pending");
-        });
-        this.treeDataProvider.refresh();
-
-        const testPaths = failedTests.join(" ");
-        const { cmd, args } = this.buildTestCommandParts(testPaths);
+        // Failed doctests rerun with the test file whose load_tests adds them
+        const failedNodes = await Promise.all(failedTests.map((path: string) => this.treeDataProvider.findNode(path)));
+        const labels = new Set(failedTests.map((path: string, index: number) => {
+            const node = failedNodes[index];
+            return node?.type === "doctest" ? getRunnableNode(node).dottedPath! : path;
+        }));
 
-        // Create a dummy node for the watcher
+        // Group the failed tests under a dummy node so the watcher can finalize them
         const effectiveNode: TestNode = {
             name: "Failed Tests",
             type: "folder",
             dottedPath: "", // Dummy
-            children: [], // We don't have a tree structure for arbitrary list of failed tests easily
+            children: failedNodes.filter((n): n is TestNode => !!n),
         };
 
-        await this.executeCommandInTerminal(cmd, args, effectiveNode);
+        this.enqueue({
+            id: ++this.lastRunId,
+            name: "Failed Tests",
+            testPaths: Array.from(labels),
+            node: effectiveNode,
+        });
     }
 
-    private buildTestCommandParts(testPaths: string): { cmd: string, args: string[] } {
-        const config = vscode.workspace.getConfiguration("djangoTestManager");
-        let pythonPath = config.get<string>("pythonPath") || "python3";
-        const managePyPathConfig = config.get<string>("managePyPath") || "manage.py";
-        const managePyPath = resolvePath(managePyPathConfig, this.workspaceRoot, 'manage.py');
+    /**
+     * Runs waiting for the current run to finish, in the order they start
+     */
+    getQueue(): readonly QueuedRun[] {
+        return this.queue;
+    }
+
+    /**
+     * Move a queued run earlier (negative offset) or later in the queue
+     */
+    moveQueuedRun(id: number, offset: number): void {
+        const index = this.queue.findIndex((run) => run.id === id);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= this.queue.length) {
+            return;
+        }
+        const [run] = this.queue.splice(index, 1);
+        this.queue.splice(target, 0, run);
+        this.updateQueue();
+    }
+
+    removeQueuedRun(id: number): void {
+        this.queue = this.queue.filter((run) => run.id !== id);
+        this.updateQueue();
+    }
+
+    /**
+     * Stop the current run and start a queued run in its place, on its own
+     */
+    replaceCurrentRun(id: number): void {
+        const run = this.queue.find((queued) => queued.id === id);
+        if (!run) {
+            return;
+        }
+        if (!this.currentRun) {
+            this.removeQueuedRun(id);
+            this.startRun(run);
+            return;
+        }
+        this.replacement = run;
+        this.removeQueuedRun(id);
+        this.stopCurrentRun();
+    }
+
+    private enqueue(run: QueuedRun, notify: boolean = true): void {
+        if (!this.currentRun) {
+            this.startRun(run);
+            return;
+        }
 
-        // Auto-detect venv
-        if (pythonPath === "python3" || pythonPath === "python") {
-            const venvPath = path.join(this.workspaceRoot, ".venv", "bin", "python");
-            const venvPath2 = path.join(this.workspaceRoot, "venv", "bin", "python");
-            const fs = require("fs");
-            if (fs.existsSync(venvPath)) {
-                pythonPath = venvPath;
-            } else if (fs.existsSync(venvPath2)) {
-                pythonPath = venvPath2;
+        this.queue.push(run);
+        this.updateQueue();
+        if (!notify) {
+            return;
+        }
+        vscode.window.showInformationMessage(
+            `${run.name} is queued until the current test run finishes.`,
+            "Replace Current Run",
+            "Show Queue"
+        ).then((choice) => {
+            if (choice === "Replace Current Run") {
+                this.replaceCurrentRun(run.id);
+            } else if (choice === "Show Queue") {
+                vscode.commands.executeCommand("django-test-manager.showRunQueue");
+            }
+        });
+    }
+
+    /**
+     * Start the next queued run when the current one finished: the run chosen
+     * to replace it, or the queued runs (merged into one process by default)
+     */
+    private startNextRun(): void {
+        let run = this.replacement;
+        this.replacement = undefined;
+        if (!run && this.queue.length > 0) {
+            const merge = getConfiguration(this.workspaceRoot).get<boolean>("mergeQueuedRuns") ?? true;
+            run = merge ? mergeRuns(this.queue) : this.queue[0];
+            this.queue = merge ? [] : this.queue.slice(1);
+        }
+        this.updateQueue();
+        if (run) {
+            this.startRun(run);
+        }
+    }
+
+    private async startRun(run: QueuedRun): Promise<void> {
+        this.currentRun = run;
+
+        // Clear previous test state to ensure accurate counts for this run
+        TestStateManager.getInstance(this.workspaceRoot).clear();
+
+        // Reset parsing state
+        this.parsingBuffer = "";
+
+        // Reset status
+        const setPendingRecursive = (n: TestNode) => {
+            if (n.dottedPath) {
+                TestStateManager.getInstance(this.workspaceRoot).setStatus(n.dottedPath, "pending");
+            }
+            if (n.children) {
+                n.children.forEach(setPendingRecursive);
+            }
+        };
+        setPendingRecursive(run.node);
+        this.updateQueue();
+
+        this.backend = getTestRunnerBackend(this.workspaceRoot);
+        const shards = this.planShards(run);
+        const commands = shards.map((labels) => this.buildTestCommandParts(labels.join(" ")));
+        if (shards.length > 1) {
+            // Shards replace Django's own parallel runner
+            commands.forEach((command) => command.args = withoutParallel(command.args));
+        }
+        try {
+            await this.executeCommandInTerminal(commands, run.node);
+        } catch (e) {
+            console.error("Error starting test run:", e);
+            this.currentRun = undefined;
+            this.startNextRun();
+        }
+    }
+
+    /**
+     * Labels of each process of a run. Runs of several test classes are split
+     * into `shardCount` processes balanced by the durations in the test
+     * history, when the bundled runner reports the results of each process.
+     */
+    private planShards(run: QueuedRun): string[][] {
+        // Coverage data of several processes would overwrite each other
+        const count = getShardCount(this.workspaceRoot);
+        if (count <= 1 || this.backend !== "django" || getConfiguration(this.workspaceRoot).get<boolean>("enableCoverage")
+            || !this.buildTestCommandParts("").args.includes(RESULT_REPORTER_RUNNER)) {
+            return [run.testPaths];
+        }
+
+        // A class runs in one shard; tests outside classes run with their class or file
+        const units = new Map<string, ShardUnit>();
+        const addTest = (key: string, label: string, tests: string[]) => {
+            const unit = units.get(key) || { labels: [], tests: [] };
+            if (!unit.labels.includes(label)) {
+                unit.labels.push(label);
+            }
+            unit.tests.push(...tests);
+            units.set(key, unit);
+        };
+        const collectTests = (node: TestNode): string[] => node.children && node.children.length > 0 && node.type !== "method"
+            ? node.children.flatMap(collectTests)
+            : node.dottedPath ? [node.dottedPath] : [];
+        const collect = (node: TestNode) => {
+            if (node.type === "class" || !node.children?.length || node.type === "method") {
+                const label = getRunnableNode(node).dottedPath;
+                if (!label) {
+                    return;
+                }
+                let owner: TestNode | undefined = node;
+                while (owner && owner.type !== "class") {
+                    owner = owner.parent;
+                }
+                addTest(owner?.dottedPath || label, label, collectTests(node));
+                return;
             }
+            node.children.forEach(collect);
+        };
+        collect(run.node);
+
+        // Labels without a node in the tree (e.g. generated tests rerun as failed)
+        const covers = (label: string, other: string) => label === other || other.startsWith(`${label}.`);
+        for (const label of run.testPaths) {
+            const unitLabels = Array.from(units.values()).flatMap((unit) => unit.labels);
+            if (unitLabels.some((unitLabel) => covers(unitLabel, label) || covers(label, unitLabel))) {
+                continue;
+            }
+            // It stays with its class when other tests of the class run
+            const classKey = Array.from(units.keys()).find((key) => covers(key, label));
+            addTest(classKey || label, label, [label]);
         }
 
+        // A class selected as a whole runs as one label
+        for (const [key, unit] of units) {
+            if (unit.labels.includes(key)) {
+                unit.labels = [key];
+            }
+        }
+        if (units.size < 2) {
+            return [run.testPaths];
+        }
+        const durations = TestHistoryManager.getInstance(this.workspaceRoot).getAverageDurations();
+        return planShards(Array.from(units.values()), count, durations);
+    }
+
+    /**
+     * Mark the tests of the queued runs in the tree and tell the queue's views
+     */
+    private updateQueue(): void {
+        const queued: string[] = [];
+        const collect = (node: TestNode) => {
+            if (node.dottedPath) {
+                queued.push(node.dottedPath);
+            }
+            node.children?.forEach(collect);
+        };
+        this.queue.forEach((run) => collect(run.node));
+        TestStateManager.getInstance(this.workspaceRoot).setQueuedTests(queued);
+        this.treeDataProvider.refresh();
+        this._onDidChangeQueue.fire();
+    }
+
+    private buildTestCommandParts(testPaths: string): { cmd: string, args: string[] } {
+        const config = getConfiguration(this.workspaceRoot);
+        const pythonPath = getPythonInterpreter(this.workspaceRoot);
+        const managePyPathConfig = config.get<string>("managePyPath") || "manage.py";
+        const managePyPath = resolvePath(managePyPathConfig, this.workspaceRoot, 'manage.py');
+
         const enableCoverage = config.get<boolean>("enableCoverage") || false;
         const coverageCommand = config.get<string>("coverageCommand") || "coverage";
 
@@ -276,12 +546,11 @@ export class TestRunner {
             }
         }
 
-        const activeProfile = config.get<string>("activeProfile") || "Default";
-        const profiles =
-            config.get<{ [key: string]: string[] }>("testProfiles") || {};
-
-        // Combine profile args with config args (append config args to profile args)
-        const profileArgs = profiles[activeProfile] || [];
+        // Combine profile args with config args (append config args to profile args).
+        // Profiles hold manage.py options; pytest has its own argument list.
+        const profileArgs = this.backend === "pytest"
+            ? config.get<string[]>("pytestArguments") || []
+            : getActiveProfile(this.workspaceRoot).arguments;
         const testArguments = config.get<string[]>("testArguments") || [];
         const rawTestArgs = [...profileArgs, ...testArguments];
 
@@ -292,18 +561,38 @@ export class TestRunner {
             testArgs.push(arg);
         }
 
-        // Ensure verbose output is enabled for parsing
-        if (!testArgs.includes("-v") && !testArgs.includes("--verbose")) {
-            testArgs.push("-v", "2");
-        }
-        // Ensure --noinput is passed to avoid blocking on database creation prompts
-        if (!testArgs.includes("--noinput") && !testArgs.includes("--no-input")) {
-            testArgs.push("--noinput");
-        }
+        let commandTemplate: string;
+        if (this.backend === "pytest") {
+            // Ensure one line per test for parsing
+            if (!testArgs.some(arg => /^-v+$/.test(arg) || arg === "--verbose")) {
+                testArgs.push("-v");
+            }
+            testArgs.push(...getPytestReporterArgs(testArgs));
 
-        const commandTemplate =
-            config.get<string>("testCommandTemplate") ||
-            "${pythonPath} ${managePyPath} test ${testPath} ${testArguments}";
+            commandTemplate =
+                config.get<string>("pytestCommandTemplate") ||
+                "${pythonPath} -m pytest ${testPath} ${testArguments}";
+        } else {
+            // Ensure verbose output is enabled for parsing
+            if (!testArgs.includes("-v") && !testArgs.includes("--verbose")) {
+                testArgs.push("-v", "2");
+            }
+            // Ensure --noinput is passed to avoid blocking on database creation prompts
+            if (!testArgs.includes("--noinput") && !testArgs.includes("--no-input")) {
+                testArgs.push("--noinput");
+            }
+            // The tag filter of the tree applies to everything run from it
+            testArgs.push(...getTagArguments(this.treeDataProvider.getTagFilter()));
+
+            commandTemplate =
+                config.get<string>("testCommandTemplate") ||
+                "${pythonPath} ${managePyPath} test ${testPath} ${testArguments}";
+
+            // Report results over the result channel (only manage.py understands --testrunner)
+            if (commandTemplate.includes("${managePyPath}")) {
+                testArgs.push(...getResultReporterArgs(testArgs));
+            }
+        }
 
         // Tokenize by splitting on spaces
         const tokens = commandTemplate.split(' ');
@@ -343,37 +632,50 @@ export class TestRunner {
     private isParsing: boolean = false;
     private currentProcess: any = null; // Store reference to current process
 
+    /**
+     * Stop the current run and drop the queued runs
+     */
     public cancel() {
+        if (this.queue.length > 0) {
+            this.queue = [];
+            this.updateQueue();
+        }
         if (this.djangoTerminal) {
-            this.djangoTerminal.sendSignal("SIGINT");
-            // Send again to be sure if first one just interrupted a sub-process
-            setTimeout(() => {
-                if (this.isParsing && this.djangoTerminal) {
-                    this.djangoTerminal.sendSignal("SIGINT");
-                }
-            }, 500);
-
             vscode.window.showInformationMessage("Cancelling tests...");
+            this.stopCurrentRun();
+        }
+    }
 
-            // Mark any pending or running tests as 'aborted' so they show as cancelled
-            const stateManager = TestStateManager.getInstance();
-            const allKeys = stateManager.getAllKeys();
-            allKeys.forEach((key) => {
-                const status = stateManager.getStatus(key);
-                if (status === "pending" || status === "running") {
-                    stateManager.setStatus(key, "aborted");
-                }
-            });
-            this.treeDataProvider.refresh();
-            vscode.commands.executeCommand(
-                "setContext",
-                "djangoTestManager.isRunning",
-                false
-            );
+    private stopCurrentRun() {
+        if (!this.djangoTerminal) {
+            return;
         }
+        this.djangoTerminal.sendSignal("SIGINT");
+        // Send again to be sure if first one just interrupted a sub-process
+        setTimeout(() => {
+            if (this.isParsing && this.djangoTerminal) {
+                this.djangoTerminal.sendSignal("SIGINT");
+            }
+        }, 500);
+
+        // Mark any pending or running tests as 'aborted' so they show as cancelled
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        const allKeys = stateManager.getAllKeys();
+        allKeys.forEach((key) => {
+            const status = stateManager.getStatus(key);
+            if (status === "pending" || status === "running") {
+                stateManager.setStatus(key, "aborted");
+            }
+        });
+        this.treeDataProvider.refresh();
+        vscode.commands.executeCommand(
+            "setContext",
+            "djangoTestManager.isRunning",
+            false
+        );
     }
 
-    private async executeCommandInTerminal(cmd: string, args: string[], nodeToWatch: TestNode) {
+    private async executeCommandInTerminal(commands: { cmd: string, args: string[] }[], nodeToWatch: TestNode) {
         vscode.commands.executeCommand(
             "setContext",
             "djangoTestManager.isRunning",
@@ -386,7 +688,7 @@ export class TestRunner {
 
         if (!this.terminal) {
             this.terminal = vscode.window.createTerminal({
-                name: "Django Test Terminal",
+                name: this.withLabel("Django Test Terminal"),
                 pty: this.djangoTerminal,
             });
         }
@@ -395,47 +697,77 @@ export class TestRunner {
 
         // Reset parsing state
         this.parsingBuffer = "";
-        this.parsingTestPath = null;
-
-        // Start a new test history session
-        const historyManager = TestHistoryManager.getInstance();
-        historyManager.startSession();
 
         // Start parsing loop
         if (this.parsingInterval) {
             clearInterval(this.parsingInterval);
         }
         this.parsingInterval = setInterval(() => {
-            this.processParsingBuffer(nodeToWatch);
+            this.processParsingBuffer();
         }, 200); // Process buffer every 200ms
 
-        const env = await getMergedEnvironmentVariables(this.workspaceRoot);
-        this.djangoTerminal.runCommand(
+        let env = await getMergedEnvironmentVariables(this.workspaceRoot);
+
+        // Start a new test history session, tagged with the settings module of the run
+        TestHistoryManager.getInstance(this.workspaceRoot).startSession(env.DJANGO_SETTINGS_MODULE);
+        this.settingsModule = env.DJANGO_SETTINGS_MODULE;
+
+        // Structured results from the bundled runner; verbose output parsing stays as fallback
+        const resultChannel = new TestResultChannel();
+        try {
+            const port = await resultChannel.listen(getResultListenHost(this.workspaceRoot));
+            env = resultChannel.getEnvironment(env, port);
+            resultChannel.onDidReceiveEvent((event) => this.handleTestEvent(event));
+        } catch (e) {
+            console.error("Could not start result channel:", e);
+            // Without the channel the helpers are not on PYTHONPATH
+            commands = commands.map(({ cmd, args }) => ({ cmd, args: withoutReporterArgs(args) }));
+        }
+
+        this.outputParser?.dispose();
+        this.outputParser = createOutputParser(this.backend, this.workspaceRoot);
+        this.outputParser?.onDidParseEvent((event) => {
+            if (!resultChannel.isConnected) {
+                this.handleTestEvent(event);
+            }
+        });
+
+        // Each shard uses its own test databases; all report to the same channel
+        const terminalCommands = commands.map(({ cmd, args }, index) => wrapCommand(this.workspaceRoot, {
             cmd,
             args,
+            env: commands.length > 1 ? getShardEnvironment(env, index) : env,
+        }));
+        this.djangoTerminal.runCommands(
+            terminalCommands,
             this.workspaceRoot,
-            env,
             (data: string) => {
                 // Just accumulate data, don't parse immediately
                 this.parsingBuffer += data;
             },
-            (code) => {
+            async (code) => {
+                // Let the result channel deliver any events still in flight
+                await resultChannel.waitForClose();
+
                 this.isParsing = false;
                 if (this.parsingInterval) {
                     clearInterval(this.parsingInterval);
                 }
 
                 // Final parse to catch any remaining output
-                this.processParsingBuffer(nodeToWatch); // Keep original logic for processing remaining buffer
+                this.parseResults(this.parsingBuffer);
+                this.parsingBuffer = "";
+                this.outputParser?.end();
+                resultChannel.dispose();
                 this.finalizeNodeStatus(nodeToWatch, code === 0);
                 this.printTestDurationReport();
 
                 // End the test history session
-                const historyManager = TestHistoryManager.getInstance();
+                const historyManager = TestHistoryManager.getInstance(this.workspaceRoot);
                 historyManager.endSession();
 
                 // Handle Coverage
-                const config = vscode.workspace.getConfiguration("djangoTestManager");
+                const config = getConfiguration(this.workspaceRoot);
                 const enableCoverage = config.get<boolean>("enableCoverage") || false;
                 if (enableCoverage && this.coverageProvider) {
                     this.generateCoverageReport();
@@ -447,12 +779,19 @@ export class TestRunner {
                     "djangoTestManager.isRunning",
                     false
                 );
-            }
+
+                // A process reporting an error may still exit afterwards
+                if (this.currentRun) {
+                    this.currentRun = undefined;
+                    this.startNextRun();
+                }
+            },
+            { commands: getActiveProfile(this.workspaceRoot).preRunCommands || [], env }
         );
     }
 
     private printTestDurationReport() {
-        const durations = TestStateManager.getInstance().getDurations();
+        const durations = TestStateManager.getInstance(this.workspaceRoot).getDurations();
         if (durations.size === 0) {
             return;
         }
@@ -476,7 +815,7 @@ export class TestRunner {
         }
     }
 
-    private processParsingBuffer(nodeToWatch: TestNode) {
+    private processParsingBuffer() {
         if (this.isParsing || this.parsingBuffer.length === 0) return;
 
         this.isParsing = true;
@@ -489,7 +828,7 @@ export class TestRunner {
                     lastNewlineIndex + 1
                 );
                 this.parsingBuffer = this.parsingBuffer.substring(lastNewlineIndex + 1);
-                this.parseResults(nodeToWatch, completeLines);
+                this.parseResults(completeLines);
             }
         } catch (e) {
             console.error("Error parsing test output:", e);
@@ -498,6 +837,108 @@ export class TestRunner {
         }
     }
 
+    /**
+     * Apply an event reported by the bundled runner over the result channel,
+     * or read from the console output by the run's parser
+     */
+    private handleTestEvent(event: TestEvent) {
+        if (!event.test) {
+            return;
+        }
+
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        const testPath = event.test;
+        // Tests generated by parameterized or ddt appear under their decorated method
+        this.treeDataProvider.addGeneratedTest(testPath);
+
+        if (event.event === "subTest") {
+            if (event.outcome && event.subtest !== undefined) {
+                this.handleSubTestResult(testPath, event.subtest, event.outcome, event.message, event.traceback);
+                TestHistoryManager.getInstance(this.workspaceRoot).recordSubTest(testPath, getSubTestLabel(event.subtest), event.outcome, event.message);
+                this.triggerRefresh();
+            }
+            return;
+        }
+
+        if (event.event === "startTest") {
+            this.treeDataProvider.clearSubTests(testPath);
+            stateManager.setStatus(testPath, "running");
+            this.triggerRefresh();
+            return;
+        }
+
+        if (event.event !== "outcome" || !event.outcome) {
+            return;
+        }
+
+        let duration = 0;
+        if (typeof event.duration === "number") {
+            duration = Math.round(event.duration * 1000);
+            stateManager.setDuration(testPath, duration);
+        }
+
+        const status = event.outcome === "error" ? "failed" : event.outcome;
+        let errorMessage: string | undefined;
+        if (status === "failed") {
+            errorMessage = event.message || "Test Failed. Check terminal for details.";
+            stateManager.setFailureMessage(testPath, errorMessage);
+            if (event.traceback) {
+                this.processFailureBlock(testPath, event.traceback.split("\n"));
+            }
+        }
+        stateManager.setStatus(testPath, status);
+        stateManager.setSettingsModule(testPath, this.settingsModule);
+
+        // pytest parametrize cases (test_add[1-2]) also update their function,
+        // which is a leaf in the tree when the cases are not known statically
+        const bracket = testPath.indexOf("[");
+        if (bracket > 0) {
+            const basePath = testPath.substring(0, bracket);
+            const baseStatus = stateManager.getStatus(basePath);
+            if (status === "failed" || baseStatus === "pending" || baseStatus === "running") {
+                stateManager.setStatus(basePath, status);
+                stateManager.setSettingsModule(basePath, this.settingsModule);
+            }
+        }
+
+        const testName = getTestName(testPath);
+        TestHistoryManager.getInstance(this.workspaceRoot).recordTest(
+            testPath,
+            event.fixture ? `${event.fixture} (${testName})` : testName,
+            event.outcome,
+            duration,
+            errorMessage
+        );
+
+        this.triggerRefresh();
+    }
+
+    /**
+     * Show a subtest result as a child of its test. Returns the subtest's id.
+     */
+    private handleSubTestResult(
+        testPath: string,
+        description: string,
+        outcome: "passed" | "failed" | "error" | "skipped",
+        message?: string,
+        traceback?: string
+    ): string {
+        const stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        const subTestPath = this.treeDataProvider.getSubTestNode(testPath, description)?.dottedPath
+            || getSubTestId(testPath, description);
+
+        const status = outcome === "error" ? "failed" : outcome;
+        if (status === "failed") {
+            stateManager.setFailureMessage(subTestPath, message || "Subtest failed. Check terminal for details.");
+            if (traceback) {
+                this.processFailureBlock(subTestPath, traceback.split("\n"));
+            }
+        }
+        stateManager.setStatus(subTestPath, status);
+        stateManager.setSettingsModule(subTestPath, this.settingsModule);
+        return subTestPath;
+    }
+
     private finalizeNodeStatus(node: TestNode, success: boolean) {
         // If we have children, recurse
         if (node.children && node.children.length > 0) {
@@ -505,20 +946,18 @@ export class TestRunner {
         }
 
         // Check if we are in failfast mode
-        const config = vscode.workspace.getConfiguration("djangoTestManager");
-        const activeProfile = config.get<string>("activeProfile") || "Default";
-        const profiles =
-            config.get<{ [key: string]: string[] }>("testProfiles") || {};
-        const args =
-            profiles[activeProfile] || config.get<string[]>("testArguments") || [];
+        const config = getConfiguration(this.workspaceRoot);
+        const profileArgs = getActiveProfile(this.workspaceRoot).arguments;
+        const args = profileArgs.length > 0 ? profileArgs : config.get<string[]>("testArguments") || [];
         const isFailFast = args.includes("--failfast");
 
         if (node.dottedPath) {
-            const stateManager = TestStateManager.getInstance();
+            const stateManager = TestStateManager.getInstance(this.workspaceRoot);
             const currentStatus = stateManager.getStatus(node.dottedPath);
 
             // Only update if still pending
             if (currentStatus === "pending") {
+                stateManager.setSettingsModule(node.dottedPath, this.settingsModule);
                 if (success) {
                     // If process exited successfully, assume pending tests passed
                     // (unless they were skipped, but we should have caught that in parsing)
@@ -538,170 +977,18 @@ export class TestRunner {
         }
     }
 
-    // Pre-compiled regex patterns for parsing
-    // eslint-disable-next-line no-control-regex
-    private static readonly ANSI_CODE_REGEX = /\u001b\[\d+m/g;
-    private static readonly TEST_START_REGEX = /(\w+)\s+\(([\w.]+)\)/;
-    private static readonly RESULT_REGEX = /\.\.\.\s+(ok|skipped|FAIL|ERROR)(?:\s+\(([\d.]+)s\))?/;
-    private static readonly SUMMARY_REGEX = /(FAIL|ERROR):\s+(\w+)\s+\((.+)\)/;
-    private static readonly SEPARATOR_LINE = '----------------------------------------------------------------------';
-
-    private parseResults(node: TestNode, output: string) {
-        // Strip ANSI codes
-        const cleanOutput = output.replace(TestRunner.ANSI_CODE_REGEX, "");
-        const lines = cleanOutput.split("\n");
-        let shouldRefresh = false;
-
-        // Cache state manager instance for this batch
-        const stateManager = TestStateManager.getInstance();
-        const lineCount = lines.length;
-
-        for (let i = 0; i < lineCount; i++) {
-            const line = lines[i];
-
-            // Skip empty lines quickly
-            if (line.length === 0) continue;
-
-            // Check for start of a test: test_method (path.to.test)
-            const testStartMatch = TestRunner.TEST_START_REGEX.exec(line);
-            if (testStartMatch) {
-                const methodName = testStartMatch[1];
-                const pathInParens = testStartMatch[2];
-
-                // Construct full dotted path: ensure it ends with method name
-                if (pathInParens.endsWith(`.${methodName}`) || pathInParens === methodName) {
-                    this.parsingTestPath = pathInParens;
-                } else {
-                    this.parsingTestPath = `${pathInParens}.${methodName}`;
-                }
-
-                // Set status to 'running' for live feedback
-                stateManager.setStatus(this.parsingTestPath, 'running');
-                this.testStartTimes.set(this.parsingTestPath, Date.now());
-                shouldRefresh = true;
-            }
-
-            // Check for result on the same line or subsequent lines
-            if (this.parsingTestPath) {
-                const resultMatch = TestRunner.RESULT_REGEX.exec(line);
-                if (resultMatch) {
-                    const result = resultMatch[1];
-                    let status: "passed" | "failed" | "skipped" = "passed";
-                    let errorMessage: string | undefined;
-
-                    if (result === "skipped") {
-                        status = "skipped";
-                        shouldRefresh = true;
-                    } else if (result === "FAIL" || result === "ERROR") {
-                        status = "failed";
-                        shouldRefresh = true;
-                        errorMessage = "Test Failed. Check terminal for details.";
-                        stateManager.setFailureMessage(
-                            this.parsingTestPath,
-                            errorMessage
-                        );
-                    }
-
-                    let duration = 0;
-                    if (resultMatch[2]) {
-                        // Use reported duration from Django runner
-                        const durationSec = parseFloat(resultMatch[2]);
-                        duration = durationSec * 1000;
-                        stateManager.setDuration(this.parsingTestPath, duration);
-                    } else {
-                        // Fallback to calculated duration
-                        const startTime = this.testStartTimes.get(this.parsingTestPath);
-                        if (startTime) {
-                            duration = Date.now() - startTime;
-                            stateManager.setDuration(this.parsingTestPath, duration);
-                        }
-                    }
-
-                    stateManager.setStatus(this.parsingTestPath, status);
-
-                    // Record to test history
-                    const historyManager = TestHistoryManager.getInstance();
-                    const testName = this.parsingTestPath.split('.').pop() || this.parsingTestPath;
-                    historyManager.recordTest(
-                        this.parsingTestPath,
-                        testName,
-                        status === "failed" ? "failed" : status,
-                        duration,
-                        errorMessage
-                    );
-
-                    this.parsingTestPath = null;
-                    continue;
-                }
-            }
-
-            // Failure Summary Block (Catch-all for detailed failures at the end)
-            const summaryMatch = TestRunner.SUMMARY_REGEX.exec(line);
-            if (summaryMatch) {
-                const methodName = summaryMatch[2];
-                const pathInParens = summaryMatch[3];
-                let fullPath = pathInParens;
-
-                if (!fullPath.endsWith(`.${methodName}`) && fullPath !== methodName) {
-                    fullPath = `${pathInParens}.${methodName}`;
-                }
-
-                stateManager.setStatus(fullPath, "failed");
-                this.parsingFailureForPath = fullPath;
-                this.failureBlock = [];
-                shouldRefresh = true;
-                continue;
-            }
-
-            if (this.parsingFailureForPath) {
-                if (line.startsWith(TestRunner.SEPARATOR_LINE)) {
-                    this.processFailureBlock(this.parsingFailureForPath, this.failureBlock);
-                    this.parsingFailureForPath = null;
-                    this.failureBlock = [];
-                } else {
-                    this.failureBlock.push(line);
-                }
-            }
-        }
-
-        // Update the root node status based on summary ONLY if it's a leaf node.
-        if (!node.children || node.children.length === 0) {
-            if (cleanOutput.includes("FAILED (failures=") || cleanOutput.includes("FAILED (errors=")) {
-                if (node.dottedPath) {
-                    stateManager.setStatus(node.dottedPath, "failed");
-                    shouldRefresh = true;
-                }
-            } else if (cleanOutput.includes("OK")) {
-                if (node.dottedPath) {
-                    stateManager.setStatus(node.dottedPath, "passed");
-                }
-            }
-        }
-
-        if (shouldRefresh) {
-            this.triggerRefresh();
-        }
+    /**
+     * Feed console output to the run's parser. Its results only count while
+     * the bundled runner is not reporting over the result channel.
+     */
+    private parseResults(output: string) {
+        this.outputParser?.push(output);
     }
 
     private processFailureBlock(testPath: string, lines: string[]) {
-        // Simple heuristic to extract diff
-        // Look for lines starting with - and +
-        let expected = "";
-        let actual = "";
-        let hasDiff = false;
-
-        lines.forEach(line => {
-            if (line.startsWith("- ")) {
-                expected += line.substring(2) + "\n";
-                hasDiff = true;
-            } else if (line.startsWith("+ ")) {
-                actual += line.substring(2) + "\n";
-                hasDiff = true;
-            }
-        });
-
-        if (hasDiff) {
-            TestStateManager.getInstance().setDiff(testPath, expected, actual);
+        const diff = extractExpectedActual(lines.join("\n"));
+        if (diff) {
+            TestStateManager.getInstance(this.workspaceRoot).setDiff(testPath, diff.expected, diff.actual);
         }
     }
 
@@ -710,33 +997,31 @@ export class TestRunner {
 
         // Run coverage xml
         // We need to run this command in the same environment/cwd
-        const config = vscode.workspace.getConfiguration("djangoTestManager");
+        const config = getConfiguration(this.workspaceRoot);
         const coverageCommand = config.get<string>("coverageCommand") || "coverage";
 
         let cmd = coverageCommand;
         let args = ["xml"];
 
         // If we used pythonPath -m coverage, we should do the same here
-        let pythonPath = config.get<string>("pythonPath") || "python3";
-
-        // Auto-detect venv
-        const venvPath = path.join(this.workspaceRoot, ".venv", "bin", "python");
-        const venvPath2 = path.join(this.workspaceRoot, "venv", "bin", "python");
-        const fs = require("fs");
-        if (fs.existsSync(venvPath)) pythonPath = venvPath;
-        else if (fs.existsSync(venvPath2)) pythonPath = venvPath2;
+        const pythonPath = getPythonInterpreter(this.workspaceRoot);
 
         if (coverageCommand === 'coverage' && pythonPath.includes('bin/python')) {
             cmd = pythonPath;
             args = ["-m", "coverage", "xml"];
         }
 
-        // Use merged environment variables for consistency
-        const env = await getMergedEnvironmentVariables(this.workspaceRoot);
+        // Use merged environment variables for consistency; the report is written
+        // where the wrapped test run left its coverage data
+        const command = wrapCommand(this.workspaceRoot, {
+            cmd,
+            args,
+            env: await getMergedEnvironmentVariables(this.workspaceRoot),
+        });
 
-        this.outputChannel.appendLine(`Generating coverage report: ${cmd} ${args.join(' ')}`);
+        this.outputChannel.appendLine(`Generating coverage report: ${command.cmd} ${command.args.join(' ')}`);
 
-        const child = cp.spawn(cmd, args, { cwd: this.workspaceRoot, env: env });
+        const child = cp.spawn(command.cmd, command.args, { cwd: this.workspaceRoot, env: command.env });
 
         child.on('close', (code) => {
             if (code === 0) {
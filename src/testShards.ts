@@ -0,0 +1,75 @@
+import * as os from 'os';
+import { getConfiguration } from './testUtils';
+
+/**
+ * Environment variable giving each shard's process its own test databases,
+ * read by the bundled test runner
+ */
+export const SHARD_DB_SUFFIX_ENV = 'DJANGO_TEST_MANAGER_DB_SUFFIX';
+
+/**
+ * Tests that stay together in one shard: the tests of a class share its
+ * setUpClass and setUpTestData, so a class is never split
+ */
+export interface ShardUnit {
+    /** Labels that run the unit's tests */
+    labels: string[];
+    /** Ids of the unit's tests, to look up their durations */
+    tests: string[];
+}
+
+/**
+ * Number of processes to split a run into (`shardCount`; 0 is one per CPU core)
+ */
+export function getShardCount(workspaceRoot: string): number {
+    const count = getConfiguration(workspaceRoot).get<number>('shardCount') ?? 1;
+    return count <= 0 ? os.cpus().length : Math.floor(count);
+}
+
+/**
+ * Split units into at most `count` shards of about the same total duration.
+ * Durations come from the test history; tests without one count as the
+ * average known test. Returns the labels of each shard, slowest shard first.
+ */
+export function planShards(units: ShardUnit[], count: number, durations: Map<string, number>): string[][] {
+    const known = units.flatMap(unit => unit.tests).map(test => durations.get(test)).filter((d): d is number => d !== undefined);
+    const fallback = known.length > 0 ? known.reduce((sum, d) => sum + d, 0) / known.length : 1;
+    const weigh = (unit: ShardUnit) =>
+        unit.tests.reduce((sum, test) => sum + (durations.get(test) ?? fallback), 0) || fallback;
+
+    // Longest units first, each to the shard that finishes first so far
+    const shards = Array.from({ length: Math.min(count, units.length) }, () => ({ labels: [] as string[], duration: 0 }));
+    const weighed = units.map(unit => ({ unit, duration: weigh(unit) })).sort((a, b) => b.duration - a.duration);
+    for (const { unit, duration } of weighed) {
+        const shard = shards.reduce((min, s) => s.duration < min.duration ? s : min);
+        shard.labels.push(...unit.labels);
+        shard.duration += duration;
+    }
+    return shards.sort((a, b) => b.duration - a.duration).map(shard => shard.labels);
+}
+
+/**
+ * Environment of a shard's process: its own test database suffix
+ */
+export function getShardEnvironment(env: { [key: string]: string }, index: number): { [key: string]: string } {
+    return { ...env, [SHARD_DB_SUFFIX_ENV]: `shard${index + 1}` };
+}
+
+/**
+ * Test arguments without Django's --parallel (and its worker count), which
+ * shards replace
+ */
+export function withoutParallel(args: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--parallel') {
+            if (i + 1 < args.length && /^(\d+|auto)$/.test(args[i + 1])) {
+                i++;
+            }
+            continue;
+        }
+        if (args[i].startsWith('--parallel=')) continue;
+        result.push(args[i]);
+    }
+    return result;
+}
@@ -3,11 +3,16 @@ import * as vscode from 'vscode';
 type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped' | 'aborted' | 'unknown';
 
 export class TestStateManager {
-    private static instance: TestStateManager;
+    // One per project root, as test ids only identify a test within its project
+    private static instances = new Map<string, TestStateManager>();
     private statuses = new Map<string, TestStatus>();
     private failureMessages = new Map<string, string>();
     private durations = new Map<string, number>();
     private diffs = new Map<string, { expected: string; actual: string }>();
+    // Tests waiting in the run queue; kept apart so their last results stay visible
+    private queued = new Set<string>();
+    // DJANGO_SETTINGS_MODULE of the run each result comes from
+    private settingsModules = new Map<string, string>();
 
     private _onDidChangeStatus = new vscode.EventEmitter<void>();
     public readonly onDidChangeStatus = this._onDidChangeStatus.event;
@@ -18,11 +23,21 @@ export class TestStateManager {
 
     private constructor() { }
 
-    public static getInstance(): TestStateManager {
-        if (!TestStateManager.instance) {
-            TestStateManager.instance = new TestStateManager();
+    public static getInstance(workspaceRoot = ''): TestStateManager {
+        let instance = TestStateManager.instances.get(workspaceRoot);
+        if (!instance) {
+            instance = new TestStateManager();
+            TestStateManager.instances.set(workspaceRoot, instance);
         }
-        return TestStateManager.instance;
+        return instance;
+    }
+
+    /**
+     * Forget the state of a project whose workspace folder was removed
+     */
+    public static removeInstance(workspaceRoot: string): void {
+        TestStateManager.instances.get(workspaceRoot)?.dispose();
+        TestStateManager.instances.delete(workspaceRoot);
     }
 
     /**
@@ -81,6 +96,7 @@ export class TestStateManager {
         this.failureMessages.clear();
         this.durations.clear();
         this.diffs.clear();
+        this.settingsModules.clear();
 
         if (this.fireTimeout) {
             clearTimeout(this.fireTimeout);
@@ -89,6 +105,33 @@ export class TestStateManager {
         this._onDidChangeStatus.fire();
     }
 
+    /**
+     * Remember the settings module of the run a test's result comes from
+     */
+    public setSettingsModule(dottedPath: string, settingsModule: string | undefined): void {
+        if (settingsModule) {
+            this.settingsModules.set(dottedPath, settingsModule);
+        } else {
+            this.settingsModules.delete(dottedPath);
+        }
+    }
+
+    public getSettingsModule(dottedPath: string): string | undefined {
+        return this.settingsModules.get(dottedPath);
+    }
+
+    /**
+     * Replace the tests waiting in the run queue
+     */
+    public setQueuedTests(dottedPaths: string[]): void {
+        this.queued = new Set(dottedPaths);
+        this.debouncedFire();
+    }
+
+    public isQueued(dottedPath: string): boolean {
+        return this.queued.has(dottedPath);
+    }
+
     public getFailedTests(): string[] {
         const failed: string[] = [];
         for (const [path, status] of this.statuses) {
@@ -146,4 +189,12 @@ export class TestStateManager {
 
         return { passed, failed, skipped, pending, running, aborted, total: this.statuses.size };
     }
+
+    public dispose(): void {
+        if (this.fireTimeout) {
+            clearTimeout(this.fireTimeout);
+            this.fireTimeout = undefined;
+        }
+        this._onDidChangeStatus.dispose();
+    }
 }
@@ -3,15 +3,26 @@ import { TestStateManager } from './testStateManager';
 
 export class TestStatusBar {
     private statusBarItem: vscode.StatusBarItem;
+    // Counts are summed over the projects of all workspace folders
+    private stateManagers = new Map<TestStateManager, vscode.Disposable>();
 
     constructor() {
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
         this.statusBarItem.command = 'django-test-manager.runFailedTests';
         this.update();
+    }
 
-        TestStateManager.getInstance().onDidChangeStatus(() => {
+    public track(stateManager: TestStateManager): void {
+        this.stateManagers.set(stateManager, stateManager.onDidChangeStatus(() => {
             this.update();
-        });
+        }));
+        this.update();
+    }
+
+    public untrack(stateManager: TestStateManager): void {
+        this.stateManagers.get(stateManager)?.dispose();
+        this.stateManagers.delete(stateManager);
+        this.update();
     }
 
     private updateTimeout: NodeJS.Timeout | undefined;
@@ -27,27 +38,27 @@ export class TestStatusBar {
     }
 
     private _doUpdate() {
-        const stateManager = TestStateManager.getInstance();
-        const allKeys = stateManager.getAllKeys();
-
         let passed = 0;
         let failed = 0;
         let skipped = 0;
         let pending = 0;
         let running = 0;
         let aborted = 0;
-
-        allKeys.forEach(key => {
-            const status = stateManager.getStatus(key);
-            if (status === 'passed') passed++;
-            else if (status === 'failed') failed++;
-            else if (status === 'skipped') skipped++;
-            else if (status === 'pending') pending++;
-            else if (status === 'running') running++;
-            else if (status === 'aborted') aborted++;
-        });
-
-        const total = allKeys.length;
+        let total = 0;
+
+        for (const stateManager of this.stateManagers.keys()) {
+            const allKeys = stateManager.getAllKeys();
+            allKeys.forEach(key => {
+                const status = stateManager.getStatus(key);
+                if (status === 'passed') passed++;
+                else if (status === 'failed') failed++;
+                else if (status === 'skipped') skipped++;
+                else if (status === 'pending') pending++;
+                else if (status === 'running') running++;
+                else if (status === 'aborted') aborted++;
+            });
+            total += allKeys.length;
+        }
 
         if (passed === 0 && failed === 0 && skipped === 0 && pending === 0 && running === 0 && aborted === 0) {
             this.statusBarItem.hide();
@@ -101,6 +112,7 @@ export class TestStatusBar {
     }
 
     public dispose() {
+        this.stateManagers.forEach(listener => listener.dispose());
         this.statusBarItem.dispose();
     }
 }
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+
+/**
+ * Django tags to run (`--tag`) and to skip (`--exclude-tag`)
+ */
+export interface TagFilter {
+    include: string[];
+    exclude: string[];
+}
+
+// Test Explorer tag ids of Django tags, apart from the node type tags
+const TEST_TAG_PREFIX = 'tag:';
+
+export function toTestTag(tag: string): vscode.TestTag {
+    return new vscode.TestTag(`${TEST_TAG_PREFIX}${tag}`);
+}
+
+/**
+ * Django tags of a Test Explorer item
+ */
+export function fromTestTags(tags: readonly vscode.TestTag[]): string[] {
+    return tags
+        .filter(tag => tag.id.startsWith(TEST_TAG_PREFIX))
+        .map(tag => tag.id.substring(TEST_TAG_PREFIX.length));
+}
+
+export function isTagFilterEmpty(filter: TagFilter | undefined): boolean {
+    return !filter || (filter.include.length === 0 && filter.exclude.length === 0);
+}
+
+/**
+ * manage.py test arguments applying a filter
+ */
+export function getTagArguments(filter: TagFilter | undefined): string[] {
+    if (!filter) {
+        return [];
+    }
+    return [
+        ...filter.include.flatMap(tag => ['--tag', tag]),
+        ...filter.exclude.flatMap(tag => ['--exclude-tag', tag])
+    ];
+}
+
+/**
+ * Whether Django would run a test with these tags: any of the included tags
+ * (when some are given) and none of the excluded ones
+ */
+export function matchesTagFilter(tags: readonly string[] | undefined, filter: TagFilter | undefined): boolean {
+    if (!filter) {
+        return true;
+    }
+    const testTags = tags || [];
+    if (filter.include.length > 0 && !filter.include.some(tag => testTags.includes(tag))) {
+        return false;
+    }
+    return !filter.exclude.some(tag => testTags.includes(tag));
+}
+
+export function describeTagFilter(filter: TagFilter): string {
+    const parts = [
+        ...filter.include.map(tag => `+${tag}`),
+        ...filter.exclude.map(tag => `-${tag}`)
+    ];
+    return parts.join(' ');
+}
+
+/**
+ * Let the user choose tags to run and to exclude. Resolves to undefined when
+ * the pick is cancelled.
+ */
+export async function pickTagFilter(tags: string[], current?: TagFilter): Promise<TagFilter | undefined> {
+    if (tags.length === 0) {
+        vscode.window.showInformationMessage('No tests with Django @tag decorators were found.');
+        return undefined;
+    }
+
+    type TagPickItem = vscode.QuickPickItem & { tag?: string; mode?: 'include' | 'exclude' };
+    const items: TagPickItem[] = [
+        { label: 'Run only tests tagged', kind: vscode.QuickPickItemKind.Separator },
+        ...tags.map(tag => ({ label: tag, description: '--tag', tag, mode: 'include' as const, picked: current?.include.includes(tag) })),
+        { label: 'Exclude tests tagged', kind: vscode.QuickPickItemKind.Separator },
+        ...tags.map(tag => ({ label: tag, description: '--exclude-tag', tag, mode: 'exclude' as const, picked: current?.exclude.includes(tag) }))
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select Django tags to run or exclude'
+    });
+    if (!selected) {
+        return undefined;
+    }
+    return {
+        include: selected.filter(item => item.mode === 'include').map(item => item.tag!),
+        exclude: selected.filter(item => item.mode === 'exclude').map(item => item.tag!)
+    };
+}
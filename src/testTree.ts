@@ -1,6 +1,10 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { TestDiscovery, TestNode } from "./testDiscovery";
+import { DiscoveryProblem } from "./discoveryProblems";
 import { TestStateManager } from "./testStateManager";
+import { isTagFilterEmpty, matchesTagFilter, TagFilter } from "./testTags";
+import { getSubTestId, getSubTestLabel } from "./testUtils";
 
 export class TestTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<
@@ -11,6 +15,8 @@ export class TestTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
 	> = this._onDidChangeTreeData.event;
 	private discovery: TestDiscovery | undefined;
 	private cachedRoots: TestNode[] | undefined;
+	// Only tests matching these Django tags are shown and run
+	private tagFilter: TagFilter | undefined;
 
 	constructor(
 		private workspaceRoot: string | undefined,
@@ -18,6 +24,13 @@ export class TestTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
 	) {
 		if (workspaceRoot) {
 			this.discovery = discovery || new TestDiscovery(workspaceRoot);
+			// Cached results validated in the background
+			this.discovery.onDidChangeTests((roots) => {
+				if (this.cachedRoots) {
+					this.cachedRoots = roots;
+					this._onDidChangeTreeData.fire();
+				}
+			});
 		}
 	}
 
@@ -54,18 +67,118 @@ export class TestTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
 		}
 
 		if (element) {
-			return element.node.children?.map((child) => new TestItem(child)) || [];
+			return element.node.children?.filter((child) => this.isVisible(child)).map((child) => new TestItem(child, this.workspaceRoot)) || [];
 		} else {
 			if (!this.cachedRoots) {
 				this.cachedRoots = await this.discovery.discover();
 			}
-			return this.cachedRoots.map((node) => new TestItem(node));
+			const items = this.cachedRoots.filter((node) => this.isVisible(node)).map((node) => new TestItem(node, this.workspaceRoot));
+			const problems = this.discovery.getProblems();
+			if (problems.length > 0) {
+				items.unshift(new TestItem(this.createProblemsNode(problems), this.workspaceRoot));
+			}
+			return items;
+		}
+	}
+
+	/**
+	 * Summary of the tests the test runner would skip, listed above the tests
+	 */
+	private createProblemsNode(problems: DiscoveryProblem[]): TestNode {
+		const node: TestNode = { name: "Discovery Problems", type: "problems" };
+		node.children = problems.map((problem) => ({
+			name: problem.message,
+			type: "problem",
+			uri: problem.uri,
+			range: problem.range,
+			parent: node,
+		}));
+		return node;
+	}
+
+	getTagFilter(): TagFilter | undefined {
+		return this.tagFilter;
+	}
+
+	async setTagFilter(filter: TagFilter | undefined): Promise<void> {
+		this.tagFilter = isTagFilterEmpty(filter) ? undefined : filter;
+		await vscode.commands.executeCommand("setContext", "djangoTestManager.tagFilterActive", !!this.tagFilter);
+		this._onDidChangeTreeData.fire();
+	}
+
+	/**
+	 * Node of a subTest reported by a run, added under its test the first time
+	 */
+	getSubTestNode(testId: string, description: string): TestNode | undefined {
+		const testNode = this.discovery?.getNodeByDottedPath(testId);
+		if (!testNode) return undefined;
+
+		const dottedPath = getSubTestId(testId, description);
+		let node = testNode.children?.find((child) => child.dottedPath === dottedPath);
+		if (!node) {
+			node = {
+				name: getSubTestLabel(description),
+				type: "subtest",
+				uri: testNode.uri,
+				range: testNode.range,
+				dottedPath,
+				parent: testNode,
+			};
+			(testNode.children || (testNode.children = [])).push(node);
+		}
+		return node;
+	}
+
+	/**
+	 * Node of a test reported by a run, adding a test generated by parameterized
+	 * or ddt under its decorated method the first time
+	 */
+	addGeneratedTest(testId: string): TestNode | undefined {
+		return this.discovery?.addGeneratedTest(testId);
+	}
+
+	/**
+	 * Forget the subtests of a test before it runs again
+	 */
+	clearSubTests(testId: string): void {
+		const testNode = this.discovery?.getNodeByDottedPath(testId);
+		if (!testNode?.children) return;
+
+		const children = testNode.children.filter((child) => child.type !== "subtest");
+		testNode.children = children.length > 0 ? children : undefined;
+	}
+
+	/**
+	 * Django tags used by the discovered tests
+	 */
+	async getTags(): Promise<string[]> {
+		if (!this.discovery) return [];
+
+		if (!this.cachedRoots) {
+			this.cachedRoots = await this.discovery.discover();
+		}
+		return this.discovery.getTags();
+	}
+
+	/**
+	 * Tests are shown when they match the tag filter, containers when any of their tests do
+	 */
+	private isVisible(node: TestNode): boolean {
+		if (!this.tagFilter) {
+			return true;
+		}
+		if (node.type === "method" || node.type === "doctest") {
+			return matchesTagFilter(node.tags, this.tagFilter);
+		}
+		if (node.type === "subtest") {
+			return true;
 		}
+		return node.children?.some((child) => this.isVisible(child)) || false;
 	}
 
 	getParent(element: TestItem): vscode.ProviderResult<TestItem> {
 		if (element.node.parent) {
-			return new TestItem(element.node.parent);
+			return new TestItem(element.node.parent, this.workspaceRoot);
 		}
 		return null;
 	}
@@ -76,25 +189,109 @@ export class TestTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
 		if (!this.cachedRoots) {
 			this.cachedRoots = await this.discovery.discover();
 		}
-		const roots = this.cachedRoots;
+		return this.discovery.getNodeByDottedPath(dottedPath);
+	}
+}
 
-		const find = (nodes: TestNode[]): TestNode | undefined => {
-			for (const node of nodes) {
-				if (node.dottedPath === dottedPath) return node;
-				if (node.children) {
-					const found = find(node.children);
-					if (found) return found;
-				}
-			}
-			return undefined;
+/**
+ * Tree of all workspace folders: with several folders the tests of each one
+ * are grouped under a root named after it
+ */
+export class WorkspaceTreeDataProvider implements vscode.TreeDataProvider<TestItem> {
+	private _onDidChangeTreeData: vscode.EventEmitter<
+		TestItem | undefined | null | void
+	> = new vscode.EventEmitter<TestItem | undefined | null | void>();
+	readonly onDidChangeTreeData: vscode.Event<
+		TestItem | undefined | null | void
+	> = this._onDidChangeTreeData.event;
+	private projects = new Map<string, { name: string; provider: TestTreeDataProvider; listener: vscode.Disposable }>();
+
+	addProject(workspaceRoot: string, name: string, provider: TestTreeDataProvider): void {
+		const listener = provider.onDidChangeTreeData(() => this._onDidChangeTreeData.fire());
+		this.projects.set(workspaceRoot, { name, provider, listener });
+		this._onDidChangeTreeData.fire();
+	}
+
+	removeProject(workspaceRoot: string): void {
+		this.projects.get(workspaceRoot)?.listener.dispose();
+		this.projects.delete(workspaceRoot);
+		this._onDidChangeTreeData.fire();
+	}
+
+	getTreeItem(element: TestItem): vscode.TreeItem {
+		return element;
+	}
+
+	async getChildren(element?: TestItem): Promise<TestItem[]> {
+		if (element) {
+			const provider = element.workspaceRoot ? this.projects.get(element.workspaceRoot)?.provider : undefined;
+			if (!provider) return [];
+			return this.isProjectItem(element) ? provider.getChildren() : provider.getChildren(element);
+		}
+
+		if (this.projects.size === 1) {
+			return Array.from(this.projects.values())[0].provider.getChildren();
+		}
+		return Promise.all(Array.from(this.projects.keys(), (workspaceRoot) => this.createProjectItem(workspaceRoot)));
+	}
+
+	async getParent(element: TestItem): Promise<TestItem | null | undefined> {
+		const provider = element.workspaceRoot ? this.projects.get(element.workspaceRoot)?.provider : undefined;
+		if (!provider || this.isProjectItem(element)) {
+			return null;
+		}
+		const parent = await provider.getParent(element);
+		if (parent || this.projects.size === 1) {
+			return parent;
+		}
+		return this.createProjectItem(element.workspaceRoot!);
+	}
+
+	/**
+	 * Django tags used by the tests of all folders
+	 */
+	async getTags(): Promise<string[]> {
+		const tags = await Promise.all(Array.from(this.projects.values(), ({ provider }) => provider.getTags()));
+		return Array.from(new Set(tags.flat())).sort();
+	}
+
+	getTagFilter(): TagFilter | undefined {
+		return Array.from(this.projects.values())[0]?.provider.getTagFilter();
+	}
+
+	async setTagFilter(filter: TagFilter | undefined): Promise<void> {
+		for (const { provider } of this.projects.values()) {
+			await provider.setTagFilter(filter);
+		}
+	}
+
+	/**
+	 * Root of a workspace folder, run as a whole like the "All Tests" command
+	 */
+	private async createProjectItem(workspaceRoot: string): Promise<TestItem> {
+		const { name, provider } = this.projects.get(workspaceRoot)!;
+		const node: TestNode = {
+			name,
+			type: "folder",
+			dottedPath: "",
+			children: (await provider.getChildren()).map((item) => item.node),
 		};
+		const item = new TestItem(node, workspaceRoot);
+		item.id = `${workspaceRoot}|workspaceFolder`;
+		if (!item.iconPath) {
+			item.iconPath = new vscode.ThemeIcon("root-folder");
+		}
+		item.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+		return item;
+	}
 
-		return find(roots);
+	private isProjectItem(element: TestItem): boolean {
+		return element.id === `${element.workspaceRoot}|workspaceFolder`;
 	}
 }
 
 export class TestItem extends vscode.TreeItem {
-	constructor(public readonly node: TestNode) {
+	constructor(public readonly node: TestNode, public readonly workspaceRoot?: string) {
 		super(
 			node.name,
 			node.children && node.children.length > 0
@@ -103,8 +300,20 @@ export class TestItem extends vscode.TreeItem {
 		);
 		// Use composite ID to avoid collisions between folders and files with same dotted path
 		this.id = node.dottedPath ? `${node.dottedPath}|${node.type}` : node.name;
+		if (node.type === "problem") {
+			this.id = `${node.uri}|${node.range?.start.line}|${node.name}`;
+		}
+		if (workspaceRoot) {
+			// Test ids repeat across the folders of a multi-root workspace
+			this.id = `${workspaceRoot}|${this.id}`;
+		}
 		this.contextValue = node.type;
 
+		if (node.type === "problems" || node.type === "problem") {
+			this.initProblem(node);
+			return;
+		}
+
 		if (node.uri) {
 			this.resourceUri = node.uri;
 			this.command = {
@@ -120,6 +329,55 @@ export class TestItem extends vscode.TreeItem {
 
 		this.tooltip = `${node.name}\n${node.dottedPath || ""}`;
 		this.description = this.formatStatus(status, node);
+
+		// Settings module of the run the result comes from
+		const settingsModule = node.dottedPath
+			? TestStateManager.getInstance(this.workspaceRoot).getSettingsModule(node.dottedPath)
+			: undefined;
+		if (settingsModule && (status === "passed" || status === "failed" || status === "skipped")) {
+			this.tooltip += `\nSettings: ${settingsModule}`;
+		}
+
+		// Waiting in the run queue; the last result stays in the tooltip
+		if (status !== "running" && status !== "pending"
+			&& node.dottedPath && TestStateManager.getInstance(this.workspaceRoot).isQueued(node.dottedPath)) {
+			this.iconPath = new vscode.ThemeIcon("history", new vscode.ThemeColor("testing.iconQueued"));
+			this.tooltip += `\nQueued (last result: ${this.description})`;
+			this.description = "Queued";
+		}
+
+		// Result of the last collection with Django's test loader
+		if (node.collectStatus === "notCollected") {
+			this.description += " · not collected";
+			this.tooltip += "\nNot collected by Django's test loader";
+			if (status === "unknown") {
+				this.iconPath = new vscode.ThemeIcon("circle-slash");
+			}
+		} else if (node.collectStatus === "runtimeOnly") {
+			this.description += " · runtime only";
+			this.tooltip += "\nOnly found by Django's test loader (no static definition)";
+		}
+
+		if (node.placeholder) {
+			this.description += " · not run yet";
+			this.tooltip += `\nTests generated by ${node.parent?.generator} are listed after the first run`;
+		}
+	}
+
+	private initProblem(node: TestNode): void {
+		this.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+		if (node.type === "problems") {
+			this.description = `${node.children?.length}`;
+			this.tooltip = "Tests the test runner would skip";
+			return;
+		}
+		this.tooltip = node.name;
+		this.description = `${path.basename(node.uri!.fsPath)}:${node.range!.start.line + 1}`;
+		this.command = {
+			command: "django-test-manager.openTestItem",
+			title: "Open",
+			arguments: [this],
+		};
 	}
 
 	private formatStatus(status: string, node: TestNode): string {
@@ -139,7 +397,7 @@ export class TestItem extends vscode.TreeItem {
 		}
 
 		if (node.dottedPath) {
-			const duration = TestStateManager.getInstance().getDuration(
+			const duration = TestStateManager.getInstance(this.workspaceRoot).getDuration(
 				node.dottedPath
 			);
 			if (duration !== undefined && status !== "running") {
@@ -155,7 +413,7 @@ export class TestItem extends vscode.TreeItem {
 
 	private computeStatus(node: TestNode): string {
 		const directStatus = node.dottedPath
-			? TestStateManager.getInstance().getStatus(node.dottedPath)
+			? TestStateManager.getInstance(this.workspaceRoot).getStatus(node.dottedPath)
 			: undefined;
 
 		// If it's a leaf node (method) or has no children, look up its direct status
@@ -247,9 +505,14 @@ export class TestItem extends vscode.TreeItem {
 						return new vscode.ThemeIcon('symbol-class');
 					case 'method':
 						return new vscode.ThemeIcon('symbol-method');
+					case 'subtest':
+						return new vscode.ThemeIcon('symbol-parameter');
+					case 'doctest':
+						return new vscode.ThemeIcon('book');
+					case 'app':
+						return new vscode.ThemeIcon('package');
 					case 'file':
 					case 'folder':
-					case 'app':
 						// Return undefined to let VS Code use the user's active File Icon Theme
 						return undefined;
 					default:
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { getExecutionWrapper } from './executionWrapper';
 
 /**
  * Default known Django/Python test base classes
@@ -148,6 +149,134 @@ export function clearTestUtilsCache(): void {
     cachedTestBaseClasses = null;
 }
 
+/**
+ * Workspace folder of each Django project: a folder, its configured
+ * `projectRoot`, or a directory with a manage.py detected in it
+ */
+const projectFolders = new Map<string, vscode.WorkspaceFolder>();
+
+/**
+ * Resolve the Django project root of a workspace folder from its
+ * `projectRoot` setting. Relative paths are resolved against the folder.
+ */
+export function resolveProjectRoot(folder: vscode.WorkspaceFolder): string {
+    const config = vscode.workspace.getConfiguration('djangoTestManager', folder.uri);
+    const projectRoot = config.get<string>('projectRoot') ?? '';
+    return projectRoot ? path.resolve(folder.uri.fsPath, projectRoot) : folder.uri.fsPath;
+}
+
+export function registerProject(workspaceRoot: string, folder: vscode.WorkspaceFolder): void {
+    projectFolders.set(workspaceRoot, folder);
+}
+
+export function unregisterProject(workspaceRoot: string): void {
+    projectFolders.delete(workspaceRoot);
+}
+
+/**
+ * Workspace folder a project root was resolved from
+ */
+export function getProjectFolder(workspaceRoot: string): vscode.WorkspaceFolder | undefined {
+    return projectFolders.get(workspaceRoot) || vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot));
+}
+
+/**
+ * Root of the project a file belongs to: the innermost project containing it,
+ * so a project nested in another one keeps its own tests
+ */
+export function getProjectRoot(fsPath: string): string | undefined {
+    let projectRoot: string | undefined;
+    for (const root of projectFolders.keys()) {
+        const relative = path.relative(root, fsPath);
+        const inside = !relative.startsWith('..') && !path.isAbsolute(relative);
+        if (inside && (!projectRoot || root.length > projectRoot.length)) {
+            projectRoot = root;
+        }
+    }
+    return projectRoot;
+}
+
+/**
+ * Whether a file belongs to a project rather than to a project nested in it.
+ * Files of unknown projects belong to any.
+ */
+export function isInProject(workspaceRoot: string, fsPath: string): boolean {
+    const projectRoot = getProjectRoot(fsPath);
+    return !projectRoot || projectRoot === workspaceRoot;
+}
+
+/**
+ * Deal with the unsaved Python files of a project before a run, which runs the
+ * files on disk: save them, or ask whether to save them or run anyway.
+ * Returns whether to go on with the run.
+ */
+export async function confirmUnsavedChanges(workspaceRoot: string): Promise<boolean> {
+    const documents = vscode.workspace.textDocuments.filter(document =>
+        document.isDirty
+        && document.languageId === 'python'
+        && document.uri.scheme === 'file'
+        && getProjectRoot(document.uri.fsPath) === workspaceRoot
+    );
+    if (documents.length === 0) {
+        return true;
+    }
+
+    const mode = getConfiguration(workspaceRoot).get<string>('unsavedChanges') || 'warn';
+    if (mode === 'ignore') {
+        return true;
+    }
+    if (mode === 'warn') {
+        const names = documents.map(document => path.basename(document.uri.fsPath)).join(', ');
+        const choice = await vscode.window.showWarningMessage(
+            `${names} ${documents.length > 1 ? 'have' : 'has'} unsaved changes, which the test run would not include.`,
+            'Save and Run',
+            'Run Anyway'
+        );
+        if (choice !== 'Save and Run') {
+            return choice === 'Run Anyway';
+        }
+    }
+    const saved = await Promise.all(documents.map(document => document.save()));
+    return saved.every(Boolean);
+}
+
+/**
+ * Name of a project when there are several whose tests need telling apart:
+ * its folder's name in a multi-root workspace and its path inside the folder
+ */
+export function getProjectLabel(workspaceRoot: string): string | undefined {
+    if (projectFolders.size < 2) {
+        return undefined;
+    }
+    const folder = getProjectFolder(workspaceRoot);
+    if (!folder) {
+        return path.basename(workspaceRoot);
+    }
+    const relativePath = path.relative(folder.uri.fsPath, workspaceRoot).replace(/\\/g, '/');
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    if (!relativePath) {
+        return folder.name;
+    }
+    return multiRoot ? `${folder.name}/${relativePath}` : relativePath;
+}
+
+/**
+ * Extension settings as seen by the workspace folder of a project root, so
+ * each folder of a multi-root workspace can be configured on its own
+ */
+export function getConfiguration(workspaceRoot?: string): vscode.WorkspaceConfiguration {
+    const folder = workspaceRoot ? getProjectFolder(workspaceRoot) : undefined;
+    return vscode.workspace.getConfiguration('djangoTestManager', folder?.uri);
+}
+
+/**
+ * Where a project's settings are written: the workspace, or the folder in a
+ * multi-root workspace so each folder keeps its own
+ */
+export function getConfigurationTarget(): vscode.ConfigurationTarget {
+    return (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+}
+
 /**
  * Reads and parses a .env file
  * @param envFilePath Path to the .env file
@@ -202,13 +331,14 @@ async function readEnvFile(envFilePath: string): Promise<{ [key: string]: string
 /**
  * Merges environment variables from multiple sources in priority order:
  * 1. Process environment variables (lowest priority)
- * 2. .env file variables (middle priority)
- * 3. Configuration environmentVariables (highest priority)
+ * 2. .env file variables, then those of the active profile's env file
+ * 3. Configuration environmentVariables, then the active profile's
+ * 4. The selected settings module as DJANGO_SETTINGS_MODULE (highest priority)
  * @param workspaceRoot Root path of the workspace/project
  * @returns Merged environment variables object
  */
 export async function getMergedEnvironmentVariables(workspaceRoot: string): Promise<{ [key: string]: string }> {
-    const config = vscode.workspace.getConfiguration('djangoTestManager');
+    const config = getConfiguration(workspaceRoot);
     const configEnv = config.get<{ [key: string]: string }>('environmentVariables') || {};
     const envFilePath = config.get<string>('envFilePath') || '.env';
 
@@ -228,9 +358,19 @@ export async function getMergedEnvironmentVariables(workspaceRoot: string): Prom
         // Merge .env file variables (overrides process.env)
         Object.assign(mergedEnv, envFileVars);
     }
+    const profile = getActiveProfile(workspaceRoot);
+    if (profile.envFile) {
+        Object.assign(mergedEnv, await readEnvFile(resolvePath(profile.envFile, workspaceRoot)));
+    }
 
     // Merge configuration variables (overrides .env file and process.env)
-    Object.assign(mergedEnv, configEnv);
+    Object.assign(mergedEnv, configEnv, profile.environmentVariables);
+
+    // The selected settings module overrides all of them
+    const settingsModule = getSettingsModule(workspaceRoot);
+    if (settingsModule) {
+        mergedEnv.DJANGO_SETTINGS_MODULE = settingsModule;
+    }
 
     return mergedEnv;
 }
@@ -251,7 +391,7 @@ export function resolvePath(pathValue: string, workspaceRoot: string, defaultPat
     }
 
     // Get workspace folder for variable substitution
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || vscode.workspace.rootPath || workspaceRoot;
+    const workspaceFolder = getProjectFolder(workspaceRoot)?.uri.fsPath || workspaceRoot;
 
     // Replace ${workspaceFolder} variable
     const resolvedPath = pathValue.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
@@ -264,3 +404,149 @@ export function resolvePath(pathValue: string, workspaceRoot: string, defaultPat
     // Otherwise, resolve it relative to workspaceRoot
     return path.resolve(workspaceRoot, resolvedPath);
 }
+
+/**
+ * What a test profile sets up for its runs
+ */
+export interface TestProfileOptions {
+    /** Arguments passed to manage.py test */
+    arguments?: string[];
+    /** DJANGO_SETTINGS_MODULE of the runs */
+    settingsModule?: string;
+    /** Variables over `environmentVariables` */
+    environmentVariables?: { [key: string]: string };
+    /** .env file read after `envFilePath` */
+    envFile?: string;
+    /** Interpreter instead of `pythonPath` */
+    pythonPath?: string;
+    /** Shell commands run in the project root before the tests */
+    preRunCommands?: string[];
+}
+
+/**
+ * A test profile as configured in `testProfiles`: an object, or just its
+ * manage.py arguments
+ */
+export type TestProfileSetting = string[] | TestProfileOptions;
+
+export interface TestProfile extends TestProfileOptions {
+    name: string;
+    arguments: string[];
+}
+
+/**
+ * The configured test profiles of a project
+ */
+export function getTestProfiles(workspaceRoot?: string): TestProfile[] {
+    const profiles = getConfiguration(workspaceRoot).get<{ [key: string]: TestProfileSetting }>('testProfiles') || {};
+    return Object.entries(profiles).map(([name, profile]) => Array.isArray(profile)
+        ? { name, arguments: profile }
+        : { ...profile, name, arguments: profile?.arguments || [], settingsModule: profile?.settingsModule || undefined });
+}
+
+/**
+ * The active test profile of a project; an unknown profile has no arguments
+ */
+export function getActiveProfile(workspaceRoot?: string): TestProfile {
+    const name = getConfiguration(workspaceRoot).get<string>('activeProfile') || 'Default';
+    return getTestProfiles(workspaceRoot).find(profile => profile.name === name) || { name, arguments: [] };
+}
+
+/**
+ * Interpreter of a project: the active profile's `pythonPath`, else the
+ * configured one. The default `python3` (or `python`) is replaced by the
+ * project's `.venv` or `venv` interpreter when there is one, unless an
+ * execution wrapper runs Python elsewhere with its own interpreter.
+ */
+export function getPythonInterpreter(workspaceRoot: string): string {
+    const pythonPath = getActiveProfile(workspaceRoot).pythonPath || getConfiguration(workspaceRoot).get<string>('pythonPath') || 'python3';
+    if ((pythonPath === 'python3' || pythonPath === 'python') && !getExecutionWrapper(workspaceRoot)) {
+        for (const venv of ['.venv', 'venv']) {
+            const venvPython = path.join(workspaceRoot, venv, 'bin', 'python');
+            if (fs.existsSync(venvPython)) {
+                return venvPython;
+            }
+        }
+    }
+    return pythonPath;
+}
+
+/**
+ * Settings module the tests of a project run with: the one chosen with
+ * Select Settings Module, else the active profile's. Undefined leaves
+ * DJANGO_SETTINGS_MODULE to the environment and manage.py.
+ */
+export function getSettingsModule(workspaceRoot?: string): string | undefined {
+    return getConfiguration(workspaceRoot).get<string>('activeSettingsModule') || getActiveProfile(workspaceRoot).settingsModule;
+}
+
+/**
+ * Test runner backend selected in configuration
+ */
+export type TestRunnerBackend = 'django' | 'pytest';
+
+export function getTestRunnerBackend(workspaceRoot?: string): TestRunnerBackend {
+    const config = getConfiguration(workspaceRoot);
+    return config.get<string>('testRunnerBackend') === 'pytest' ? 'pytest' : 'django';
+}
+
+/**
+ * Build the id used to run and track a test from its workspace-relative path.
+ *
+ * - django: dotted labels (`app.tests.test_views.MyTests.test_get`)
+ * - pytest: node ids (`app/tests/test_views.py::MyTests::test_get`)
+ *
+ * Without a `.py` extension the path is treated as a folder.
+ *
+ * @param backend Backend of the project the path belongs to
+ * @param relativePath File or folder path relative to the project root
+ * @param names Class and/or function names inside the file
+ */
+export function buildTestId(backend: TestRunnerBackend, relativePath: string, ...names: string[]): string {
+    const posixPath = relativePath.replace(/\\/g, '/');
+    if (backend === 'pytest') {
+        return [posixPath, ...names].join('::');
+    }
+    return [posixPath.replace(/\.py$/, '').replace(/\//g, '.'), ...names].join('.');
+}
+
+/**
+ * Short display name of a test id (last class/method component)
+ */
+export function getTestName(testId: string): string {
+    // Keep parametrize ids such as test_div[1.5-0] whole
+    const bracket = testId.indexOf('[');
+    const base = bracket === -1 ? testId : testId.substring(0, bracket);
+    const parts = base.split(/::|\./);
+    return (parts[parts.length - 1] || base) + (bracket === -1 ? '' : testId.substring(bracket));
+}
+
+/**
+ * Label of a unittest subTest from the description unittest prints after the
+ * test, e.g. `(i=1)` -> `i=1` and `[bad input] (n=1.5)` -> `bad input (n=1.5)`
+ */
+export function getSubTestLabel(description: string): string {
+    const match = /^(?:\[(.*?)\])?\s*(?:\((.*)\))?$/.exec(description.trim());
+    if (!match || (!match[1] && !match[2])) {
+        return description.trim();
+    }
+    return match[1] && match[2] ? `${match[1]} (${match[2]})` : match[1] || match[2];
+}
+
+/**
+ * Id of a subTest, tracked under its test: `app.tests.MyTests.test_x[i=1]`.
+ * manage.py cannot run a subTest on its own; its test id is everything
+ * before the bracket.
+ */
+export function getSubTestId(testId: string, description: string): string {
+    return `${testId}[${getSubTestLabel(description)}]`;
+}
+
+/**
+ * Whether a test name was generated from a parameterized or ddt decorated
+ * method. Both append the case number and optionally a description of the
+ * data: `test_price` -> `test_price_0_zero`, `test_price_2`.
+ */
+export function isGeneratedTestName(name: string, methodName: string): boolean {
+    return name.startsWith(`${methodName}_`) && /^\d+(_|$)/.test(name.substring(methodName.length + 1));
+}
@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { TestTreeDataProvider } from './testTree';
+import { TestRunner } from './testRunner';
+import { DjangoTestCodeLensProvider } from './testCodeLensProvider';
+import { TestDiscovery } from './testDiscovery';
+import { DiscoveryCache } from './discoveryCache';
+import { TestStateManager } from './testStateManager';
+import { TestHistoryManager } from './testHistory';
+import { CoverageProvider } from './coverageProvider';
+import { WatchModeManager } from './watchMode';
+import { ProfileStatusBar } from './profileStatusBar';
+import { NativeTestController } from './nativeTestController';
+import { DiscoveryDiagnostics } from './discoveryDiagnostics';
+import * as path from 'path';
+import { getConfiguration, isInProject, resolveProjectRoot } from './testUtils';
+
+/**
+ * A Django project of a workspace folder: its discovery, runner, state,
+ * history and views. A multi-root workspace gets one per folder, and a folder
+ * holding several manage.py projects one per project.
+ */
+export class TestWorkspace implements vscode.Disposable {
+    public readonly discovery: TestDiscovery;
+    public readonly treeDataProvider: TestTreeDataProvider;
+    public readonly coverageProvider: CoverageProvider;
+    public readonly runner: TestRunner;
+    public readonly watchModeManager: WatchModeManager;
+    public readonly nativeTestController: NativeTestController;
+    public readonly stateManager: TestStateManager;
+    public readonly historyManager: TestHistoryManager;
+    public readonly codeLensProvider: DjangoTestCodeLensProvider;
+    private disposables: vscode.Disposable[] = [];
+    private testFileWatcher: vscode.FileSystemWatcher;
+
+    constructor(
+        public readonly folder: vscode.WorkspaceFolder,
+        public readonly workspaceRoot: string,
+        context: vscode.ExtensionContext
+    ) {
+        this.stateManager = TestStateManager.getInstance(this.workspaceRoot);
+        this.historyManager = TestHistoryManager.getInstance(this.workspaceRoot, context);
+
+        // Folders of a multi-root workspace and projects of a folder keep their caches apart
+        const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        const cacheSegments = [
+            ...(multiRoot ? [folder.name] : []),
+            ...path.relative(folder.uri.fsPath, workspaceRoot).split(path.sep).filter(Boolean)
+        ];
+        const storageUri = context.storageUri && cacheSegments.length > 0
+            ? vscode.Uri.joinPath(context.storageUri, ...cacheSegments)
+            : context.storageUri;
+        const discoveryCache = new DiscoveryCache(storageUri);
+        this.discovery = new TestDiscovery(this.workspaceRoot, discoveryCache);
+        this.treeDataProvider = new TestTreeDataProvider(this.workspaceRoot, this.discovery);
+
+        // A detected project writes its coverage report in its own directory
+        const detected = workspaceRoot !== resolveProjectRoot(folder);
+        this.coverageProvider = new CoverageProvider(detected ? workspaceRoot : folder.uri.fsPath);
+        // Load existing coverage if available
+        this.coverageProvider.loadCoverage();
+        this.runner = new TestRunner(this.workspaceRoot, this.treeDataProvider, this.coverageProvider);
+        this.watchModeManager = new WatchModeManager(this.workspaceRoot, this.runner);
+
+        // Integrates with the built-in Test Explorer, one root per project
+        this.nativeTestController = new NativeTestController(this.workspaceRoot, this.discovery);
+        this.nativeTestController.discoverAllTests();
+
+        this.disposables.push(
+            discoveryCache,
+            this.coverageProvider,
+            this.runner,
+            this.watchModeManager,
+            new ProfileStatusBar(this.workspaceRoot),
+            this.nativeTestController
+        );
+        this.codeLensProvider = new DjangoTestCodeLensProvider(this.workspaceRoot, this.discovery);
+
+        // Warn about tests the test runner would skip, with quick fixes
+        const diagnostics = new DiscoveryDiagnostics(this.workspaceRoot, this.discovery);
+        this.disposables.push(
+            diagnostics,
+            vscode.languages.registerCodeActionsProvider(
+                { language: 'python', scheme: 'file', pattern: new vscode.RelativePattern(workspaceRoot, '**/*') },
+                diagnostics,
+                { providedCodeActionKinds: DiscoveryDiagnostics.providedCodeActionKinds }
+            )
+        );
+
+        // Auto-discover tests on file changes, debounced per file; the last
+        // change of a file within the delay wins (e.g. a save by delete and create)
+        const debounced = debounceByUri(500);
+        const update = (uri: vscode.Uri) => debounced(uri, () => {
+            this.treeDataProvider.updateFile(uri);
+            // The native Test Explorer only refreshes the affected items
+            this.nativeTestController.updateFile(uri);
+        });
+        const remove = (uri: vscode.Uri) => debounced(uri, () => {
+            this.treeDataProvider.removeFile(uri);
+            this.nativeTestController.removeFile(uri);
+        });
+        // Files of a project nested in this one are its own
+        const owns = (uri: vscode.Uri) => isInProject(this.workspaceRoot, uri.fsPath);
+        const watch = (watcher: vscode.FileSystemWatcher, accepts: (uri: vscode.Uri) => boolean): vscode.FileSystemWatcher => {
+            watcher.onDidCreate((uri) => { if (owns(uri) && accepts(uri)) update(uri); });
+            watcher.onDidChange((uri) => { if (owns(uri) && accepts(uri)) update(uri); });
+            watcher.onDidDelete((uri) => { if (owns(uri) && accepts(uri)) remove(uri); });
+            return watcher;
+        };
+
+        // Test files, and the modules their base classes come from (e.g. tests/base.py)
+        this.testFileWatcher = watch(vscode.workspace.createFileSystemWatcher(this.getTestFilePattern()), () => true);
+        this.disposables.push(watch(
+            vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, '**/*.py')),
+            (uri) => this.discovery.isImportedModule(uri)
+        ));
+
+        // Unsaved edits move and add tests as they are typed, and closing
+        // without saving brings back the file on disk
+        const isTestDocument = (document: vscode.TextDocument) => document.uri.scheme === 'file'
+            && (vscode.languages.match({ language: 'python', pattern: this.getTestFilePattern() }, document) > 0
+                || this.discovery.isImportedModule(document.uri))
+            && owns(document.uri);
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (e.contentChanges.length > 0 && isTestDocument(e.document)) {
+                    update(e.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) => {
+                if (isTestDocument(document)) {
+                    update(document.uri);
+                }
+            })
+        );
+
+        // Watch the new test files when their pattern changes
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('djangoTestManager.testFilePattern', folder.uri)) {
+                this.testFileWatcher.dispose();
+                this.testFileWatcher = watch(vscode.workspace.createFileSystemWatcher(this.getTestFilePattern()), () => true);
+            }
+        }));
+
+        // Regroup the tests when the tree layout changes
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('djangoTestManager.treeLayout', folder.uri)) {
+                this.treeDataProvider.refreshDiscovery();
+                this.nativeTestController.discoverAllTests();
+            }
+        }));
+    }
+
+
+    private getTestFilePattern(): vscode.RelativePattern {
+        const pattern = getConfiguration(this.workspaceRoot).get<string>('testFilePattern') || '**/*test*.py';
+        return new vscode.RelativePattern(this.workspaceRoot, pattern);
+    }
+
+    public dispose(): void {
+        this.testFileWatcher.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function debounceByUri(wait: number): (uri: vscode.Uri, func: () => void) => void {
+    const timeouts = new Map<string, NodeJS.Timeout>();
+    return (uri: vscode.Uri, func: () => void) => {
+        const key = uri.toString();
+        clearTimeout(timeouts.get(key));
+        timeouts.set(key, setTimeout(() => {
+            timeouts.delete(key);
+            func();
+        }, wait));
+    };
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { TestRunner } from './testRunner';
 import { TestNode } from './testDiscovery';
+import { buildTestId, getConfiguration, getProjectLabel, getTestRunnerBackend } from './testUtils';
 
 /**
  * Watch Mode - Automatically runs tests when files change
@@ -14,6 +15,7 @@ export class WatchModeManager {
     private statusBarItem: vscode.StatusBarItem;
     private testRunner: TestRunner;
     private workspaceRoot: string;
+    private label: string | undefined;
 
     constructor(workspaceRoot: string, testRunner: TestRunner) {
         this.workspaceRoot = workspaceRoot;
@@ -24,7 +26,12 @@ export class WatchModeManager {
             vscode.StatusBarAlignment.Left,
             99
         );
-        this.statusBarItem.command = 'django-test-manager.toggleWatchMode';
+        this.statusBarItem.command = {
+            command: 'django-test-manager.toggleWatchMode',
+            title: 'Toggle Watch Mode',
+            arguments: [workspaceRoot]
+        };
+        this.label = getProjectLabel(workspaceRoot);
         this.updateStatusBar();
     }
 
@@ -45,7 +52,7 @@ export class WatchModeManager {
     public enable(): void {
         if (this.isEnabled) return;
 
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this.workspaceRoot);
         const watchPattern = config.get<string>('watchPattern') || '**/*.py';
 
         // Create file watcher
@@ -93,7 +100,7 @@ export class WatchModeManager {
         this.updateStatusBar();
 
         // Update configuration
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this.workspaceRoot);
         config.update('watchMode', false, vscode.ConfigurationTarget.Workspace);
 
         vscode.window.showInformationMessage('Watch Mode disabled.');
@@ -116,7 +123,7 @@ export class WatchModeManager {
         this.changedFiles.add(uri.fsPath);
 
         // Debounce test runs
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this.workspaceRoot);
         const debounceMs = config.get<number>('watchDebounceMs') || 1000;
 
         if (this.debounceTimer) {
@@ -151,7 +158,7 @@ export class WatchModeManager {
     private async runTestsForChangedFiles(): Promise<void> {
         if (this.changedFiles.size === 0) return;
 
-        const config = vscode.workspace.getConfiguration('djangoTestManager');
+        const config = getConfiguration(this.workspaceRoot);
         const runAffectedOnly = config.get<boolean>('watchRunAffectedOnly') ?? true;
         const changedFilesList = Array.from(this.changedFiles);
         this.changedFiles.clear();
@@ -170,13 +177,13 @@ export class WatchModeManager {
                 type: 'folder',
                 dottedPath: ''
             };
-            await this.testRunner.runInTerminal(rootNode);
+            await this.testRunner.runInTerminal(rootNode, false);
         }
 
         // Show notification when done
         const showNotifications = config.get<boolean>('showNotifications') ?? true;
         if (showNotifications) {
-            const stateManager = await import('./testStateManager').then(m => m.TestStateManager.getInstance());
+            const stateManager = await import('./testStateManager').then(m => m.TestStateManager.getInstance(this.workspaceRoot));
             const counts = stateManager.getCounts();
 
             if (counts.failed > 0) {
@@ -202,7 +209,7 @@ export class WatchModeManager {
             // If it's a test file, run it directly
             if (fileName.startsWith('test_') || fileName.includes('_test') || fileName === 'tests.py') {
                 const relativePath = path.relative(this.workspaceRoot, filePath);
-                const dottedPath = relativePath.replace(/\.py$/, '').replace(/\//g, '.').replace(/\\/g, '.');
+                const dottedPath = buildTestId(getTestRunnerBackend(this.workspaceRoot), relativePath);
 
                 const node: TestNode = {
                     name: fileName,
@@ -211,7 +218,7 @@ export class WatchModeManager {
                     uri: vscode.Uri.file(filePath)
                 };
 
-                await this.testRunner.runInTerminal(node);
+                await this.testRunner.runInTerminal(node, false);
             } else {
                 // Try to find related test file
                 const testFileNames = [
@@ -222,7 +229,7 @@ export class WatchModeManager {
 
                 const dirPath = path.dirname(filePath);
                 const testFiles = await vscode.workspace.findFiles(
-                    `**/{${testFileNames.join(',')}}`,
+                    new vscode.RelativePattern(this.workspaceRoot, `**/{${testFileNames.join(',')}}`),
                     '**/node_modules/**',
                     10
                 );
@@ -237,7 +244,7 @@ export class WatchModeManager {
 
                     const testFile = testFiles[0];
                     const relativePath = path.relative(this.workspaceRoot, testFile.fsPath);
-                    const dottedPath = relativePath.replace(/\.py$/, '').replace(/\//g, '.').replace(/\\/g, '.');
+                    const dottedPath = buildTestId(getTestRunnerBackend(this.workspaceRoot), relativePath);
 
                     const node: TestNode = {
                         name: path.basename(testFile.fsPath),
@@ -246,7 +253,7 @@ export class WatchModeManager {
                         uri: testFile
                     };
 
-                    await this.testRunner.runInTerminal(node);
+                    await this.testRunner.runInTerminal(node, false);
                 }
             }
         }
@@ -257,11 +264,11 @@ export class WatchModeManager {
      */
     private updateStatusBar(): void {
         if (this.isEnabled) {
-            this.statusBarItem.text = '$(eye) Watch Mode';
+            this.statusBarItem.text = this.label ? `$(eye) Watch Mode (${this.label})` : '$(eye) Watch Mode';
             this.statusBarItem.tooltip = 'Watch Mode is ON. Click to disable.';
             this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         } else {
-            this.statusBarItem.text = '$(eye-closed) Watch Mode';
+            this.statusBarItem.text = this.label ? `$(eye-closed) Watch Mode (${this.label})` : '$(eye-closed) Watch Mode';
             this.statusBarItem.tooltip = 'Watch Mode is OFF. Click to enable.';
             this.statusBarItem.backgroundColor = undefined;
         }